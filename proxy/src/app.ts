@@ -2,25 +2,67 @@ import express, { type Request, type Response } from "express";
 import cors from "cors";
 
 import { config } from "./config.js";
-import { createX402Gate } from "./middleware/x402Gate.js";
+import { createX402Gate, paysProxySigner, type DeferredSettlement } from "./middleware/x402Gate.js";
 import { adminAuth } from "./middleware/adminAuth.js";
+import { ipRateLimit } from "./middleware/rateLimit.js";
+import { requestContext } from "./middleware/requestContext.js";
+import { proxyRequestMetrics } from "./middleware/requestMetrics.js";
 import {
   getAllResources,
   registerResource,
   getResource,
+  updateResourcePricing,
+  updateResourceApiKey,
+  updateResourceUpstreamAuth,
 } from "./services/resourceStore.js";
-import { forwardRequest } from "./services/proxyForward.js";
-import type { ServiceType } from "./types/x402.js";
+import { once } from "node:events";
+import { pipeline } from "node:stream";
+import { buffer } from "node:stream/consumers";
+import { forwardRequest, captureRawBody, rawBodyOf, type ForwardResult } from "./services/proxyForward.js";
+import { issueUsageReceipt } from "./services/usageReceipts.js";
+import { RECEIPT_HEADER, encodeReceiptHeader, hashReceiptRequest } from "./sdk/usageReceipt.js";
+import type {
+  AttestedPayment,
+  PaymentOption,
+  Resource,
+  ResourcePricing,
+  ServiceType,
+  SettlementPolicy,
+  UpstreamAuth,
+} from "./types/x402.js";
+import { validatePricing } from "./services/pricing.js";
+import { resolveServiceInfo } from "./services/serviceInfo.js";
 import { registerAgentRouter } from "./routes/registerAgent.js";
 import { fundAgentRouter } from "./routes/fundAgent.js";
 import { registerServiceRouter } from "./routes/registerService.js";
 import { allowTargetRouter } from "./routes/allowTarget.js";
+import { transactionsRouter } from "./routes/transactions.js";
+import { settlementsRouter } from "./routes/settlements.js";
+import { deployerTxsRouter } from "./routes/deployerTxs.js";
+import { accrualsRouter } from "./routes/accruals.js";
+import { rateLimitsRouter } from "./routes/rateLimits.js";
+import { attestationRouter } from "./routes/attestation.js";
+import { registrySyncRouter } from "./routes/registrySync.js";
+import { chainIndexRouter } from "./routes/chainIndex.js";
+import { webhooksRouter } from "./routes/webhooks.js";
+import { receiptsRouter } from "./routes/receipts.js";
+import { metricsRouter } from "./routes/metrics.js";
+import { flushAgent, flushAll } from "./services/revenueAccrual.js";
+import { getResourceHealth } from "./services/upstreamHealth.js";
+import { isVaultConfigured } from "./services/secretVault.js";
+import { invalidateUpstreamToken, validateUpstreamAuth } from "./services/upstreamAuth.js";
+import { getOnChainServiceId, toPublicResource } from "./models/Resource.js";
+import { createLogger } from "./services/logger.js";
+
+const adminLog = createLogger("admin");
+const proxyLog = createLogger("proxy");
 
 // ---------------------------------------------------------------------------
 // Express App
 // ---------------------------------------------------------------------------
 
 const app = express();
+app.set("trust proxy", config.trustProxy);
 
 // ---------------------------------------------------------------------------
 // Global Middleware
@@ -35,24 +77,33 @@ app.use(
       "Authorization",
       "x-payment",
       "x-payment-id",
+      "x-payment-network",
+      "X-Owner-Signature",
+      "X-Owner-Timestamp",
       "PAYMENT-SIGNATURE",
+      "X-Request-Id",
       "Access-Control-Expose-Headers",
     ],
     exposedHeaders: [
       "X-PAYMENT-RESPONSE",
+      "X-PAYMENT-CALLS-REMAINING",
       "PAYMENT-REQUIRED",
       "PAYMENT-RESPONSE",
+      "Retry-After",
+      "X-PragmaMoney-Receipt",
+      "X-Request-Id",
     ],
   })
 );
 
-app.use(express.json());
+// Keep raw JSON bytes for byte-exact forwarding; other content types are
+// left unparsed and streamed to the upstream by proxyForward.
+app.use(express.json({ verify: captureRawBody }));
 
-// Simple request logger
-app.use((req: Request, _res: Response, next) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
-});
+// Correlation id per request (after body parsing, so the context survives it)
+app.use(requestContext());
+
+app.use(ipRateLimit());
 
 // ---------------------------------------------------------------------------
 // Free Routes
@@ -63,7 +114,12 @@ app.get("/health", (_req: Request, res: Response) => {
 });
 
 app.get("/services", (_req: Request, res: Response) => {
-  res.json(getAllResources());
+  res.json(
+    getAllResources().map((resource) => {
+      const health = getResourceHealth(resource.id);
+      return { ...toPublicResource(resource), status: health.status, health };
+    })
+  );
 });
 
 // ---------------------------------------------------------------------------
@@ -76,52 +132,266 @@ interface RegisterBody {
   type?: ServiceType;
   creatorAddress?: string;
   originalUrl?: string;
-  pricing?: { pricePerCall?: string; currency?: "USDC" };
+  pricing?: Partial<ResourcePricing>;
+  settlementPolicy?: SettlementPolicy;
+  healthCheckUrl?: string;
   apiKey?: string;
   apiKeyHeader?: string;
+  upstreamAuth?: UpstreamAuth;
 }
 
-app.post("/admin/register", adminAuth(), (req: Request, res: Response) => {
-  const body = req.body as RegisterBody;
-
-  if (
-    !body.name ||
-    !body.type ||
-    !body.creatorAddress ||
-    !body.originalUrl ||
-    !body.pricing?.pricePerCall
-  ) {
-    res.status(400).json({
-      error: "Missing required fields: name, type, creatorAddress, originalUrl, pricing.pricePerCall",
+const SETTLEMENT_POLICIES: SettlementPolicy[] = ["settle-first", "settle-after", "refund-on-failure"];
+
+/**
+ * refund-on-failure refunds from the proxy signer, so a resource may only use
+ * it if every payment goes to the proxy signer: an on-chain service with
+ * split targets, paid on the home network only.
+ */
+async function refundPolicyError(serviceId: string, accepts: PaymentOption[] | undefined): Promise<string | null> {
+  const networks = accepts && accepts.length > 0 ? accepts.map((option) => option.network) : config.paymentNetworks;
+  if (networks.some((network) => network !== config.homeNetwork)) {
+    return `refund-on-failure only supports payment on the home network (${config.homeNetwork})`;
+  }
+  if (!paysProxySigner(await resolveServiceInfo(serviceId), config.homeNetwork)) {
+    return "refund-on-failure needs PROXY_SIGNER_KEY and an on-chain service whose agent has a wallet and pool";
+  }
+  return null;
+}
+
+app.post("/admin/register", adminAuth(), async (req: Request, res: Response) => {
+  try {
+    const body = req.body as RegisterBody;
+
+    if (
+      !body.name ||
+      !body.type ||
+      !body.creatorAddress ||
+      !body.originalUrl ||
+      !body.pricing?.pricePerCall
+    ) {
+      res.status(400).json({
+        error: "Missing required fields: name, type, creatorAddress, originalUrl, pricing.pricePerCall",
+      });
+      return;
+    }
+
+    const pricingError = validatePricing(body.pricing);
+    if (pricingError) {
+      res.status(400).json({ error: pricingError });
+      return;
+    }
+
+    if (body.settlementPolicy !== undefined && !SETTLEMENT_POLICIES.includes(body.settlementPolicy)) {
+      res.status(400).json({ error: `settlementPolicy must be one of: ${SETTLEMENT_POLICIES.join(", ")}` });
+      return;
+    }
+
+    if (body.upstreamAuth !== undefined) {
+      const authError = validateUpstreamAuth(body.upstreamAuth);
+      if (authError) {
+        res.status(400).json({ error: authError });
+        return;
+      }
+      if (!body.apiKey) {
+        res.status(400).json({ error: "upstreamAuth needs its secret in apiKey" });
+        return;
+      }
+    }
+
+    if (body.apiKey && !isVaultConfigured()) {
+      res.status(500).json({ error: "SECRETS_MASTER_KEY not configured on server; cannot store apiKey" });
+      return;
+    }
+
+    // Generate an id from the name if not provided
+    const id =
+      body.id ??
+      body.name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/(^-|-$)/g, "");
+
+    if (body.settlementPolicy === "refund-on-failure") {
+      const policyError = await refundPolicyError(id, body.pricing.accepts);
+      if (policyError) {
+        res.status(400).json({ error: policyError });
+        return;
+      }
+    }
+
+    const resource = registerResource({
+      id,
+      name: body.name,
+      type: body.type,
+      creatorAddress: body.creatorAddress,
+      originalUrl: body.originalUrl,
+      pricing: {
+        pricePerCall: body.pricing.pricePerCall,
+        currency: "USDC",
+        accepts: body.pricing.accepts,
+        rules: body.pricing.rules,
+        metered: body.pricing.metered,
+      },
+      settlementPolicy: body.settlementPolicy,
+      healthCheckUrl: body.healthCheckUrl,
+      apiKey: body.apiKey,
+      apiKeyHeader: body.apiKeyHeader,
+      upstreamAuth: body.upstreamAuth,
     });
-    return;
+
+    res.status(201).json(toPublicResource(resource));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    adminLog.error("Registration failed", { error: message });
+    res.status(500).json({ error: "Resource registration failed", details: message });
   }
+});
 
-  // Generate an id from the name if not provided
-  const id =
-    body.id ??
-    body.name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-")
-      .replace(/(^-|-$)/g, "");
-
-  const resource = registerResource({
-    id,
-    name: body.name,
-    type: body.type,
-    creatorAddress: body.creatorAddress,
-    originalUrl: body.originalUrl,
-    pricing: {
-      pricePerCall: body.pricing.pricePerCall,
+// Replace a resource's pricing (default price, per-network accepts, per-route
+// rules, usage metering)
+app.put("/admin/register/:id/pricing", adminAuth(), async (req: Request, res: Response) => {
+  try {
+    const existing = getResource(req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: `Resource '${req.params.id}' not found` });
+      return;
+    }
+
+    const body = req.body as Partial<ResourcePricing>;
+    const pricing: ResourcePricing = {
+      pricePerCall: body.pricePerCall ?? existing.pricing.pricePerCall,
       currency: "USDC",
-    },
-    apiKey: body.apiKey,
-    apiKeyHeader: body.apiKeyHeader,
-  });
+      accepts: body.accepts,
+      rules: body.rules,
+      metered: body.metered,
+    };
+    const pricingError = validatePricing(pricing);
+    if (pricingError) {
+      res.status(400).json({ error: pricingError });
+      return;
+    }
+
+    if (existing.settlementPolicy === "refund-on-failure") {
+      const policyError = await refundPolicyError(getOnChainServiceId(existing) ?? existing.id, pricing.accepts);
+      if (policyError) {
+        res.status(400).json({ error: policyError });
+        return;
+      }
+    }
+
+    res.json(toPublicResource(updateResourcePricing(existing.id, pricing)!));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    adminLog.error("Pricing update failed", { error: message });
+    res.status(500).json({ error: "Pricing update failed", details: message });
+  }
+});
+
+// Rotate a resource's upstream API key. `apiKey: null` (or "") removes it.
+app.put("/admin/register/:id/api-key", adminAuth(), (req: Request, res: Response) => {
+  const body = req.body as { apiKey?: string | null; apiKeyHeader?: string };
+  if (body.apiKey !== null && typeof body.apiKey !== "string") {
+    res.status(400).json({ error: "apiKey must be a string, or null to remove the key" });
+    return;
+  }
+  if (body.apiKeyHeader !== undefined && typeof body.apiKeyHeader !== "string") {
+    res.status(400).json({ error: "apiKeyHeader must be a string" });
+    return;
+  }
+  if (body.apiKey && !isVaultConfigured()) {
+    res.status(500).json({ error: "SECRETS_MASTER_KEY not configured on server; cannot store apiKey" });
+    return;
+  }
 
-  res.status(201).json(resource);
+  const resource = updateResourceApiKey(req.params.id, body.apiKey || undefined, body.apiKeyHeader);
+  if (!resource) {
+    res.status(404).json({ error: `Resource '${req.params.id}' not found` });
+    return;
+  }
+  invalidateUpstreamToken(resource.id);
+  adminLog.info(`API key ${body.apiKey ? "rotated" : "removed"}`, { resourceId: resource.id });
+  res.json(toPublicResource(resource));
 });
 
+// Replace how a resource authenticates to its upstream (query key, Basic,
+// bearer, OAuth2 client credentials, HMAC). `upstreamAuth: null` restores the
+// plain API key header; `apiKey` optionally replaces the stored secret.
+app.put("/admin/register/:id/upstream-auth", adminAuth(), (req: Request, res: Response) => {
+  const body = req.body as { upstreamAuth?: UpstreamAuth | null; apiKey?: string };
+  const existing = getResource(req.params.id);
+  if (!existing) {
+    res.status(404).json({ error: `Resource '${req.params.id}' not found` });
+    return;
+  }
+  if (body.upstreamAuth !== null) {
+    const authError = validateUpstreamAuth(body.upstreamAuth);
+    if (authError) {
+      res.status(400).json({ error: authError });
+      return;
+    }
+  }
+  if (body.apiKey !== undefined && (typeof body.apiKey !== "string" || !body.apiKey)) {
+    res.status(400).json({ error: "apiKey must be a non-empty string" });
+    return;
+  }
+  if (body.upstreamAuth && !body.apiKey && !existing.encryptedApiKey) {
+    res.status(400).json({ error: "upstreamAuth needs its secret in apiKey" });
+    return;
+  }
+  if (body.apiKey && !isVaultConfigured()) {
+    res.status(500).json({ error: "SECRETS_MASTER_KEY not configured on server; cannot store apiKey" });
+    return;
+  }
+
+  const resource = updateResourceUpstreamAuth(existing.id, body.upstreamAuth ?? undefined, body.apiKey)!;
+  invalidateUpstreamToken(resource.id);
+  adminLog.info(`Upstream auth set to ${resource.upstreamAuth?.type ?? "header"}`, { resourceId: resource.id });
+  res.json(toPublicResource(resource));
+});
+
+// Prometheus scrape endpoint
+app.use("/metrics", metricsRouter);
+
+// Usage receipts: lookup and verification for payers and disputes
+app.use("/receipts", receiptsRouter);
+
+// Indexed chain state: services, agents, gateway payments, pool activity
+app.use("/index", chainIndexRouter);
+
+// Per-resource rate limits: public read, owner-signed (or admin) update
+app.use("/services/:resourceId/rate-limits", rateLimitsRouter);
+
+// Attestation of paid calls to upstreams: public read, owner-signed (or admin) update
+app.use("/services/:resourceId/attestation", attestationRouter);
+
+// Payment webhooks: owner-signed (or admin) registration and delivery log
+app.use("/services/:resourceId/webhooks", webhooksRouter);
+
+// Payment ledger (Path A + Path B) for accounting and disputes
+app.use("/transactions", adminAuth(), transactionsRouter);
+
+// ServiceRegistry sync: status, unmapped on-chain services, manual re-walk
+app.use("/admin/registry-sync", adminAuth(), registrySyncRouter);
+
+// Revenue settlement queue: inspect pending/dead jobs and replay them
+app.use("/admin/settlements", adminAuth(), settlementsRouter);
+
+// Deployer nonce manager: counters, pending / replaced txs, manual resync
+app.use("/admin/deployer-txs", adminAuth(), deployerTxsRouter);
+
+// Batched settlement: push accrued revenue into the settlement queue now
+// (all agents, or one via ?agentId=)
+app.post("/admin/accruals/flush", adminAuth(), (req: Request, res: Response) => {
+  const agentId = req.query.agentId as string | undefined;
+  const settlementIds = agentId
+    ? [flushAgent(agentId)].filter((id): id is string => id !== undefined)
+    : flushAll();
+  res.json({ settlementIds });
+});
+
+// Accrued-but-unpaid revenue per agent (batched settlement mode)
+app.use("/accruals", accrualsRouter);
+
 // Agent registration relayer (agent-owned NFTs, 2-phase: fund + setup)
 app.use("/register-agent", registerAgentRouter);
 
@@ -140,6 +410,86 @@ app.use("/allow-target", allowTargetRouter);
 
 const x402Gate = createX402Gate();
 
+/** Response types relayed as they arrive even when the call is metered. */
+const EVENT_STREAM_TYPES = ["text/event-stream", "application/x-ndjson"];
+
+/** Headers a metered event stream sends as trailers, once its charge is known. */
+const STREAM_TRAILERS = ["PAYMENT-RESPONSE", "X-PAYMENT-RESPONSE", RECEIPT_HEADER];
+
+function isEventStream(headers: Record<string, string>): boolean {
+  const type = headers["content-type"]?.split(";")[0].trim().toLowerCase();
+  return type !== undefined && EVENT_STREAM_TYPES.includes(type);
+}
+
+/**
+ * Relay a metered event stream chunk by chunk while keeping a copy to
+ * measure, then settle the charge and send the payment response and usage
+ * receipt as trailers. The client already has the response by then, so a
+ * failed settlement can only be logged. If the client disconnects first the
+ * usage is unknown and the call is charged at the permit cap.
+ */
+async function relayMeteredStream(
+  req: Request,
+  res: Response,
+  resource: Resource,
+  result: ForwardResult & { stream: NodeJS.ReadableStream },
+  deferred: DeferredSettlement,
+  attested: AttestedPayment | undefined,
+  controller: AbortController,
+  startedAt: number
+): Promise<void> {
+  for (const [key, value] of Object.entries(result.headers)) {
+    res.setHeader(key, value);
+  }
+  res.setHeader("Trailer", STREAM_TRAILERS.join(", "));
+  res.status(result.status);
+  res.flushHeaders();
+
+  const chunks: Buffer[] = [];
+  let streamError: string | undefined;
+  try {
+    for await (const chunk of result.stream) {
+      const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      chunks.push(data);
+      if (!res.write(data)) await once(res, "drain", { signal: controller.signal });
+    }
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      streamError = err instanceof Error ? err.message : "Upstream stream failed";
+      proxyLog.error("stream error", { resourceId: resource.id, error: streamError });
+    }
+  }
+
+  const trailers: Record<string, string> = {};
+  const settleError = await deferred.finalize(
+    {
+      status: result.status,
+      body: Buffer.concat(chunks),
+      durationMs: Date.now() - startedAt,
+      error: streamError,
+      truncated: controller.signal.aborted,
+    },
+    (name, value) => {
+      trailers[name] = value;
+    }
+  );
+  if (settleError) {
+    proxyLog.error("Settlement failed after streaming", { resourceId: resource.id, error: settleError });
+  } else if (attested) {
+    const receipt = await issueUsageReceipt(
+      resource,
+      attested,
+      hashReceiptRequest(req.method, req.originalUrl, rawBodyOf(req)),
+      result.status
+    );
+    if (receipt) trailers[RECEIPT_HEADER] = encodeReceiptHeader(receipt);
+  }
+
+  if (res.destroyed || res.writableEnded) return;
+  res.addTrailers(trailers);
+  res.end();
+}
+
 /**
  * Proxy handler shared by both route patterns.
  */
@@ -153,28 +503,107 @@ async function proxyHandler(req: Request, res: Response): Promise<void> {
     return;
   }
 
-  const result = await forwardRequest(resource, req);
+  // Cancel the upstream call if the client goes away mid-response
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const deferred = res.locals.deferredSettlement as DeferredSettlement | undefined;
+  const startedAt = Date.now();
+  const attested = res.locals.attestedPayment as AttestedPayment | undefined;
+  const result = await forwardRequest(resource, req, controller.signal, attested);
+
+  if (deferred?.needsBody && result.stream && isEventStream(result.headers)) {
+    await relayMeteredStream(req, res, resource, { ...result, stream: result.stream }, deferred, attested, controller, startedAt);
+    return;
+  }
+
+  // Payment work that depends on the upstream outcome (metered charges,
+  // settle-after / refund-on-failure policies) runs before anything,
+  // including the payment header, is sent. Metered calls need the whole
+  // body to measure usage, so their response is buffered (event streams
+  // excepted, see relayMeteredStream).
+  let body: Buffer | undefined;
+  if (deferred) {
+    if (deferred.needsBody) {
+      try {
+        body = result.stream ? await buffer(result.stream) : Buffer.from(JSON.stringify(result.body));
+      } catch (err) {
+        deferred.abort();
+        throw err;
+      }
+    }
+
+    const settleError = await deferred.finalize(
+      {
+        status: result.status,
+        body,
+        durationMs: Date.now() - startedAt,
+        error: result.error,
+      },
+      (name, value) => res.setHeader(name, value)
+    );
+    if (settleError) {
+      controller.abort();
+      res.status(402).json({ error: "Payment settlement failed", reason: settleError });
+      return;
+    }
+  }
+
+  // Signed proof of purchase for the payer, reporting the final charge
+  if (attested) {
+    const receipt = await issueUsageReceipt(
+      resource,
+      attested,
+      hashReceiptRequest(req.method, req.originalUrl, rawBodyOf(req)),
+      result.status
+    );
+    if (receipt) res.setHeader(RECEIPT_HEADER, encodeReceiptHeader(receipt));
+  }
+
+  if (body) {
+    for (const [key, value] of Object.entries(result.headers)) {
+      res.setHeader(key, value);
+    }
+    if (!result.stream) res.setHeader("content-type", "application/json");
+    res.status(result.status).send(body);
+    return;
+  }
 
   // Forward upstream headers
   for (const [key, value] of Object.entries(result.headers)) {
     res.setHeader(key, value);
   }
 
-  res.status(result.status).json(result.body);
+  if (!result.stream) {
+    res.status(result.status).json(result.body);
+    return;
+  }
+
+  // Stream the upstream body as-is (binary, SSE, ...). Headers go out first
+  // so event streams reach the client before the first chunk.
+  res.status(result.status);
+  res.flushHeaders();
+  pipeline(result.stream, res, (err) => {
+    if (err && !controller.signal.aborted) {
+      proxyLog.error("stream error", { resourceId, error: err.message });
+    }
+  });
 }
 
 // With trailing path: /proxy/:resourceId/extra/path...
-app.all("/proxy/:resourceId/*", x402Gate, (req: Request, res: Response) => {
+app.all("/proxy/:resourceId/*", proxyRequestMetrics(), x402Gate, (req: Request, res: Response) => {
   proxyHandler(req, res).catch((err) => {
-    console.error("[proxy] handler error:", err);
+    proxyLog.error("handler error", { error: err });
     if (!res.headersSent) res.status(500).json({ error: "Internal proxy error" });
   });
 });
 
 // Without trailing path: /proxy/:resourceId
-app.all("/proxy/:resourceId", x402Gate, (req: Request, res: Response) => {
+app.all("/proxy/:resourceId", proxyRequestMetrics(), x402Gate, (req: Request, res: Response) => {
   proxyHandler(req, res).catch((err) => {
-    console.error("[proxy] handler error:", err);
+    proxyLog.error("handler error", { error: err });
     if (!res.headersSent) res.status(500).json({ error: "Internal proxy error" });
   });
 });
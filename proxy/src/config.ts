@@ -1,8 +1,30 @@
 import dotenv from "dotenv";
+import type { AttestationMode, SettlementMode, FacilitatorMode } from "./types/x402.js";
+import type { LogLevel } from "./services/logger.js";
 dotenv.config();
 
+/**
+ * Per-chain addresses for a payment network, keyed in `Config.networks` by
+ * its x402 v1 network name (e.g. "base-sepolia").
+ */
+export interface NetworkConfig {
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  gatewayAddress: string;
+  serviceRegistryAddress: string;
+  usdcAddress: string;
+  /** EIP-712 domain of the USDC contract, needed to verify EIP-3009 signatures. */
+  usdcName: string;
+  usdcVersion: string;
+  /** Multicall3 contract used to batch view calls; empty sends them one by one. */
+  multicallAddress: string;
+}
+
 export interface Config {
   port: number;
+  /** "remote": call facilitatorUrl; "local": verify + settle in-process with the proxy signer. */
+  facilitatorMode: FacilitatorMode;
   facilitatorUrl: string;
   gatewayAddress: string;
   gatewayRpcUrl: string;
@@ -22,6 +44,128 @@ export interface Config {
   bingerTokenAddress: string;
   rfusdcAddress: string;
   reputationReporterAddress: string;
+  /** Directory for persisted proxy state. Owned by a single instance; do not share it. */
+  dataDir: string;
+  /**
+   * Directory for consumed gateway paymentIds (default `<dataDir>/payment-ids`).
+   * May be shared by several instances so a paymentId's calls are counted
+   * across all of them.
+   */
+  paymentIdsDir: string;
+  /** How often the settlement worker polls for due jobs (ms). */
+  settlementPollIntervalMs: number;
+  /** Delay before the first retry of a failed settlement; doubles per attempt (ms). */
+  settlementRetryBaseMs: number;
+  /** Attempts after which a settlement is dead-lettered. */
+  settlementMaxAttempts: number;
+  /** "immediate": settle every call; "batched": accrue and flush periodically. */
+  settlementMode: SettlementMode;
+  /** Batched mode: flush all accruals at this interval (ms). */
+  accrualFlushIntervalMs: number;
+  /** Batched mode: flush an agent early once its accrued revenue reaches this (atomic USDC). */
+  accrualFlushThreshold: string;
+  /**
+   * Network the single-network fields above (gatewayRpcUrl, gatewayAddress,
+   * usdcAddress, ...) describe. Service ownership, revenue splits and
+   * recordUsage always live here.
+   */
+  homeNetwork: string;
+  /** All networks the proxy can verify and settle on, keyed by v1 name. */
+  networks: Record<string, NetworkConfig>;
+  /** Networks advertised for resources that don't list their own `accepts`. */
+  paymentNetworks: string[];
+  /** Interval between upstream health probes (ms); 0 disables probing. */
+  healthCheckIntervalMs: number;
+  /** Timeout of a single health probe (ms). */
+  healthCheckTimeoutMs: number;
+  /** Consecutive upstream failures that open a resource's circuit. */
+  circuitFailureThreshold: number;
+  /** How long an open circuit refuses traffic before allowing a trial (ms). */
+  circuitOpenMs: number;
+  /**
+   * Express `trust proxy` setting, so req.ip is the client behind a load
+   * balancer. Must be set there: otherwise every client shares the balancer's
+   * IP and the per-IP limits throttle them all together.
+   */
+  trustProxy: string | number | boolean;
+  /** Window for the default rate limits below (ms). */
+  rateLimitWindowMs: number;
+  /** Requests per IP per window across the whole proxy; 0 = unlimited. Needs `trustProxy` behind a load balancer. */
+  rateLimitIp: number;
+  /** Free requests (MCP initialize / tools/list, free routes) per IP per resource. */
+  rateLimitFreeIp: number;
+  /** Default paid calls per payer per resource; resources may override. */
+  rateLimitPayer: number;
+  /** Default paid calls per resource across all callers; 0 = unlimited. */
+  rateLimitResource: number;
+  /**
+   * Master key for upstream API keys stored at rest: 64 hex chars (32 bytes),
+   * or any passphrase (hashed with SHA-256). Required to register API keys.
+   */
+  secretsMasterKey: string;
+  /** Attestation for resources that don't choose one ("eip191" needs PROXY_SIGNER_KEY). */
+  attestationMode: AttestationMode;
+  /** How often ServiceRegistry events are polled (ms); 0 disables registry sync. */
+  registrySyncIntervalMs: number;
+  /** How often the whole ServiceRegistry is walked (ms). */
+  registryFullSyncIntervalMs: number;
+  reputationRegistryAddress: string;
+  /** How often the chain indexer polls for new blocks (ms); 0 disables it. */
+  indexerIntervalMs: number;
+  /** First block to index on a fresh index; 0 starts at the current head (after a state snapshot). */
+  indexerStartBlock: number;
+  /** Blocks per getLogs request. */
+  indexerBlockRange: number;
+  /** Blocks to stay behind the head, so shallow reorgs are not indexed. */
+  indexerConfirmations: number;
+  /** How often the webhook worker polls for due deliveries (ms). */
+  webhookPollIntervalMs: number;
+  /** Delay before the first retry of a failed delivery; doubles per attempt (ms). */
+  webhookRetryBaseMs: number;
+  /** Attempts after which a delivery is marked failed. */
+  webhookMaxAttempts: number;
+  /** Timeout of one webhook POST (ms). */
+  webhookTimeoutMs: number;
+  /** Return an EIP-712 usage receipt with each paid call (needs proxySignerKey). */
+  usageReceipts: boolean;
+  /** Bearer token required by GET /metrics; empty leaves it open. */
+  metricsToken: string;
+  /** Lowest level written to the log. */
+  logLevel: LogLevel;
+  /** "json": one JSON object per line; "text": `[module] message` lines for local development. */
+  logFormat: "json" | "text";
+  /** How long on-chain service owner, agent wallet and pool lookups are cached (ms); 0 disables caching. */
+  chainCacheTtlMs: number;
+  /** How often deployer transactions are checked for gaps and stuck nonces (ms); 0 disables the monitor. */
+  nonceMonitorIntervalMs: number;
+  /** A deployer tx blocking the nonce queue this long is rebroadcast or replaced with more gas (ms). */
+  nonceStuckAfterMs: number;
+  /** Gas-bumped replacements sent for one stuck tx before giving up. */
+  nonceMaxGasBumps: number;
+}
+
+function parseList(raw: string | undefined, fallback: string[]): string[] {
+  if (!raw) return fallback;
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function parseAttestationMode(raw: string | undefined, hasSigner: boolean): AttestationMode {
+  if (raw === "eip191" || raw === "hmac" || raw === "off") return raw;
+  return hasSigner ? "eip191" : "off";
+}
+
+function parseLogLevel(raw: string | undefined): LogLevel {
+  return raw === "debug" || raw === "warn" || raw === "error" ? raw : "info";
+}
+
+/** "true", a hop count, or addresses / subnets / Express presets ("loopback"). */
+function parseTrustProxy(raw: string | undefined): string | number | boolean {
+  if (!raw || raw === "false") return false;
+  if (raw === "true") return true;
+  return /^\d+$/.test(raw) ? Number(raw) : raw;
 }
 
 function parseOrigins(raw: string | undefined): string[] {
@@ -34,6 +178,7 @@ function parseOrigins(raw: string | undefined): string[] {
 
 export const config: Config = {
   port: Number(process.env.PORT) || 4402,
+  facilitatorMode: process.env.FACILITATOR_MODE === "local" ? "local" : "remote",
   facilitatorUrl:
     process.env.FACILITATOR_URL || "https://x402.org/facilitator",
   gatewayAddress:
@@ -71,4 +216,97 @@ export const config: Config = {
     process.env.RFUSDC_ADDRESS || "0x8ac2EeF8EA8f63bc6109c22f7c505962B96cEab0",
   reputationReporterAddress:
     process.env.REPUTATION_REPORTER_ADDRESS || "0x3FB6ed48640ec7B90E6Ff642c533098c5c80d0c4",
+  dataDir: process.env.DATA_DIR || "",
+  paymentIdsDir: process.env.PAYMENT_IDS_DIR || "",
+  settlementPollIntervalMs: Number(process.env.SETTLEMENT_POLL_INTERVAL_MS) || 5_000,
+  settlementRetryBaseMs: Number(process.env.SETTLEMENT_RETRY_BASE_MS) || 15_000,
+  settlementMaxAttempts: Number(process.env.SETTLEMENT_MAX_ATTEMPTS) || 8,
+  settlementMode: process.env.SETTLEMENT_MODE === "batched" ? "batched" : "immediate",
+  accrualFlushIntervalMs: Number(process.env.ACCRUAL_FLUSH_INTERVAL_MS) || 60 * 60 * 1000,
+  accrualFlushThreshold: process.env.ACCRUAL_FLUSH_THRESHOLD || "1000000",
+  healthCheckIntervalMs: process.env.HEALTH_CHECK_INTERVAL_MS === "0"
+    ? 0
+    : Number(process.env.HEALTH_CHECK_INTERVAL_MS) || 30_000,
+  healthCheckTimeoutMs: Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 5_000,
+  circuitFailureThreshold: Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 3,
+  circuitOpenMs: Number(process.env.CIRCUIT_OPEN_MS) || 30_000,
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+  rateLimitWindowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 60_000,
+  rateLimitIp: Number(process.env.RATE_LIMIT_IP ?? 300),
+  rateLimitFreeIp: Number(process.env.RATE_LIMIT_FREE_IP ?? 30),
+  rateLimitPayer: Number(process.env.RATE_LIMIT_PAYER ?? 120),
+  rateLimitResource: Number(process.env.RATE_LIMIT_RESOURCE ?? 0),
+  secretsMasterKey: process.env.SECRETS_MASTER_KEY || "",
+  registrySyncIntervalMs: Number(process.env.REGISTRY_SYNC_INTERVAL_MS ?? 15_000),
+  registryFullSyncIntervalMs: Number(process.env.REGISTRY_FULL_SYNC_INTERVAL_MS) || 600_000,
+  reputationRegistryAddress:
+    process.env.REPUTATION_REGISTRY_ADDRESS || "0x8004B663056A597Dffe9eCcC1965A193B7388713",
+  indexerIntervalMs: Number(process.env.INDEXER_INTERVAL_MS ?? 15_000),
+  indexerStartBlock: Number(process.env.INDEXER_START_BLOCK) || 0,
+  indexerBlockRange: Number(process.env.INDEXER_BLOCK_RANGE) || 2_000,
+  indexerConfirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 2),
+  webhookPollIntervalMs: Number(process.env.WEBHOOK_POLL_INTERVAL_MS) || 5_000,
+  webhookRetryBaseMs: Number(process.env.WEBHOOK_RETRY_BASE_MS) || 10_000,
+  webhookMaxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 8,
+  webhookTimeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS) || 10_000,
+  usageReceipts: process.env.USAGE_RECEIPTS !== "false",
+  metricsToken: process.env.METRICS_TOKEN || "",
+  logLevel: parseLogLevel(process.env.LOG_LEVEL),
+  logFormat: process.env.LOG_FORMAT === "text" ? "text" : "json",
+  chainCacheTtlMs: Number(process.env.CHAIN_CACHE_TTL_MS ?? 60_000),
+  nonceMonitorIntervalMs: Number(process.env.NONCE_MONITOR_INTERVAL_MS ?? 15_000),
+  nonceStuckAfterMs: Number(process.env.NONCE_STUCK_AFTER_MS) || 90_000,
+  nonceMaxGasBumps: Number(process.env.NONCE_MAX_GAS_BUMPS ?? 5),
+  attestationMode: parseAttestationMode(process.env.ATTESTATION_MODE, !!process.env.PROXY_SIGNER_KEY),
+  homeNetwork: "base-sepolia",
+  networks: {},
+  paymentNetworks: [],
 };
+
+// ---------------------------------------------------------------------------
+// Payment networks
+// ---------------------------------------------------------------------------
+
+/** Multicall3 is deployed at the same address on most EVM chains. */
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+config.networks = {
+  "base-sepolia": {
+    name: "base-sepolia",
+    chainId: 84532,
+    rpcUrl: config.gatewayRpcUrl,
+    gatewayAddress: config.gatewayAddress,
+    serviceRegistryAddress: config.serviceRegistryAddress,
+    usdcAddress: config.usdcAddress,
+    usdcName: "USDC",
+    usdcVersion: "2",
+    multicallAddress: process.env.MULTICALL_ADDRESS ?? MULTICALL3_ADDRESS,
+  },
+  "arc-testnet": {
+    name: "arc-testnet",
+    chainId: 5042002,
+    rpcUrl: process.env.ARC_RPC_URL || "https://rpc.testnet.arc.network",
+    gatewayAddress:
+      process.env.ARC_GATEWAY_ADDRESS || "0x934a46bdC61A8e78DdABab7F927a21084E33bDBc",
+    serviceRegistryAddress:
+      process.env.ARC_SERVICE_REGISTRY_ADDRESS || "0x2fC5462371D759E70C7C954327db98D427322F47",
+    usdcAddress:
+      process.env.ARC_USDC_ADDRESS || "0x3600000000000000000000000000000000000000",
+    usdcName: process.env.ARC_USDC_NAME || "USDC",
+    usdcVersion: process.env.ARC_USDC_VERSION || "2",
+    multicallAddress: process.env.ARC_MULTICALL_ADDRESS ?? MULTICALL3_ADDRESS,
+  },
+};
+
+/**
+ * Problems found while reading the environment. The logger depends on this
+ * module, so they are collected here and logged by the server at startup.
+ */
+export const configWarnings: string[] = [];
+
+config.paymentNetworks = parseList(process.env.PAYMENT_NETWORKS, [config.homeNetwork])
+  .filter((name) => {
+    if (config.networks[name]) return true;
+    configWarnings.push(`Ignoring unknown payment network '${name}'`);
+    return false;
+  });
@@ -0,0 +1,82 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { getResource } from "../services/resourceStore.js";
+import { rawBodyOf } from "../services/proxyForward.js";
+
+/** Signed owner requests older (or newer) than this are rejected. */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * The EIP-191 message a resource owner signs to authorize one request.
+ * Binds the method, path, timestamp and body so a signature cannot be
+ * replayed against another endpoint or with a different payload.
+ */
+export function ownerRequestMessage(
+  method: string,
+  path: string,
+  timestamp: string,
+  body: Buffer | undefined
+): string {
+  return [
+    "PragmaMoney owner request",
+    `${method.toUpperCase()} ${path}`,
+    `timestamp: ${timestamp}`,
+    `body: ${ethers.keccak256(body ?? new Uint8Array())}`,
+  ].join("\n");
+}
+
+/**
+ * Middleware that lets a resource's owner (its `creatorAddress`) manage it.
+ * The resource comes from `req.params.resourceId`. Accepts either:
+ *   - the admin `Authorization: Bearer <token>`, or
+ *   - `X-Owner-Timestamp` (ms since epoch) and `X-Owner-Signature`, an
+ *     EIP-191 signature of `ownerRequestMessage(...)` by the owner.
+ */
+export function ownerAuth(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const resource = getResource(req.params.resourceId);
+    if (!resource) {
+      res.status(404).json({ error: `Resource '${req.params.resourceId}' not found` });
+      return;
+    }
+
+    const authHeader = req.headers.authorization;
+    if (config.adminToken && authHeader === `Bearer ${config.adminToken}`) {
+      next();
+      return;
+    }
+
+    const signature = req.headers["x-owner-signature"] as string | undefined;
+    const timestamp = req.headers["x-owner-timestamp"] as string | undefined;
+    if (!signature || !timestamp) {
+      res.status(401).json({
+        error: "Owner authentication required",
+        message: "Send the admin Bearer token, or X-Owner-Timestamp and X-Owner-Signature signed by the resource owner",
+      });
+      return;
+    }
+
+    const ts = Number(timestamp);
+    if (!Number.isFinite(ts) || Math.abs(Date.now() - ts) > MAX_CLOCK_SKEW_MS) {
+      res.status(401).json({ error: "X-Owner-Timestamp is missing or outside the allowed clock skew" });
+      return;
+    }
+
+    let signer: string;
+    try {
+      const message = ownerRequestMessage(req.method, req.originalUrl, timestamp, rawBodyOf(req));
+      signer = ethers.verifyMessage(message, signature);
+    } catch {
+      res.status(401).json({ error: "Malformed X-Owner-Signature" });
+      return;
+    }
+
+    if (signer.toLowerCase() !== resource.creatorAddress.toLowerCase()) {
+      res.status(403).json({ error: "Signer is not the owner of this resource" });
+      return;
+    }
+
+    next();
+  };
+}
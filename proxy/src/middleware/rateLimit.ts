@@ -0,0 +1,23 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { config } from "../config.js";
+import { consumeRateLimit, sendRateLimited } from "../services/rateLimiter.js";
+
+/**
+ * Middleware that limits every client IP to `config.rateLimitIp` requests
+ * per `config.rateLimitWindowMs` across the whole proxy (including the
+ * registration relayers and 402 responses). Per-payer and per-resource
+ * limits are enforced by the x402 gate.
+ */
+export function ipRateLimit(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = consumeRateLimit(`ip:${req.ip}`, {
+      requests: config.rateLimitIp,
+      windowMs: config.rateLimitWindowMs,
+    });
+    if (!result.allowed) {
+      sendRateLimited(res, result.retryAfterSeconds, "ip");
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,37 @@
+import { randomUUID } from "node:crypto";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { REQUEST_ID_HEADER, createLogger, runWithRequestId } from "../services/logger.js";
+
+const log = createLogger("http");
+
+/** Client-supplied ids are reused only if they are short and log-safe. */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Middleware that gives every request a correlation id: the client's
+ * `X-Request-Id` if it sent a usable one, otherwise a fresh UUID. The id is
+ * echoed in the response header, kept on `res.locals.requestId`, attached to
+ * every log line written while handling the request, and forwarded to
+ * upstreams and the facilitator. Each request is logged once it finishes.
+ */
+export function requestContext(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const incoming = req.header(REQUEST_ID_HEADER);
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    res.locals.requestId = requestId;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const startedAt = Date.now();
+    runWithRequestId(requestId, () => {
+      res.on("finish", () => {
+        log.info("request completed", {
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs: Date.now() - startedAt,
+        });
+      });
+      next();
+    });
+  };
+}
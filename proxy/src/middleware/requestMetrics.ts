@@ -0,0 +1,27 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { getResource } from "../services/resourceStore.js";
+import { proxyRequestDuration, proxyRequests } from "../services/metrics.js";
+import type { AttestedPayment } from "../types/x402.js";
+
+/**
+ * Middleware that counts and times /proxy requests once their response has
+ * finished. The payment path is taken from the gate's
+ * `res.locals.attestedPayment` ("x402" / "gateway"), or "none" for 402s,
+ * free routes and rejected payments.
+ */
+export function proxyRequestMetrics(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const startedAt = process.hrtime.bigint();
+    res.on("finish", () => {
+      // Unknown ids are folded into one series so probes cannot add labels
+      const resourceId = (req.params as Record<string, string>).resourceId;
+      const resource = getResource(resourceId) ? resourceId : "unknown";
+      const path = (res.locals.attestedPayment as AttestedPayment | undefined)?.method ?? "none";
+      const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+      proxyRequests.inc({ resource, path, status: String(res.statusCode) });
+      proxyRequestDuration.observe({ resource, path }, seconds);
+    });
+    next();
+  };
+}
@@ -2,141 +2,74 @@ import type { Request, Response, NextFunction, RequestHandler } from "express";
 import { ethers } from "ethers";
 
 import { config } from "../config.js";
-import { initDeployerNonce, allocateNonce } from "../services/nonceManager.js";
 import { getResource } from "../services/resourceStore.js";
 import {
   verifyPayment as facilitatorVerify,
   settlePayment as facilitatorSettle,
-  decodePaymentHeader,
 } from "../services/facilitator.js";
 import {
-  createTransaction,
-  recordTransaction,
-  isPaymentIdUsed,
-  markPaymentIdUsed,
-} from "../models/Transaction.js";
+  extractPayment,
+  toPaymentPayloadV1,
+  payerOf,
+  paymentRefOf,
+  resolveNetwork,
+  encodeSettlementHeader,
+  buildPaymentRequiredV2,
+  encodePaymentRequiredHeader,
+} from "../services/x402Protocol.js";
+import { createTransaction } from "../models/Transaction.js";
+import { recordTransaction } from "../services/transactionStore.js";
+import { enqueueSettlement } from "../services/settlementQueue.js";
+import { emitWebhookEvent } from "../services/webhooks.js";
+import { accrueRevenue } from "../services/revenueAccrual.js";
+import { resolveServiceInfo, type ServiceInfo, type SplitTargets } from "../services/serviceInfo.js";
+import { getNetworkProvider } from "../services/chainClient.js";
+import { getOnChainServiceId } from "../models/Resource.js";
+import { matchPricingRule, priceFor, resourcePath } from "../services/pricing.js";
+import { verifyUpto, settleUpto, releaseUpto, meterCharge } from "../services/uptoScheme.js";
+import { checkUpstreamAvailable } from "../services/upstreamHealth.js";
+import { consumeRateLimit, sendRateLimited } from "../services/rateLimiter.js";
+import {
+  claimPaymentCall,
+  releasePaymentCall,
+  getRemainingCalls,
+} from "../services/paymentIdStore.js";
 import type {
+  AttestedPayment,
+  DecodedPayment,
+  GatewayPayment,
+  PaymentOption,
   PaymentRequirementsAccept,
+  PricingRule,
+  RateLimit,
+  Resource,
+  ResourceRateLimits,
+  Transaction,
+  WebhookEventType,
   X402ErrorResponse,
 } from "../types/x402.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("x402Gate");
 
 // ---------------------------------------------------------------------------
-// Gateway ABI (minimal -- only the verifyPayment view function)
+// Gateway ABI (minimal -- only the getPayment view function)
 // ---------------------------------------------------------------------------
 
 const GATEWAY_ABI = [
-  "function verifyPayment(bytes32 paymentId) view returns (bool valid, address payer, uint256 amount)",
   "function getPayment(bytes32 paymentId) view returns (tuple(address payer, bytes32 serviceId, uint256 calls, uint256 amount, bool valid))",
 ];
 
-const SERVICE_REGISTRY_ABI = [
-  "function recordUsage(bytes32 serviceId, uint256 calls, uint256 revenue) external",
-];
-
-const SERVICE_REGISTRY_GETSERVICE_ABI = [
-  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
-];
-
-const AGENT_FACTORY_ABI = [
-  "function poolByAgentId(uint256 agentId) view returns (address)",
-];
-
-const IDENTITY_REGISTRY_ABI = [
-  "function getAgentWallet(uint256 agentId) view returns (address)",
-];
-
-const ERC20_TRANSFER_ABI = [
-  "function transfer(address to, uint256 amount) returns (bool)",
-];
-
 const POOL_BPS = 4000n;  // 40% to pool
 const BPS = 10_000n;
 const BYTES32_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+/** Largest call count a single gateway payment may cover. */
+const MAX_GATEWAY_CALLS = 1_000_000n;
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-interface SplitTargets {
-  agentWallet: string;
-  pool: string;
-}
-
-interface ServiceInfo {
-  owner: string;
-  splitTargets: SplitTargets | null;
-}
-
-/**
- * Resolve on-chain service info: owner + split targets (agentWallet, pool).
- * Only works for on-chain services (bytes32 hex: 0x + 64 hex chars).
- * Returns null on failure so callers can fall back to resource.creatorAddress.
- * splitTargets is null if the agent has no wallet or pool (graceful fallback).
- */
-async function resolveServiceInfo(serviceId: string): Promise<ServiceInfo | null> {
-  if (!BYTES32_HEX_PATTERN.test(serviceId)) {
-    return null;
-  }
-
-  try {
-    const provider = new ethers.JsonRpcProvider(config.gatewayRpcUrl);
-    const registry = new ethers.Contract(
-      config.serviceRegistryAddress,
-      SERVICE_REGISTRY_GETSERVICE_ABI,
-      provider
-    );
-
-    const service = await registry.getService(serviceId);
-    const owner = service.owner as string;
-    const agentId = service.agentId as bigint;
-
-    if (!owner || owner === ethers.ZeroAddress) {
-      return null;
-    }
-
-    console.log(`[x402Gate] Resolved on-chain owner for ${serviceId}: ${owner}, agentId=${agentId}`);
-
-    // Try to resolve split targets (agentWallet + pool)
-    let splitTargets: SplitTargets | null = null;
-    try {
-      const identityRegistry = new ethers.Contract(
-        config.identityRegistryAddress,
-        IDENTITY_REGISTRY_ABI,
-        provider
-      );
-      const agentFactory = new ethers.Contract(
-        config.agentPoolFactoryAddress,
-        AGENT_FACTORY_ABI,
-        provider
-      );
-
-      const [agentWallet, pool] = await Promise.all([
-        identityRegistry.getAgentWallet(agentId) as Promise<string>,
-        agentFactory.poolByAgentId(agentId) as Promise<string>,
-      ]);
-
-      if (
-        agentWallet && agentWallet !== ethers.ZeroAddress &&
-        pool && pool !== ethers.ZeroAddress
-      ) {
-        splitTargets = { agentWallet, pool };
-        console.log(`[x402Gate] Split targets for agentId=${agentId}: wallet=${agentWallet}, pool=${pool}`);
-      } else {
-        console.log(`[x402Gate] No split targets for agentId=${agentId} (wallet=${agentWallet}, pool=${pool})`);
-      }
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      console.warn(`[x402Gate] Failed to resolve split targets for agentId=${agentId}: ${message}`);
-    }
-
-    return { owner, splitTargets };
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : String(err);
-    console.warn(`[x402Gate] Failed to resolve service info for ${serviceId}: ${message}`);
-    return null;
-  }
-}
-
 /**
  * Determine whether the current request should be served for free
  * (no payment required).
@@ -165,6 +98,56 @@ function isFreeRequest(req: Request): boolean {
   return false;
 }
 
+/**
+ * Effective limit for one of a resource's rate-limit scopes: the owner's
+ * setting, else the proxy default (per-IP has no per-resource default; the
+ * global IP limit in app.ts still applies).
+ */
+function resourceRateLimit(resource: Resource, scope: keyof ResourceRateLimits): RateLimit {
+  const own = resource.rateLimits?.[scope];
+  if (own) return own;
+  const defaults: Record<keyof ResourceRateLimits, number> = {
+    perPayer: config.rateLimitPayer,
+    perIp: 0,
+    total: config.rateLimitResource,
+  };
+  return { requests: defaults[scope], windowMs: config.rateLimitWindowMs };
+}
+
+/**
+ * Count a paid call against the resource's total, per-IP and per-payer
+ * limits. Sends 429 and returns false if any of them is exhausted.
+ */
+function checkPaidRateLimits(req: Request, res: Response, resource: Resource, payer: string): boolean {
+  const checks: [string, string, RateLimit][] = [
+    ["resource", `total:${resource.id}`, resourceRateLimit(resource, "total")],
+    ["resource-ip", `ip:${resource.id}:${req.ip}`, resourceRateLimit(resource, "perIp")],
+    ["payer", `payer:${resource.id}:${payer.toLowerCase()}`, resourceRateLimit(resource, "perPayer")],
+  ];
+  for (const [scope, key, limit] of checks) {
+    const result = consumeRateLimit(key, limit);
+    if (!result.allowed) {
+      log.warn("Rate limit hit", { scope, resourceId: resource.id, payer, ip: req.ip });
+      sendRateLimited(res, result.retryAfterSeconds, scope);
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Count a free call against the per-IP free limit. Sends 429 and returns false if exhausted. */
+function checkFreeRateLimit(req: Request, res: Response, resourceId: string | undefined): boolean {
+  const result = consumeRateLimit(`free:${resourceId ?? ""}:${req.ip}`, {
+    requests: config.rateLimitFreeIp,
+    windowMs: config.rateLimitWindowMs,
+  });
+  if (!result.allowed) {
+    sendRateLimited(res, result.retryAfterSeconds, "free");
+    return false;
+  }
+  return true;
+}
+
 /**
  * Cached proxy signer address to avoid repeated wallet instantiation.
  * Computed once on first access.
@@ -183,131 +166,269 @@ function computeProxySignerAddress(): string {
 }
 
 /**
- * Create a signer for the deployer/proxy key, initializing the nonce manager
- * if needed. All deployer transactions must go through this to avoid nonce
- * collisions with other endpoints (registerAgent, fund-agent, etc.).
+ * Whether x402 payments on `network` are routed to the proxy signer (which
+ * then splits them): on-chain services with split targets, on the home
+ * network only.
  */
-async function getDeployerSigner(): Promise<ethers.Wallet> {
-  const provider = new ethers.JsonRpcProvider(config.gatewayRpcUrl);
-  const signer = new ethers.Wallet(config.proxySignerKey, provider);
-  await initDeployerNonce(provider, signer.address);
-  return signer;
+export function paysProxySigner(serviceInfo: ServiceInfo | null, network: string): boolean {
+  return !!serviceInfo?.splitTargets && !!config.proxySignerKey && network === config.homeNetwork;
+}
+
+/** Whether a requirement's payment lands with the proxy signer. */
+function payToIsProxySigner(accept: PaymentRequirementsAccept): boolean {
+  return !!config.proxySignerKey && accept.payTo.toLowerCase() === computeProxySignerAddress().toLowerCase();
 }
 
 /**
- * Fire-and-forget: split USDC 40/60 (pool/agentWallet) and record usage.
+ * Split a payment 40/60 between the agent pool and the agent wallet.
+ */
+function splitRevenue(totalAmount: string): { poolAmount: bigint; walletAmount: bigint } {
+  const total = BigInt(totalAmount);
+  const poolAmount = (total * POOL_BPS) / BPS;
+  return { poolAmount, walletAmount: total - poolAmount };
+}
+
+/**
+ * Batched settlement mode: accrue the split + usage for a later flush
+ * instead of sending three transactions for this call.
+ */
+function accrueSplitAndUsage(
+  serviceId: string,
+  totalAmount: string,
+  info: ServiceInfo
+): void {
+  if (!config.proxySignerKey) {
+    log.warn("No PROXY_SIGNER_KEY configured, skipping accrual");
+    return;
+  }
+
+  const targets = info.splitTargets;
+  const { poolAmount, walletAmount } = targets
+    ? splitRevenue(totalAmount)
+    : { poolAmount: 0n, walletAmount: 0n };
+
+  accrueRevenue({
+    agentId: info.agentId,
+    serviceId,
+    revenue: totalAmount,
+    calls: 1,
+    agentWallet: targets?.agentWallet,
+    pool: targets?.pool,
+    poolAmount: poolAmount.toString(),
+    walletAmount: walletAmount.toString(),
+  });
+}
+
+/**
+ * Queue the 40/60 (pool/agentWallet) USDC split plus recordUsage.
  * Called after x402 settlement when the service has split targets.
- * USDC arrives at proxy signer via x402, then gets distributed.
+ * USDC arrives at proxy signer via x402, then the settlement worker
+ * distributes it (with retries) without blocking the HTTP response.
  */
-function fireSplitAndRecordUsage(
+function queueSplitAndRecordUsage(
+  settlementKey: string,
+  transactionId: string,
+  resourceId: string,
   serviceId: string,
   totalAmount: string,
   targets: SplitTargets
 ): void {
   if (!config.proxySignerKey) {
-    console.warn("[x402Gate] No PROXY_SIGNER_KEY configured, skipping split");
+    log.warn("No PROXY_SIGNER_KEY configured, skipping split");
     return;
   }
 
-  const total = BigInt(totalAmount);
-  const poolAmount = (total * POOL_BPS) / BPS;
-  const walletAmount = total - poolAmount;
-
-  (async () => {
-    try {
-      const signer = await getDeployerSigner();
-
-      const usdc = new ethers.Contract(config.usdcAddress, ERC20_TRANSFER_ABI, signer);
-      const registry = new ethers.Contract(config.serviceRegistryAddress, SERVICE_REGISTRY_ABI, signer);
-
-      // 1. Transfer 40% to pool
-      const nonce1 = allocateNonce();
-      const tx1 = await usdc.transfer(targets.pool, poolAmount, { nonce: nonce1 });
-      console.log(`[x402Gate] Split 40% to pool ${targets.pool}: tx=${tx1.hash}`);
-      await tx1.wait();
-
-      // 2. Transfer 60% to agent wallet
-      const nonce2 = allocateNonce();
-      const tx2 = await usdc.transfer(targets.agentWallet, walletAmount, { nonce: nonce2 });
-      console.log(`[x402Gate] Split 60% to wallet ${targets.agentWallet}: tx=${tx2.hash}`);
-      await tx2.wait();
-
-      // 3. Record usage on-chain
-      const nonce3 = allocateNonce();
-      const tx3 = await registry.recordUsage(serviceId, 1, totalAmount, { nonce: nonce3 });
-      console.log(`[x402Gate] recordUsage tx sent: ${tx3.hash}`);
-      await tx3.wait();
-
-      console.log(`[x402Gate] Split complete: pool=${poolAmount}, wallet=${walletAmount}, serviceId=${serviceId}`);
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      console.error(`[x402Gate] fireSplitAndRecordUsage failed: ${message} (USDC stays at proxy signer)`);
-    }
-  })();
+  const { poolAmount, walletAmount } = splitRevenue(totalAmount);
+
+  const job = enqueueSettlement({
+    key: settlementKey,
+    resourceId,
+    transactionId,
+    steps: [
+      { kind: "transfer", label: "pool", to: targets.pool, amount: poolAmount.toString() },
+      { kind: "transfer", label: "agentWallet", to: targets.agentWallet, amount: walletAmount.toString() },
+      { kind: "recordUsage", serviceId, calls: 1, revenue: totalAmount },
+    ],
+  });
+  log.info(`Queued split settlement ${job.id}: pool=${poolAmount}, wallet=${walletAmount}, serviceId=${serviceId}`);
 }
 
 /**
- * Fire-and-forget: call ServiceRegistry.recordUsage() on-chain.
+ * Queue a ServiceRegistry.recordUsage() call.
  * Records x402 Path A usage stats without blocking the HTTP response.
- * Uses nonce manager to avoid conflicts with other deployer transactions.
  */
-function fireRecordUsage(serviceId: string, calls: number, amount: string): void {
+function queueRecordUsage(
+  settlementKey: string,
+  transactionId: string,
+  resourceId: string,
+  serviceId: string,
+  calls: number,
+  amount: string
+): void {
   if (!config.proxySignerKey) {
-    console.warn("[x402Gate] No PROXY_SIGNER_KEY configured, skipping on-chain recordUsage");
+    log.warn("No PROXY_SIGNER_KEY configured, skipping on-chain recordUsage");
     return;
   }
 
-  // Only call for on-chain services (bytes32 hex: 0x + 64 hex chars)
-  if (!BYTES32_HEX_PATTERN.test(serviceId)) {
-    return;
-  }
+  const job = enqueueSettlement({
+    key: settlementKey,
+    resourceId,
+    transactionId,
+    steps: [{ kind: "recordUsage", serviceId, calls, revenue: amount }],
+  });
+  log.info(`Queued recordUsage settlement ${job.id} for serviceId=${serviceId}`);
+}
 
-  (async () => {
-    try {
-      const signer = await getDeployerSigner();
-      const registry = new ethers.Contract(
-        config.serviceRegistryAddress,
-        SERVICE_REGISTRY_ABI,
-        signer
-      );
-
-      const nonce = allocateNonce();
-      const tx = await registry.recordUsage(serviceId, calls, amount, { nonce });
-      console.log(`[x402Gate] recordUsage tx sent: ${tx.hash}`);
-      await tx.wait();
-      console.log(`[x402Gate] recordUsage confirmed for serviceId=${serviceId}`);
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      console.error(`[x402Gate] recordUsage failed: ${message}`);
-    }
-  })();
+/**
+ * The payment options a resource advertises: its own `pricing.accepts`, or
+ * USDC at `pricePerCall` on each of `config.paymentNetworks`.
+ */
+function paymentOptions(resource: Resource): PaymentOption[] {
+  if (resource.pricing.accepts && resource.pricing.accepts.length > 0) {
+    return resource.pricing.accepts;
+  }
+  return config.paymentNetworks.map((network) => ({ network }));
 }
 
 /**
- * Build the standard x402 PaymentRequirementsAccept block for a resource.
+ * Build the standard x402 PaymentRequirementsAccept blocks for a resource,
+ * one per payment option, priced by the matched pricing rule if any.
+ * `payToFor` picks the recipient on each network.
  */
-function buildAccept(
-  resource: { name: string; creatorAddress: string; pricing: { pricePerCall: string } },
+function buildAccepts(
+  resource: Resource,
   requestUrl: string,
-  payToOverride?: string
-): PaymentRequirementsAccept {
+  rule: PricingRule | undefined,
+  payToFor: (network: string) => string | undefined
+): PaymentRequirementsAccept[] {
   // x402-axios requires `resource` to be a full URL
   const fullUrl = requestUrl.startsWith("http")
     ? requestUrl
     : `http://localhost:${config.port}${requestUrl}`;
 
-  return {
-    scheme: "exact",
-    network: "base-sepolia",
-    maxAmountRequired: resource.pricing.pricePerCall,
-    resource: fullUrl,
-    description: resource.name,
-    mimeType: "application/json",
-    payTo: payToOverride ?? resource.creatorAddress,
-    maxTimeoutSeconds: 60,
-    asset: config.usdcAddress,
-    extra: { name: "USDC", version: "2" },
-  };
+  const metered = resource.pricing.metered;
+  const accepts: PaymentRequirementsAccept[] = [];
+  for (const option of paymentOptions(resource)) {
+    const network = config.networks[option.network];
+    if (!network) {
+      log.warn(`Resource '${resource.id}' lists unknown network '${option.network}', skipping`);
+      continue;
+    }
+    const extra = option.extra ?? { name: network.usdcName, version: network.usdcVersion };
+    accepts.push({
+      // Metered resources ask for an `upto` permit capped at maxPerCall.
+      // Without a proxy signer to pull the charge they fall back to `exact`
+      // at the cap.
+      scheme: metered && config.proxySignerKey ? "upto" : "exact",
+      network: network.name,
+      maxAmountRequired: metered ? metered.maxPerCall : priceFor(resource, option, rule),
+      resource: fullUrl,
+      description: resource.name,
+      mimeType: "application/json",
+      payTo: payToFor(network.name) ?? resource.creatorAddress,
+      maxTimeoutSeconds: 60,
+      asset: option.asset ?? network.usdcAddress,
+      extra: metered && config.proxySignerKey
+        ? { ...extra, spender: computeProxySignerAddress() }
+        : extra,
+    });
+  }
+  return accepts;
+}
+
+/**
+ * Pick the requirement the payer chose: same network and, for v2 payloads
+ * (which echo the accepted requirement), the same asset. v1 payloads don't
+ * name the asset, so they get the first option on their network.
+ */
+function selectAccept(
+  accepts: PaymentRequirementsAccept[],
+  payment: DecodedPayment
+): PaymentRequirementsAccept | undefined {
+  const network = toPaymentPayloadV1(payment).network;
+  const asset = payment.version === 2 ? payment.payload.accepted?.asset?.toLowerCase() : undefined;
+  return accepts.find(
+    (accept) => accept.network === network && (!asset || accept.asset.toLowerCase() === asset)
+  );
+}
+
+/** Outcome of the upstream call, passed to DeferredSettlement.finalize. */
+export interface UpstreamOutcome {
+  status: number;
+  /** Full response body; only provided when `needsBody` is set. */
+  body?: Buffer;
+  durationMs: number;
+  /** Set when no upstream response was received at all. */
+  error?: string;
+  /**
+   * Set when the client went away before a streamed metered response ended,
+   * so its usage could not be measured.
+   */
+  truncated?: boolean;
+}
+
+/** Where `finalize` puts response headers: the response itself, or trailers once a stream is under way. */
+export type SetHeader = (name: string, value: string) => void;
+
+/**
+ * Payment work the gate leaves until the upstream has answered, set on
+ * `res.locals.deferredSettlement`: metered (`upto`) charges and the
+ * "settle-after" / "refund-on-failure" settlement policies. The proxy
+ * handler calls `finalize` before sending anything (buffering the response
+ * first if `needsBody` is set). `finalize` may set the payment response
+ * header and resolves to an error message if the payment could not be
+ * settled, in which case the caller gets a 402 instead of the response.
+ * `abort` is called instead if the upstream response could not be read.
+ *
+ * Metered event streams are the exception: they are relayed as they arrive
+ * and `finalize` runs once the stream has ended, with its headers sent as
+ * HTTP trailers; a settlement error can then only be logged.
+ */
+export interface DeferredSettlement {
+  needsBody: boolean;
+  finalize(upstream: UpstreamOutcome, setHeader: SetHeader): Promise<string | null>;
+  abort(): void;
+}
+
+/**
+ * Why an upstream call counts as failed (5xx or no response), if it did.
+ * The one definition for metered charges, settlement policies and gateway
+ * calls: a 4xx is an answer and is paid for.
+ */
+function upstreamFailure(upstream: UpstreamOutcome): string | undefined {
+  if (upstream.error) return upstream.error;
+  return upstream.status >= 500 ? `Upstream HTTP ${upstream.status}` : undefined;
+}
+
+/**
+ * Queue a refund of a settled x402 payment from the proxy signer, in the
+ * asset and on the network it was paid on. Only payments the proxy signer
+ * received are refunded; returns false for any other.
+ */
+function queueRefund(
+  tx: Transaction,
+  accept: PaymentRequirementsAccept
+): boolean {
+  if (!payToIsProxySigner(accept)) {
+    log.error(`Transaction ${tx.id} was not paid to the proxy signer, not refunding`, { payTo: accept.payTo });
+    return false;
+  }
+
+  const job = enqueueSettlement({
+    key: `refund:${tx.id}`,
+    resourceId: tx.resourceId,
+    transactionId: tx.id,
+    steps: [{
+      kind: "transfer",
+      label: "refund",
+      to: tx.payer,
+      amount: tx.amount,
+      network: accept.network,
+      asset: accept.asset,
+    }],
+  });
+  log.info(`Queued refund settlement ${job.id}: ${tx.amount} to ${tx.payer} on ${accept.network}`);
+  return true;
 }
 
 // ---------------------------------------------------------------------------
@@ -317,7 +438,8 @@ function buildAccept(
 /**
  * Create an Express middleware that enforces dual payment verification.
  *
- * Path A  -- `x-payment` header  (standard x402 for end users)
+ * Path A  -- `PAYMENT-SIGNATURE` (x402 v2) or `x-payment` (x402 v1) header
+ *            (standard x402 for end users; version negotiated per request)
  * Path B  -- `x-payment-id` header (on-chain gateway paymentId for agents)
  *
  * If neither header is present the middleware responds with HTTP 402 and
@@ -325,8 +447,9 @@ function buildAccept(
  */
 export function createX402Gate(): RequestHandler {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    // 1. Free routes bypass payment
+    // 1. Free routes bypass payment (but not the free-call rate limit)
     if (isFreeRequest(req)) {
+      if (!checkFreeRateLimit(req, res, (req.params as Record<string, string>).resourceId)) return;
       next();
       return;
     }
@@ -344,42 +467,260 @@ export function createX402Gate(): RequestHandler {
       return;
     }
 
+    // Deactivated in the ServiceRegistry: no longer sold
+    if (resource.active === false) {
+      res.status(410).json({ error: `Resource '${resource.id}' has been deactivated` });
+      return;
+    }
+
+    // Don't take payment for an upstream that is known to be down
+    const availability = checkUpstreamAvailable(resource.id);
+    if (!availability.available) {
+      res.setHeader("Retry-After", String(availability.retryAfterSeconds));
+      res.status(503).json({
+        error: `Resource '${resource.id}' is temporarily unavailable`,
+        retryAfter: availability.retryAfterSeconds,
+      });
+      return;
+    }
+
+    // Per-route pricing: a rule priced "0" makes the route free
+    const path = resourcePath((req.params as Record<string, string>)["0"]);
+    const rule = matchPricingRule(resource, req.method, path);
+    if (rule && BigInt(rule.pricePerCall) === 0n) {
+      if (!checkFreeRateLimit(req, res, resource.id)) return;
+      next();
+      return;
+    }
+
     // Resolve on-chain service info (owner + split targets)
-    const serviceInfo = await resolveServiceInfo(resourceId);
+    const onChainServiceId = getOnChainServiceId(resource);
+    const serviceInfo = onChainServiceId ? await resolveServiceInfo(onChainServiceId) : null;
 
     // Payment routing logic:
     // 1. If split targets exist AND proxy signer is configured → route to proxy signer (will split 40/60)
+    //    Split targets (agent wallet + pool) live on the home network only.
     // 2. Otherwise, if on-chain owner exists → pay owner directly
-    // 3. Otherwise → pay resource.creatorAddress (off-chain fallback in buildAccept)
-    let payTo: string | undefined;
-    if (serviceInfo?.splitTargets && config.proxySignerKey) {
-      payTo = computeProxySignerAddress();
-    } else if (serviceInfo?.owner) {
-      payTo = serviceInfo.owner;
-    } else {
-      payTo = undefined; // Will use resource.creatorAddress in buildAccept
+    // 3. Otherwise → pay resource.creatorAddress (off-chain fallback in buildAccepts)
+    const payToFor = (network: string): string | undefined => {
+      if (paysProxySigner(serviceInfo, network)) {
+        return computeProxySignerAddress();
+      }
+      return serviceInfo?.owner; // undefined → resource.creatorAddress
+    };
+    const policy = resource.settlementPolicy ?? "settle-first";
+
+    // refund-on-failure refunds from the proxy signer, so it is only offered
+    // where the proxy signer is the one being paid
+    const accepts = buildAccepts(resource, req.originalUrl, rule, payToFor)
+      .filter((accept) => policy !== "refund-on-failure" || payToIsProxySigner(accept));
+    if (accepts.length === 0) {
+      const error = policy === "refund-on-failure"
+        ? `Resource '${resource.id}' cannot take refundable payments: they would not be paid to the proxy signer`
+        : `Resource '${resource.id}' has no payment options on a configured network`;
+      res.status(500).json({ error });
+      return;
     }
-    const accept = buildAccept(resource, req.originalUrl, payTo);
+
+    /** Notify the owner's webhooks of a payment recorded in the ledger. */
+    const notifyOwner = (type: WebhookEventType, tx: Transaction): void => {
+      emitWebhookEvent(type, resource.id, {
+        transactionId: tx.id,
+        payer: tx.payer,
+        amount: tx.amount,
+        method: tx.method,
+        network: tx.network,
+        txHash: tx.txHash,
+        paymentId: tx.paymentId,
+        serviceId: onChainServiceId,
+      });
+    };
+
+    /** Ledger entry for a Path A payment; a settled one is sent to the owner's webhooks. */
+    const recordPayment = (
+      accept: PaymentRequirementsAccept,
+      payer: string,
+      amount: string,
+      txHash: string | undefined,
+      failureReason?: string
+    ): Transaction => {
+      const tx = createTransaction({
+        resourceId: resource.id,
+        payer,
+        amount,
+        method: "x402",
+        status: failureReason ? "failed" : "settled",
+        txHash,
+        network: accept.network,
+        failureReason,
+      });
+      recordTransaction(tx);
+      if (!failureReason) notifyOwner("payment.settled", tx);
+      return tx;
+    };
+
+    /**
+     * Revenue distribution for a settled Path A payment.
+     * Queues split USDC + record usage, or just record usage. Keyed by the
+     * settlement tx so a payment can never be distributed twice.
+     * In batched mode the same work is accrued and flushed later.
+     * Payments on other networks went straight to the owner, so only
+     * usage is recorded for them.
+     */
+    const distributeRevenue = (accept: PaymentRequirementsAccept, tx: Transaction): void => {
+      const amount = tx.amount;
+      // Nothing was transferred (zero-charge metered call)
+      if (BigInt(amount) === 0n) return;
+
+      const settlementKey = `x402:${tx.txHash ?? tx.id}`;
+      const onHomeNetwork = accept.network === config.homeNetwork;
+      if (onChainServiceId && serviceInfo && onHomeNetwork && config.settlementMode === "batched") {
+        accrueSplitAndUsage(onChainServiceId, amount, serviceInfo);
+      } else if (onChainServiceId && serviceInfo?.splitTargets && onHomeNetwork) {
+        queueSplitAndRecordUsage(
+          settlementKey,
+          tx.id,
+          resource.id,
+          onChainServiceId,
+          amount,
+          serviceInfo.splitTargets
+        );
+      } else if (onChainServiceId) {
+        queueRecordUsage(settlementKey, tx.id, resource.id, onChainServiceId, 1, amount);
+      }
+    };
 
     // ------------------------------------------------------------------
-    // Path A: x-payment header (x402 facilitator for end users)
+    // Path A: PAYMENT-SIGNATURE (x402 v2) or X-PAYMENT (x402 v1) header
+    // (x402 facilitator for end users)
     // ------------------------------------------------------------------
-    const paymentHeader = req.headers["x-payment"] as string | undefined;
-    if (paymentHeader) {
+    let payment: DecodedPayment | null;
+    try {
+      payment = extractPayment(req);
+    } catch {
+      res.status(400).json({ error: "Malformed PAYMENT-SIGNATURE / X-PAYMENT header" });
+      return;
+    }
+
+    if (payment) {
       try {
-        // Decode the base64-encoded X-PAYMENT header into a typed object
-        let decodedPayload;
-        try {
-          decodedPayload = decodePaymentHeader(paymentHeader);
-        } catch {
-          res.status(400).json({ error: "Malformed X-PAYMENT header" });
+        const decodedPayload = toPaymentPayloadV1(payment);
+        log.info("Decoded payment", {
+          resourceId: resource.id,
+          x402Version: payment.version,
+          scheme: decodedPayload.scheme,
+          network: decodedPayload.network,
+          from: payerOf(decodedPayload),
+        });
+
+        // Verify and settle against the requirement for the chain the payer chose
+        const accept = selectAccept(accepts, payment);
+        if (!accept) {
+          res.status(402).json({
+            error: "No payment requirement matches the payment's network/asset",
+            network: decodedPayload.network,
+            accepts,
+          });
           return;
         }
 
-        console.log(`[x402Gate] Decoded payment: scheme=${decodedPayload.scheme}, network=${decodedPayload.network}, from=${decodedPayload.payload?.authorization?.from}`);
+        const payer = payerOf(decodedPayload) ?? "x402-user";
+        const paid = payment;
+
+        // What the upstream is told about this payment (attestation headers)
+        const attest = (amount: string, txHash?: string): void => {
+          const attested: AttestedPayment = {
+            method: "x402",
+            payer,
+            paymentRef: paymentRefOf(decodedPayload),
+            txHash,
+            amount,
+            network: accept.network,
+          };
+          res.locals.attestedPayment = attested;
+        };
+
+        // What a deferred settlement finally charged, for the payer's usage receipt
+        const recordCharge = (amount: string, txHash?: string): void => {
+          const attested = res.locals.attestedPayment as AttestedPayment;
+          attested.amount = amount;
+          attested.txHash = txHash;
+        };
+
+        // Tell the client settlement succeeded, in its protocol version's header
+        const setSettlementHeader = (
+          txHash: string | undefined,
+          amount?: string,
+          setHeader: SetHeader = (name, value) => res.setHeader(name, value)
+        ): void => {
+          const [responseHeader, responseValue] = encodeSettlementHeader(paid.version, {
+            success: true,
+            transaction: txHash ?? "",
+            network: accept.network,
+            payer,
+            amount,
+          });
+          setHeader(responseHeader, responseValue);
+        };
+
+        // upto: verify the permit now, charge measured usage after the
+        // upstream has answered (see DeferredSettlement / proxyHandler)
+        if (accept.scheme === "upto") {
+          const verifyResult = await verifyUpto(decodedPayload, accept);
+          if (!verifyResult.valid) {
+            res.status(402).json({
+              error: "Payment verification failed",
+              reason: verifyResult.invalidReason,
+            });
+            return;
+          }
+          if (!checkPaidRateLimits(req, res, resource, payer)) {
+            releaseUpto(decodedPayload);
+            return;
+          }
+
+          const deferred: DeferredSettlement = {
+            needsBody: true,
+            finalize: async (upstream, setHeader) => {
+              const failure = upstreamFailure(upstream);
+              if (failure) {
+                releaseUpto(decodedPayload);
+                recordPayment(accept, payer, "0", undefined, failure);
+                recordCharge("0");
+                return null;
+              }
+
+              // An abandoned stream cannot be measured, so it costs the cap
+              const { units, amount } = upstream.truncated
+                ? { units: 0, amount: BigInt(accept.maxAmountRequired) }
+                : meterCharge(resource.pricing.metered!, accept.maxAmountRequired, {
+                    body: upstream.body ?? Buffer.alloc(0),
+                    durationMs: upstream.durationMs,
+                  });
+              const settleResult = await settleUpto(decodedPayload, accept, amount);
+              if (!settleResult.success) {
+                const error = settleResult.error ?? "upto settlement failed";
+                recordPayment(accept, payer, amount.toString(), undefined, error);
+                return error;
+              }
+
+              log.info("Metered call charged", { resourceId: resource.id, units, unit: resource.pricing.metered!.unit, amount });
+              setSettlementHeader(settleResult.txHash, amount.toString(), setHeader);
+              distributeRevenue(accept, recordPayment(accept, payer, amount.toString(), settleResult.txHash));
+              recordCharge(amount.toString(), settleResult.txHash);
+              return null;
+            },
+            abort: () => releaseUpto(decodedPayload),
+          };
+          res.locals.deferredSettlement = deferred;
+          attest(accept.maxAmountRequired);
+
+          next();
+          return;
+        }
 
         // Verify (pass decoded payload + single accept requirement)
-        const verifyResult = await facilitatorVerify(decodedPayload, accept);
+        const verifyResult = await facilitatorVerify(payment, accept);
 
         if (!verifyResult.valid) {
           res.status(402).json({
@@ -389,8 +730,41 @@ export function createX402Gate(): RequestHandler {
           return;
         }
 
+        // Rate limits are checked on the verified payer, before any money moves
+        if (!checkPaidRateLimits(req, res, resource, payer)) return;
+
+        // settle-after: only settle once the upstream has succeeded
+        if (policy === "settle-after") {
+          const deferred: DeferredSettlement = {
+            needsBody: false,
+            finalize: async (upstream, setHeader) => {
+              const failure = upstreamFailure(upstream);
+              if (failure) {
+                log.info("Upstream failed, payment not settled", { resourceId: resource.id, failure });
+                recordPayment(accept, payer, accept.maxAmountRequired, undefined, failure);
+                recordCharge("0");
+                return null;
+              }
+
+              const settleResult = await facilitatorSettle(paid, accept);
+              if (!settleResult.success) return settleResult.error ?? "Settlement failed";
+
+              setSettlementHeader(settleResult.txHash, undefined, setHeader);
+              distributeRevenue(accept, recordPayment(accept, payer, accept.maxAmountRequired, settleResult.txHash));
+              recordCharge(accept.maxAmountRequired, settleResult.txHash);
+              return null;
+            },
+            abort: () => {},
+          };
+          res.locals.deferredSettlement = deferred;
+          attest(accept.maxAmountRequired);
+
+          next();
+          return;
+        }
+
         // Settle
-        const settleResult = await facilitatorSettle(decodedPayload, accept);
+        const settleResult = await facilitatorSettle(payment, accept);
 
         if (!settleResult.success) {
           res.status(402).json({
@@ -400,35 +774,45 @@ export function createX402Gate(): RequestHandler {
           return;
         }
 
-        // Set response header so the client knows settlement succeeded
-        if (settleResult.txHash) {
-          res.setHeader("X-PAYMENT-RESPONSE", settleResult.txHash);
-        }
-
-        // Record audit trail
-        const payer = decodedPayload.payload?.authorization?.from ?? "x402-user";
-        const tx = createTransaction({
-          resourceId: resource.id,
-          payer,
-          amount: resource.pricing.pricePerCall,
-          method: "x402",
-          status: "settled",
-        });
-        recordTransaction(tx);
-
-        // Fire-and-forget: split USDC + record usage, or just record usage
-        if (serviceInfo?.splitTargets) {
-          fireSplitAndRecordUsage(resource.id, resource.pricing.pricePerCall, serviceInfo.splitTargets);
+        setSettlementHeader(settleResult.txHash);
+
+        // Record audit trail + distribute revenue
+        const tx = recordPayment(accept, payer, accept.maxAmountRequired, settleResult.txHash);
+
+        // refund-on-failure: hold the distribution until the upstream has
+        // answered; refund the payer instead if it failed
+        if (policy === "refund-on-failure") {
+          const deferred: DeferredSettlement = {
+            needsBody: false,
+            finalize: async (upstream) => {
+              const failure = upstreamFailure(upstream);
+              if (!failure) {
+                distributeRevenue(accept, tx);
+                return null;
+              }
+              if (!queueRefund(tx, accept)) {
+                distributeRevenue(accept, tx);
+                return null;
+              }
+              log.info("Upstream failed, refunding", { resourceId: resource.id, failure, amount: tx.amount, payer });
+              recordTransaction({ ...tx, status: "refunded", failureReason: failure });
+              recordCharge("0", tx.txHash);
+              return null;
+            },
+            abort: () => distributeRevenue(accept, tx),
+          };
+          res.locals.deferredSettlement = deferred;
         } else {
-          fireRecordUsage(resource.id, 1, resource.pricing.pricePerCall);
+          distributeRevenue(accept, tx);
         }
+        attest(accept.maxAmountRequired, settleResult.txHash);
 
         next();
         return;
       } catch (err: unknown) {
         const message =
           err instanceof Error ? err.message : "x402 verification error";
-        console.error(`[x402Gate] Path A error: ${message}`);
+        log.error("Path A error", { resourceId: resource.id, error: message });
         res.status(500).json({ error: message });
         return;
       }
@@ -439,66 +823,159 @@ export function createX402Gate(): RequestHandler {
     // ------------------------------------------------------------------
     const paymentId = req.headers["x-payment-id"] as string | undefined;
     if (paymentId) {
+      if (!BYTES32_HEX_PATTERN.test(paymentId)) {
+        res.status(400).json({ error: "Malformed x-payment-id header (expected bytes32 hex)" });
+        return;
+      }
+
+      // Path B payments are made against an on-chain serviceId; resources
+      // without one can only be paid through Path A.
+      if (!onChainServiceId) {
+        res.status(400).json({
+          error: `Resource '${resource.id}' is not bound to an on-chain service; use x402 payment`,
+        });
+        return;
+      }
+
+      // The gateway payment can live on any configured network; agents name
+      // it with x-payment-network (default: home network).
+      const networkName = (req.headers["x-payment-network"] as string | undefined) ?? config.homeNetwork;
+      const network = resolveNetwork(networkName);
+      if (!network) {
+        res.status(400).json({
+          error: `Unknown x-payment-network '${networkName}'`,
+          networks: Object.keys(config.networks),
+        });
+        return;
+      }
+
+      let claimed = false;
       try {
-        // Replay protection: reject already-used paymentIds
-        if (isPaymentIdUsed(paymentId)) {
+        const gateway = new ethers.Contract(
+          network.gatewayAddress,
+          GATEWAY_ABI,
+          getNetworkProvider(network)
+        );
+
+        const raw = await gateway.getPayment(paymentId);
+        const payment: GatewayPayment = {
+          paymentId,
+          payer: raw.payer as string,
+          serviceId: raw.serviceId as string,
+          calls: raw.calls as bigint,
+          amount: raw.amount as bigint,
+          valid: raw.valid as boolean,
+        };
+
+        if (!payment.valid) {
           res.status(402).json({
-            error: "Payment already used",
+            error: "Gateway payment verification failed",
             paymentId,
           });
           return;
         }
 
-        const provider = new ethers.JsonRpcProvider(config.gatewayRpcUrl);
-        const gateway = new ethers.Contract(
-          config.gatewayAddress,
-          GATEWAY_ABI,
-          provider
-        );
-
-        const [valid, payer, amount] = (await gateway.verifyPayment(
-          paymentId
-        )) as [boolean, string, bigint];
+        // The payment must have been made for this resource's service
+        if (payment.serviceId.toLowerCase() !== onChainServiceId.toLowerCase()) {
+          res.status(402).json({
+            error: "Payment was made for a different service",
+            paymentId,
+            expectedServiceId: onChainServiceId,
+            paidServiceId: payment.serviceId,
+          });
+          return;
+        }
 
-        if (!valid) {
+        if (payment.calls === 0n || payment.calls > MAX_GATEWAY_CALLS) {
           res.status(402).json({
-            error: "Gateway payment verification failed",
+            error: `Payment must cover between 1 and ${MAX_GATEWAY_CALLS} calls`,
             paymentId,
+            calls: payment.calls.toString(),
           });
           return;
         }
 
-        // Ensure the payment covers the resource price
-        const requiredAmount = BigInt(resource.pricing.pricePerCall);
-        if (amount < requiredAmount) {
+        // Ensure the per-call amount covers the resource price on that network
+        const option = paymentOptions(resource).find((o) => o.network === network.name);
+        // Metered resources are prepaid at their per-call cap on this path
+        const metered = resource.pricing.metered;
+        const requiredAmount = BigInt(metered ? metered.maxPerCall : priceFor(resource, option, rule));
+        const amountPerCall = payment.amount / payment.calls;
+        if (amountPerCall < requiredAmount) {
           res.status(402).json({
             error: "Insufficient payment amount",
             required: requiredAmount.toString(),
-            received: amount.toString(),
+            received: amountPerCall.toString(),
           });
           return;
         }
 
-        // Mark paymentId as used (prevents replay)
-        markPaymentIdUsed(paymentId);
+        if (!checkPaidRateLimits(req, res, resource, payment.payer)) return;
+
+        // Replay protection: atomically consume one of the paid calls so
+        // concurrent requests with the same paymentId cannot share a call.
+        const totalCalls = Number(payment.calls);
+        const remaining = await claimPaymentCall(network.name, paymentId, totalCalls);
+        if (remaining === null) {
+          res.status(402).json({
+            error: "Payment already used",
+            paymentId,
+            calls: totalCalls,
+          });
+          return;
+        }
+        claimed = true;
+
+        res.setHeader("X-PAYMENT-CALLS-REMAINING", String(remaining));
 
         // Record audit trail
         const tx = createTransaction({
           resourceId: resource.id,
-          payer,
-          amount: amount.toString(),
+          payer: payment.payer,
+          amount: amountPerCall.toString(),
           method: "gateway",
           status: "verified",
           paymentId,
+          network: network.name,
         });
         recordTransaction(tx);
+        notifyOwner("payment.verified", tx);
+
+        const attested: AttestedPayment = {
+          method: "gateway",
+          payer: payment.payer,
+          paymentRef: paymentId,
+          amount: amountPerCall.toString(),
+          network: network.name,
+        };
+        res.locals.attestedPayment = attested;
+
+        // Non-default policies: a failed upstream call gives the paid call back
+        if (policy !== "settle-first") {
+          const deferred: DeferredSettlement = {
+            needsBody: false,
+            finalize: async (upstream, setHeader) => {
+              const failure = upstreamFailure(upstream);
+              if (failure) {
+                await releasePaymentCall(network.name, paymentId);
+                recordTransaction({ ...tx, status: "failed", failureReason: failure });
+                attested.amount = "0";
+                setHeader("X-PAYMENT-CALLS-REMAINING", String(getRemainingCalls(network.name, paymentId, totalCalls)));
+              }
+              return null;
+            },
+            abort: () => {},
+          };
+          res.locals.deferredSettlement = deferred;
+        }
 
         next();
         return;
       } catch (err: unknown) {
+        if (claimed) await releasePaymentCall(network.name, paymentId).catch(() => {});
         const message =
           err instanceof Error ? err.message : "Gateway verification error";
-        console.error(`[x402Gate] Path B error: ${message}`);
+        log.error("Path B error", { resourceId: resource.id, paymentId, error: message });
         res.status(500).json({ error: message });
         return;
       }
@@ -506,19 +983,28 @@ export function createX402Gate(): RequestHandler {
 
     // ------------------------------------------------------------------
     // No payment header → respond 402 with requirements
+    // (v1 in the body, v2 in the PAYMENT-REQUIRED header)
     // ------------------------------------------------------------------
     const errorBody: X402ErrorResponse = {
       x402Version: 1,
       error: "Payment required",
-      accepts: [accept],
+      accepts,
       gatewayContract: config.gatewayAddress,
-      serviceId: resourceId,
+      gatewayContracts: Object.fromEntries(
+        Object.values(config.networks).map((n) => [n.name, n.gatewayAddress])
+      ),
+      serviceId: onChainServiceId ?? resourceId,
     };
 
-    res.setHeader(
-      "PAYMENT-REQUIRED",
-      Buffer.from(JSON.stringify(errorBody)).toString("base64")
-    );
+    const paymentRequired = buildPaymentRequiredV2(accepts, "Payment required", {
+      gateway: {
+        gatewayContract: errorBody.gatewayContract,
+        gatewayContracts: errorBody.gatewayContracts,
+        serviceId: errorBody.serviceId,
+      },
+    });
+
+    res.setHeader("PAYMENT-REQUIRED", encodePaymentRequiredHeader(paymentRequired));
     res.status(402).json(errorBody);
   };
 }
@@ -1,18 +1,12 @@
-import type { Resource, ServiceType, ResourcePricing } from "../types/x402.js";
+import type { PublicResource, Resource, ResourceInput } from "../types/x402.js";
+
+const BYTES32_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
 
 /**
- * Helper to create a Resource object with a generated proxy URL.
+ * Helper to create a Resource object with a generated proxy URL. The API key
+ * is not copied; the store seals it into `encryptedApiKey`.
  */
-export function createResource(params: {
-  id: string;
-  name: string;
-  type: ServiceType;
-  creatorAddress: string;
-  originalUrl: string;
-  pricing: ResourcePricing;
-  apiKey?: string;
-  apiKeyHeader?: string;
-}): Resource {
+export function createResource(params: ResourceInput): Resource {
   return {
     id: params.id,
     name: params.name,
@@ -21,9 +15,35 @@ export function createResource(params: {
     originalUrl: params.originalUrl,
     proxyUrl: `/proxy/${params.id}`,
     pricing: params.pricing,
-    apiKey: params.apiKey,
+    serviceId: params.serviceId,
+    active: params.active,
+    settlementPolicy: params.settlementPolicy,
+    healthCheckUrl: params.healthCheckUrl,
+    rateLimits: params.rateLimits,
     apiKeyHeader: params.apiKeyHeader,
+    upstreamAuth: params.upstreamAuth,
+    attestation: params.attestation,
+  };
+}
+
+/**
+ * Strip secrets from a resource before it is sent to any client, including a
+ * legacy plaintext `apiKey` that has not been migrated yet.
+ */
+export function toPublicResource(resource: Resource): PublicResource {
+  const { encryptedApiKey, encryptedAttestationSecret: _, apiKey, ...rest } = resource as Resource & {
+    apiKey?: string;
   };
+  return { ...rest, hasApiKey: !!(encryptedApiKey || apiKey) };
+}
+
+/**
+ * The on-chain ServiceRegistry id a resource is bound to, or undefined for
+ * off-chain resources.
+ */
+export function getOnChainServiceId(resource: Resource): string | undefined {
+  if (resource.serviceId) return resource.serviceId;
+  return BYTES32_HEX_PATTERN.test(resource.id) ? resource.id : undefined;
 }
 
 /**
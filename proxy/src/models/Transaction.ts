@@ -15,6 +15,9 @@ export function createTransaction(params: {
   method: PaymentMethod;
   status?: TransactionStatus;
   paymentId?: string;
+  txHash?: string;
+  network?: string;
+  failureReason?: string;
 }): Transaction {
   return {
     id: randomUUID(),
@@ -25,33 +28,8 @@ export function createTransaction(params: {
     timestamp: Date.now(),
     status: params.status ?? "pending",
     paymentId: params.paymentId,
+    txHash: params.txHash,
+    network: params.network,
+    failureReason: params.failureReason,
   };
 }
-
-/** Track used paymentIds to prevent replay attacks. */
-const usedPaymentIds = new Set<string>();
-
-export function isPaymentIdUsed(id: string): boolean {
-  return usedPaymentIds.has(id);
-}
-
-export function markPaymentIdUsed(id: string): void {
-  usedPaymentIds.add(id);
-}
-
-/** Simple in-memory transaction log. */
-const transactions: Transaction[] = [];
-
-export function recordTransaction(tx: Transaction): void {
-  transactions.push(tx);
-}
-
-export function getTransactions(): ReadonlyArray<Transaction> {
-  return transactions;
-}
-
-export function getTransactionsByResource(
-  resourceId: string
-): ReadonlyArray<Transaction> {
-  return transactions.filter((tx) => tx.resourceId === resourceId);
-}
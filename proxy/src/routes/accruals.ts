@@ -0,0 +1,35 @@
+import { Router, type Request, type Response } from "express";
+import { getAccrual, getAllAccruals } from "../services/revenueAccrual.js";
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+export const accrualsRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /accruals — Accrued-but-unpaid revenue for every agent (batched mode)
+// ---------------------------------------------------------------------------
+
+accrualsRouter.get("/", (_req: Request, res: Response) => {
+  res.json(getAllAccruals());
+});
+
+// ---------------------------------------------------------------------------
+// GET /accruals/:agentId — Accrued-but-unpaid revenue for one agent
+// ---------------------------------------------------------------------------
+
+accrualsRouter.get("/:agentId", (req: Request, res: Response) => {
+  const { agentId } = req.params;
+  const accrual = getAccrual(agentId);
+
+  // Nothing accrued is a valid state, not an error
+  res.json(
+    accrual ?? {
+      agentId,
+      poolAmount: "0",
+      walletAmount: "0",
+      services: {},
+    }
+  );
+});
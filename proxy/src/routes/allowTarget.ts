@@ -1,7 +1,10 @@
 import { Router, type Request, type Response } from "express";
-import { JsonRpcProvider, Wallet, Contract, ethers } from "ethers";
+import { Contract, ethers } from "ethers";
 import { config } from "../config.js";
-import { initDeployerNonce, allocateNonce } from "../services/nonceManager.js";
+import { getDeployerSigner } from "../services/nonceManager.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("allow-target");
 
 // ---------------------------------------------------------------------------
 // ABIs (human-readable)
@@ -52,9 +55,8 @@ allowTargetRouter.post("/", async (req: Request, res: Response) => {
     }
 
     // ---- Set up deployer signer ----
-    const provider = new JsonRpcProvider(config.gatewayRpcUrl);
-    const deployer = new Wallet(config.proxySignerKey, provider);
-    const deployerAddress = await deployer.getAddress();
+    const deployer = await getDeployerSigner();
+    const provider = deployer.provider!;
 
     // ---- Verify NFT ownership on-chain ----
     const identityRegistry = new Contract(
@@ -74,7 +76,7 @@ allowTargetRouter.post("/", async (req: Request, res: Response) => {
       } catch {
         if (attempt < 4) {
           const delayMs = 2000 * (attempt + 1);
-          console.log(`[allow-target] ownerOf(${agentId}) not found yet, retrying in ${delayMs}ms (attempt ${attempt + 1}/5)...`);
+          log.info(`ownerOf(${agentId}) not found yet, retrying in ${delayMs}ms (attempt ${attempt + 1}/5)...`);
           await new Promise((r) => setTimeout(r, delayMs));
         }
       }
@@ -106,7 +108,7 @@ allowTargetRouter.post("/", async (req: Request, res: Response) => {
       }
       if (attempt < 4) {
         const delayMs = 2000 * (attempt + 1);
-        console.log(`[allow-target] getAgentWallet(${agentId}) not found yet, retrying in ${delayMs}ms...`);
+        log.info(`getAgentWallet(${agentId}) not found yet, retrying in ${delayMs}ms...`);
         await new Promise((r) => setTimeout(r, delayMs));
       }
     }
@@ -117,20 +119,17 @@ allowTargetRouter.post("/", async (req: Request, res: Response) => {
     }
 
     // ---- Call setTargetAllowed on the smart account ----
-    await initDeployerNonce(provider, deployerAddress);
-    const nonce = allocateNonce();
-
-    console.log(`[allow-target] setTargetAllowed(${targetAddress}, true) on ${smartAccountAddress} (nonce=${nonce})`);
+    log.info(`setTargetAllowed(${targetAddress}, true) on ${smartAccountAddress}`);
     const smartAccount = new Contract(
       smartAccountAddress,
       AGENT_SMART_ACCOUNT_ABI,
       deployer,
     );
 
-    const tx = await smartAccount.setTargetAllowed(targetAddress, true, { nonce });
+    const tx = await smartAccount.setTargetAllowed(targetAddress, true);
     const receipt = await tx.wait();
 
-    console.log(`[allow-target] Done: target=${targetAddress}, smartAccount=${smartAccountAddress}, tx=${receipt.hash}`);
+    log.info(`Done: target=${targetAddress}, smartAccount=${smartAccountAddress}, tx=${receipt.hash}`);
 
     res.json({
       success: true,
@@ -140,7 +139,7 @@ allowTargetRouter.post("/", async (req: Request, res: Response) => {
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[allow-target] Error:", message);
+    log.error("Allow target failed", { error: message });
     res.status(500).json({ error: "Allow target failed", details: message });
   }
 });
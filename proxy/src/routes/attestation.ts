@@ -0,0 +1,73 @@
+import { Router, type Request, type Response } from "express";
+import { ownerAuth } from "../middleware/ownerAuth.js";
+import { getResource, updateResourceAttestation } from "../services/resourceStore.js";
+import {
+  attestationModeFor,
+  attestationSignerAddress,
+  generateAttestationSecret,
+} from "../services/attestation.js";
+import { isVaultConfigured } from "../services/secretVault.js";
+import type { AttestationMode } from "../types/x402.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("attestation");
+
+const MODES: AttestationMode[] = ["eip191", "hmac", "off"];
+
+// ---------------------------------------------------------------------------
+// Router (mounted at /services/:resourceId/attestation)
+// ---------------------------------------------------------------------------
+
+export const attestationRouter = Router({ mergeParams: true });
+
+// ---------------------------------------------------------------------------
+// GET /services/:resourceId/attestation — How a resource's calls are attested
+// ---------------------------------------------------------------------------
+
+attestationRouter.get("/", (req: Request, res: Response) => {
+  const resource = getResource(req.params.resourceId);
+  if (!resource) {
+    res.status(404).json({ error: `Resource '${req.params.resourceId}' not found` });
+    return;
+  }
+
+  const mode = attestationModeFor(resource);
+  res.json({
+    resourceId: resource.id,
+    mode,
+    // Address to verify "eip191" attestations against
+    signer: mode === "eip191" ? attestationSignerAddress() ?? null : undefined,
+    hasSecret: !!resource.encryptedAttestationSecret,
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PUT /services/:resourceId/attestation — Owner picks the mode / rotates the
+// HMAC secret. A new secret is returned once and never shown again.
+// ---------------------------------------------------------------------------
+
+attestationRouter.put("/", ownerAuth(), (req: Request, res: Response) => {
+  const body = req.body as { mode?: AttestationMode; rotateSecret?: boolean };
+  if (!body.mode || !MODES.includes(body.mode)) {
+    res.status(400).json({ error: `mode must be one of: ${MODES.join(", ")}` });
+    return;
+  }
+
+  const existing = getResource(req.params.resourceId)!;
+  const needsSecret = body.mode === "hmac" && (body.rotateSecret === true || !existing.encryptedAttestationSecret);
+  if (needsSecret && !isVaultConfigured()) {
+    res.status(500).json({ error: "SECRETS_MASTER_KEY not configured on server; cannot store attestation secret" });
+    return;
+  }
+
+  const secret = needsSecret ? generateAttestationSecret() : undefined;
+  const resource = updateResourceAttestation(existing.id, body.mode, secret)!;
+  log.info(`${resource.id} attestation set to ${body.mode}${secret ? " (new secret)" : ""}`);
+
+  res.json({
+    resourceId: resource.id,
+    mode: body.mode,
+    signer: body.mode === "eip191" ? attestationSignerAddress() ?? null : undefined,
+    secret,
+  });
+});
@@ -0,0 +1,181 @@
+import { Router, type Request, type Response } from "express";
+import { ethers } from "ethers";
+import {
+  getIndexStatus,
+  getIndexedAgent,
+  getIndexedService,
+  listIndexedAgents,
+  listIndexedPayments,
+  listIndexedServices,
+  listPoolActivity,
+} from "../services/chainIndexer.js";
+import type { PoolActivityKind } from "../types/x402.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const POOL_ACTIVITY_KINDS: PoolActivityKind[] = [
+  "deposit",
+  "withdraw",
+  "pull",
+  "daily-cap-updated",
+  "agent-revoked",
+  "vesting-updated",
+  "pull-target-updated",
+  "metadata-updated",
+];
+
+/**
+ * Read string filters from the query string. Sends 400 and returns null if
+ * one is not a single plain value (`?payer=a&payer=b` arrives as an array).
+ */
+function readQuery<K extends string>(
+  req: Request,
+  res: Response,
+  keys: readonly K[]
+): Partial<Record<K, string>> | null {
+  const values: Partial<Record<K, string>> = {};
+  for (const key of keys) {
+    const raw = req.query[key];
+    if (raw === undefined) continue;
+    if (typeof raw !== "string") {
+      res.status(400).json({ error: `${key} must be given once, as a plain value` });
+      return null;
+    }
+    values[key] = raw;
+  }
+  return values;
+}
+
+/**
+ * Read `limit` / `offset` from the query string. Sends 400 and returns null
+ * if either is not a non-negative integer.
+ */
+function parsePage(req: Request, res: Response): { limit: number; offset: number } | null {
+  const q = readQuery(req, res, ["limit", "offset"] as const);
+  if (!q) return null;
+  const page = { limit: DEFAULT_LIMIT, offset: 0 };
+  for (const key of ["limit", "offset"] as const) {
+    const raw = q[key];
+    if (raw === undefined) continue;
+    if (!/^\d+$/.test(raw)) {
+      res.status(400).json({ error: `${key} must be a non-negative integer` });
+      return null;
+    }
+    page[key] = Number(raw);
+  }
+  page.limit = Math.min(Math.max(page.limit, 1), MAX_LIMIT);
+  return page;
+}
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+export const chainIndexRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /index/status — Last indexed block and record counts
+// ---------------------------------------------------------------------------
+
+chainIndexRouter.get("/status", (_req: Request, res: Response) => {
+  res.json(getIndexStatus());
+});
+
+// ---------------------------------------------------------------------------
+// GET /index/services — ServiceRegistry services
+//
+// Query: owner, agentId, active (true|false)
+// ---------------------------------------------------------------------------
+
+chainIndexRouter.get("/services", (req: Request, res: Response) => {
+  const q = readQuery(req, res, ["owner", "agentId", "active"] as const);
+  if (!q) return;
+  if (q.active !== undefined && q.active !== "true" && q.active !== "false") {
+    res.status(400).json({ error: "active must be true or false" });
+    return;
+  }
+  const services = listIndexedServices({
+    owner: q.owner,
+    agentId: q.agentId,
+    active: q.active === undefined ? undefined : q.active === "true",
+  });
+  res.json({ total: services.length, services });
+});
+
+chainIndexRouter.get("/services/:serviceId", (req: Request, res: Response) => {
+  const service = getIndexedService(req.params.serviceId);
+  if (!service) {
+    res.status(404).json({ error: `Service ${req.params.serviceId} not indexed` });
+    return;
+  }
+  res.json(service);
+});
+
+// ---------------------------------------------------------------------------
+// GET /index/agents — Agents with their pool and feedback counts
+// ---------------------------------------------------------------------------
+
+chainIndexRouter.get("/agents", (_req: Request, res: Response) => {
+  const agents = listIndexedAgents();
+  res.json({ total: agents.length, agents });
+});
+
+chainIndexRouter.get("/agents/:agentId", (req: Request, res: Response) => {
+  const agent = getIndexedAgent(req.params.agentId);
+  if (!agent) {
+    res.status(404).json({ error: `Agent ${req.params.agentId} not indexed` });
+    return;
+  }
+  res.json(agent);
+});
+
+// ---------------------------------------------------------------------------
+// GET /index/payments — Gateway payments, newest first
+//
+// Query: payer, serviceId, limit, offset
+// ---------------------------------------------------------------------------
+
+chainIndexRouter.get("/payments", (req: Request, res: Response) => {
+  const page = parsePage(req, res);
+  if (!page) return;
+  const q = readQuery(req, res, ["payer", "serviceId"] as const);
+  if (!q) return;
+  const payments = listIndexedPayments({ payer: q.payer, serviceId: q.serviceId });
+  res.json({
+    total: payments.length,
+    ...page,
+    payments: payments.slice(page.offset, page.offset + page.limit),
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /index/pools/:address/activity — Deposits, withdrawals, agent pulls and
+// admin changes of one AgentPool, newest first
+//
+// Query: kind, limit, offset
+// ---------------------------------------------------------------------------
+
+chainIndexRouter.get("/pools/:address/activity", (req: Request, res: Response) => {
+  if (!ethers.isAddress(req.params.address)) {
+    res.status(400).json({ error: "address must be a pool address" });
+    return;
+  }
+  const q = readQuery(req, res, ["kind"] as const);
+  if (!q) return;
+  const kind = q.kind as PoolActivityKind | undefined;
+  if (kind !== undefined && !POOL_ACTIVITY_KINDS.includes(kind)) {
+    res.status(400).json({ error: `kind must be one of: ${POOL_ACTIVITY_KINDS.join(", ")}` });
+    return;
+  }
+  const page = parsePage(req, res);
+  if (!page) return;
+
+  const activity = listPoolActivity(req.params.address, kind);
+  res.json({
+    pool: req.params.address,
+    total: activity.length,
+    ...page,
+    activity: activity.slice(page.offset, page.offset + page.limit),
+  });
+});
@@ -0,0 +1,58 @@
+import { Router, type Request, type Response } from "express";
+import { config } from "../config.js";
+import { getNonceStatus, listDeployerTxs, resyncNonce } from "../services/nonceManager.js";
+import type { DeployerTxStatus } from "../types/x402.js";
+
+const DEPLOYER_TX_STATUSES: DeployerTxStatus[] = ["pending", "mined", "dropped"];
+const MAX_TXS_RETURNED = 200;
+
+// ---------------------------------------------------------------------------
+// Router (mounted behind adminAuth)
+// ---------------------------------------------------------------------------
+
+export const deployerTxsRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /admin/deployer-txs — Nonce counters and tracked deployer transactions
+//
+// Query: network, status (pending|mined|dropped)
+// ---------------------------------------------------------------------------
+
+deployerTxsRouter.get("/", (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  if (status !== undefined && !DEPLOYER_TX_STATUSES.includes(status as DeployerTxStatus)) {
+    res.status(400).json({ error: `status must be one of: ${DEPLOYER_TX_STATUSES.join(", ")}` });
+    return;
+  }
+
+  const txs = listDeployerTxs({
+    network: req.query.network as string | undefined,
+    status: status as DeployerTxStatus | undefined,
+  });
+  res.json({ nonces: getNonceStatus(), total: txs.length, txs: txs.slice(0, MAX_TXS_RETURNED) });
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/deployer-txs/:network/resync — Reconcile the nonce counter
+// with the chain now (fills gaps, unsticks the head of the queue)
+// ---------------------------------------------------------------------------
+
+deployerTxsRouter.post("/:network/resync", async (req: Request, res: Response) => {
+  const network = config.networks[req.params.network];
+  if (!network) {
+    res.status(404).json({ error: `Unknown network '${req.params.network}'` });
+    return;
+  }
+  if (!config.proxySignerKey) {
+    res.status(500).json({ error: "PROXY_SIGNER_KEY not configured on server" });
+    return;
+  }
+
+  try {
+    const nextNonce = await resyncNonce(network);
+    res.json({ network: network.name, nextNonce });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(502).json({ error: "Resync failed", details: message });
+  }
+});
@@ -1,7 +1,10 @@
 import { Router, type Request, type Response } from "express";
-import { JsonRpcProvider, Wallet, Contract, ethers } from "ethers";
+import { Contract, ethers } from "ethers";
 import { config } from "../config.js";
-import { initDeployerNonce, allocateNonce } from "../services/nonceManager.js";
+import { getDeployerSigner } from "../services/nonceManager.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("fund-agent");
 
 // ---------------------------------------------------------------------------
 // ABIs
@@ -54,8 +57,8 @@ fundAgentRouter.post("/", async (req: Request, res: Response) => {
     }
 
     // ---- Set up deployer signer ----
-    const provider = new JsonRpcProvider(config.gatewayRpcUrl);
-    const deployer = new Wallet(config.proxySignerKey, provider);
+    const deployer = await getDeployerSigner();
+    const provider = deployer.provider!;
 
     // ---- Verify agentId on-chain ----
     const identityRegistry = new Contract(
@@ -79,18 +82,15 @@ fundAgentRouter.post("/", async (req: Request, res: Response) => {
     }
 
     // ---- Send ETH ----
-    await initDeployerNonce(provider, await deployer.getAddress());
-
     const amount = ethers.parseEther(config.fundAmountEoa);
-    const nonce = allocateNonce();
-    console.log(`[fund-agent] Sending ${config.fundAmountEoa} ETH to ${address} for agentId=${agentId}... (nonce=${nonce})`);
+    log.info(`Sending ${config.fundAmountEoa} ETH to ${address} for agentId=${agentId}...`);
 
-    const tx = await deployer.sendTransaction({ to: address, value: amount, nonce });
+    const tx = await deployer.sendTransaction({ to: address, value: amount });
     const receipt = await tx.wait();
 
     fundedAgents.add(agentId);
 
-    console.log(`[fund-agent] Funded agentId=${agentId}, tx=${receipt!.hash}`);
+    log.info(`Funded agentId=${agentId}, tx=${receipt!.hash}`);
 
     res.json({
       success: true,
@@ -100,7 +100,7 @@ fundAgentRouter.post("/", async (req: Request, res: Response) => {
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[fund-agent] Error:", message);
+    log.error("Funding failed", { error: message });
     res.status(500).json({ error: "Funding failed", details: message });
   }
 });
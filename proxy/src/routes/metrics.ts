@@ -0,0 +1,107 @@
+import { Router, type Request, type Response } from "express";
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { addCollector, gauge, renderMetrics } from "../services/metrics.js";
+import { listSettlements } from "../services/settlementQueue.js";
+import { getNetworkProvider } from "../services/chainClient.js";
+import type { SettlementStatus } from "../types/x402.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("metrics");
+
+const SETTLEMENT_STATUSES: SettlementStatus[] = ["pending", "processing", "completed", "dead"];
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address account) view returns (uint256)"];
+
+/** Signer balances are read from the chain at most this often. */
+const BALANCE_REFRESH_MS = 30_000;
+const BALANCE_TIMEOUT_MS = 5_000;
+
+// ---------------------------------------------------------------------------
+// Scrape-time gauges
+// ---------------------------------------------------------------------------
+
+const settlements = gauge("pragma_settlements", "Settlement jobs by status (pending + processing = backlog).");
+const oldestPendingSettlement = gauge(
+  "pragma_settlement_oldest_pending_seconds",
+  "Age of the oldest settlement job not yet completed or dead."
+);
+const signerNativeBalance = gauge(
+  "pragma_signer_native_balance",
+  "Proxy signer native balance (ETH on Base) per network, in whole units."
+);
+const signerUsdcBalance = gauge(
+  "pragma_signer_usdc_balance",
+  "Proxy signer USDC balance per network, in whole USDC."
+);
+
+addCollector(() => {
+  const all = listSettlements();
+  for (const status of SETTLEMENT_STATUSES) {
+    settlements.set({ status }, all.filter((job) => job.status === status).length);
+  }
+  const open = all.filter((job) => job.status === "pending" || job.status === "processing");
+  const oldest = Math.min(...open.map((job) => job.createdAt));
+  oldestPendingSettlement.set({}, open.length > 0 ? (Date.now() - oldest) / 1000 : 0);
+});
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms)),
+  ]);
+}
+
+let _balancesReadAt = 0;
+
+addCollector(async () => {
+  if (!config.proxySignerKey || Date.now() - _balancesReadAt < BALANCE_REFRESH_MS) return;
+  _balancesReadAt = Date.now();
+
+  const signer = new ethers.Wallet(config.proxySignerKey).address;
+  await Promise.all(
+    Object.values(config.networks).map(async (network) => {
+      const provider = getNetworkProvider(network);
+      const usdc = new ethers.Contract(network.usdcAddress, ERC20_BALANCE_ABI, provider);
+      try {
+        const [native, usdcBalance] = await withTimeout(
+          Promise.all([provider.getBalance(signer), usdc.balanceOf(signer) as Promise<bigint>]),
+          BALANCE_TIMEOUT_MS
+        );
+        signerNativeBalance.set({ network: network.name }, Number(ethers.formatEther(native)));
+        signerUsdcBalance.set({ network: network.name }, Number(ethers.formatUnits(usdcBalance, 6)));
+      } catch (err: unknown) {
+        // Keep the last known values; a stale balance beats a gap in alerts
+        const message = err instanceof Error ? err.message : String(err);
+        log.warn(`Balance read on ${network.name} failed: ${message}`);
+      }
+    })
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+export const metricsRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /metrics — Prometheus scrape endpoint (Bearer METRICS_TOKEN if set)
+// ---------------------------------------------------------------------------
+
+metricsRouter.get("/", (req: Request, res: Response) => {
+  if (config.metricsToken && req.headers.authorization !== `Bearer ${config.metricsToken}`) {
+    res.status(401).json({ error: "Invalid metrics token" });
+    return;
+  }
+
+  renderMetrics()
+    .then((body) => {
+      res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+      res.send(body);
+    })
+    .catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : String(err);
+      res.status(500).json({ error: message });
+    });
+});
@@ -0,0 +1,90 @@
+import { Router, type Request, type Response } from "express";
+import { config } from "../config.js";
+import { ownerAuth } from "../middleware/ownerAuth.js";
+import { getResource, updateResourceRateLimits } from "../services/resourceStore.js";
+import type { RateLimit, ResourceRateLimits } from "../types/x402.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("rateLimits");
+
+const SCOPES = ["perPayer", "perIp", "total"] as const;
+const MIN_WINDOW_MS = 1000;
+const MAX_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Validate one scope's limit. Returns an error message, or null. */
+function validateLimit(scope: string, limit: Partial<RateLimit>): string | null {
+  if (!limit || typeof limit !== "object") return `${scope} must be an object`;
+  if (!Number.isInteger(limit.requests) || (limit.requests as number) < 0) {
+    return `${scope}.requests must be a non-negative integer (0 = unlimited)`;
+  }
+  if (
+    !Number.isInteger(limit.windowMs) ||
+    (limit.windowMs as number) < MIN_WINDOW_MS ||
+    (limit.windowMs as number) > MAX_WINDOW_MS
+  ) {
+    return `${scope}.windowMs must be an integer between ${MIN_WINDOW_MS} and ${MAX_WINDOW_MS}`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Router (mounted at /services/:resourceId/rate-limits)
+// ---------------------------------------------------------------------------
+
+export const rateLimitsRouter = Router({ mergeParams: true });
+
+// ---------------------------------------------------------------------------
+// GET /services/:resourceId/rate-limits — Effective limits for a resource
+// ---------------------------------------------------------------------------
+
+rateLimitsRouter.get("/", (req: Request, res: Response) => {
+  const resource = getResource(req.params.resourceId);
+  if (!resource) {
+    res.status(404).json({ error: `Resource '${req.params.resourceId}' not found` });
+    return;
+  }
+
+  const windowMs = config.rateLimitWindowMs;
+  res.json({
+    resourceId: resource.id,
+    perPayer: resource.rateLimits?.perPayer ?? { requests: config.rateLimitPayer, windowMs },
+    perIp: resource.rateLimits?.perIp ?? { requests: 0, windowMs },
+    total: resource.rateLimits?.total ?? { requests: config.rateLimitResource, windowMs },
+    freePerIp: { requests: config.rateLimitFreeIp, windowMs },
+    custom: resource.rateLimits ?? {},
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PUT /services/:resourceId/rate-limits — Owner sets the resource's limits
+// ---------------------------------------------------------------------------
+
+rateLimitsRouter.put("/", ownerAuth(), (req: Request, res: Response) => {
+  const body = req.body as Record<string, Partial<RateLimit> | undefined>;
+  const unknown = Object.keys(body ?? {}).filter((key) => !(SCOPES as readonly string[]).includes(key));
+  if (unknown.length > 0) {
+    res.status(400).json({ error: `Unknown rate limit scope(s): ${unknown.join(", ")}` });
+    return;
+  }
+
+  // Omitted scopes fall back to the proxy defaults
+  const limits: ResourceRateLimits = {};
+  for (const scope of SCOPES) {
+    const limit = body[scope];
+    if (limit === undefined) continue;
+    const error = validateLimit(scope, limit);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    limits[scope] = { requests: limit.requests!, windowMs: limit.windowMs! };
+  }
+
+  const updated = updateResourceRateLimits(req.params.resourceId, limits);
+  if (!updated) {
+    res.status(404).json({ error: `Resource '${req.params.resourceId}' not found` });
+    return;
+  }
+  log.info(`Updated limits for ${updated.id}: ${JSON.stringify(limits)}`);
+  res.json({ resourceId: updated.id, rateLimits: updated.rateLimits });
+});
@@ -0,0 +1,87 @@
+import { Router, type Request, type Response } from "express";
+import {
+  getUsageReceipt,
+  receiptChainId,
+  receiptSignerAddress,
+} from "../services/usageReceipts.js";
+import {
+  recoverUsageReceiptSigner,
+  usageReceiptDigest,
+  usageReceiptDomain,
+  type SignedUsageReceipt,
+} from "../sdk/usageReceipt.js";
+
+const BYTES32_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+export const receiptsRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /receipts/domain — EIP-712 domain and signer to verify receipts with
+// ---------------------------------------------------------------------------
+
+receiptsRouter.get("/domain", (_req: Request, res: Response) => {
+  res.json({
+    domain: usageReceiptDomain(receiptChainId()),
+    signer: receiptSignerAddress() ?? null,
+  });
+});
+
+// ---------------------------------------------------------------------------
+// GET /receipts/:receiptId — A receipt issued by this proxy
+// ---------------------------------------------------------------------------
+
+receiptsRouter.get("/:receiptId", (req: Request, res: Response) => {
+  if (!BYTES32_HEX_PATTERN.test(req.params.receiptId)) {
+    res.status(400).json({ error: "receiptId must be a bytes32 hex string" });
+    return;
+  }
+
+  const signed = getUsageReceipt(req.params.receiptId);
+  if (!signed) {
+    res.status(404).json({ error: `Receipt '${req.params.receiptId}' not found` });
+    return;
+  }
+  res.json({ ...signed, digest: usageReceiptDigest(signed.receipt, receiptChainId()) });
+});
+
+// ---------------------------------------------------------------------------
+// POST /receipts/verify — Check a receipt presented by a payer
+//
+// Body: { receipt, signature } as decoded from X-PragmaMoney-Receipt.
+// `valid` means signed by this proxy's signer; `issued` that the exact
+// receipt is on record here.
+// ---------------------------------------------------------------------------
+
+receiptsRouter.post("/verify", (req: Request, res: Response) => {
+  const body = req.body as Partial<SignedUsageReceipt>;
+  if (!body.receipt || typeof body.receipt !== "object" || typeof body.signature !== "string") {
+    res.status(400).json({ error: "Body must be { receipt, signature }" });
+    return;
+  }
+  const signed = body as SignedUsageReceipt;
+
+  let signer: string;
+  let digest: string;
+  try {
+    signer = recoverUsageReceiptSigner(signed, receiptChainId());
+    digest = usageReceiptDigest(signed.receipt, receiptChainId());
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(400).json({ error: `Malformed receipt: ${message}` });
+    return;
+  }
+
+  const expected = receiptSignerAddress();
+  const stored = getUsageReceipt(String(signed.receipt.receiptId));
+  res.json({
+    valid: !!expected && signer.toLowerCase() === expected.toLowerCase(),
+    signer,
+    expectedSigner: expected ?? null,
+    issued: !!stored && usageReceiptDigest(stored.receipt, receiptChainId()) === digest,
+    digest,
+  });
+});
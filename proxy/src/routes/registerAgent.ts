@@ -1,7 +1,12 @@
 import { Router, type Request, type Response } from "express";
-import { JsonRpcProvider, Wallet, Contract, ethers } from "ethers";
+import { Contract, ethers } from "ethers";
 import { config } from "../config.js";
-import { initDeployerNonce, allocateNonce } from "../services/nonceManager.js";
+import { getDeployerSigner } from "../services/nonceManager.js";
+import { createLogger } from "../services/logger.js";
+
+const finalizeLog = createLogger("register-agent/finalize");
+const fundLog = createLogger("register-agent/fund");
+const setupLog = createLogger("register-agent/setup");
 
 // ---------------------------------------------------------------------------
 // ABIs (human-readable)
@@ -97,8 +102,8 @@ registerAgentRouter.post("/fund", async (req: Request, res: Response) => {
     }
 
     // ---- Set up deployer signer ----
-    const provider = new JsonRpcProvider(config.gatewayRpcUrl);
-    const deployer = new Wallet(config.proxySignerKey, provider);
+    const deployer = await getDeployerSigner();
+    const provider = deployer.provider!;
 
     // ---- Build metadata URI ----
     const metadataURI = JSON.stringify({
@@ -107,14 +112,10 @@ registerAgentRouter.post("/fund", async (req: Request, res: Response) => {
     });
 
     // ---- Send ETH to agent EOA ----
-    const deployerAddress = await deployer.getAddress();
-    await initDeployerNonce(provider, deployerAddress);
-
     const amount = ethers.parseEther(config.fundAmountEoa);
-    const nonce = allocateNonce();
-    console.log(`[register-agent/fund] Sending ${config.fundAmountEoa} ETH to ${operatorAddress}... (nonce=${nonce})`);
+    fundLog.info(`Sending ${config.fundAmountEoa} ETH to ${operatorAddress}...`);
 
-    const fundTx = await deployer.sendTransaction({ to: operatorAddress, value: amount, nonce });
+    const fundTx = await deployer.sendTransaction({ to: operatorAddress, value: amount });
     const fundReceipt = await fundTx.wait();
 
     // ---- Store pending registration ----
@@ -133,8 +134,8 @@ registerAgentRouter.post("/fund", async (req: Request, res: Response) => {
       createdAt: Date.now(),
     });
 
-    console.log(
-      `[register-agent/fund] Funded ${operatorAddress}, tx=${fundReceipt!.hash}`,
+    fundLog.info(
+      `Funded ${operatorAddress}, tx=${fundReceipt!.hash}`,
     );
 
     res.json({
@@ -145,7 +146,7 @@ registerAgentRouter.post("/fund", async (req: Request, res: Response) => {
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[register-agent/fund] Error:", message);
+    fundLog.error("Fund phase failed", { error: message });
     res.status(500).json({ error: "Fund phase failed", details: message });
   }
 });
@@ -184,8 +185,8 @@ registerAgentRouter.post("/setup", async (req: Request, res: Response) => {
     }
 
     // ---- Set up deployer signer ----
-    const provider = new JsonRpcProvider(config.gatewayRpcUrl);
-    const deployer = new Wallet(config.proxySignerKey, provider);
+    const deployer = await getDeployerSigner();
+    const provider = deployer.provider!;
     const deployerAddress = await deployer.getAddress();
 
     // ---- Verify NFT ownership on-chain ----
@@ -207,7 +208,7 @@ registerAgentRouter.post("/setup", async (req: Request, res: Response) => {
       } catch {
         if (attempt < 4) {
           const delayMs = 2000 * (attempt + 1);
-          console.log(`[register-agent/setup] ownerOf(${agentId}) not found yet, retrying in ${delayMs}ms (attempt ${attempt + 1}/5)...`);
+          setupLog.info(`ownerOf(${agentId}) not found yet, retrying in ${delayMs}ms (attempt ${attempt + 1}/5)...`);
           await new Promise((r) => setTimeout(r, delayMs));
         }
       }
@@ -228,11 +229,8 @@ registerAgentRouter.post("/setup", async (req: Request, res: Response) => {
     const agentIdBytes32 = ethers.zeroPadValue(ethers.toBeHex(agentIdBigInt), 32);
     const txHashes: Record<string, string> = {};
 
-    await initDeployerNonce(provider, deployerAddress);
-
     // ---- Step 1: Deploy smart account ----
-    const n1 = allocateNonce();
-    console.log(`[register-agent/setup] Creating smart account for agentId=${agentId}... (nonce=${n1})`);
+    setupLog.info(`Creating smart account for agentId=${agentId}...`);
     const factory = new Contract(
       config.agentAccountFactoryAddress,
       AGENT_ACCOUNT_FACTORY_ABI,
@@ -248,29 +246,28 @@ registerAgentRouter.post("/setup", async (req: Request, res: Response) => {
       agentIdBytes32,
       dailyLimitWei,
       expiresAtUnix,
-      { nonce: n1 },
     );
     const createReceipt = await createTx.wait();
     txHashes.createAccount = createReceipt.hash;
 
     // Compute smart account address
     const smartAccountAddress: string = await factory["getAddress(address,bytes32)"](deployerAddress, agentIdBytes32);
-    console.log(`[register-agent/setup] Smart account: ${smartAccountAddress}, tx=${createReceipt.hash}`);
+    setupLog.info(`Smart account: ${smartAccountAddress}, tx=${createReceipt.hash}`);
 
     // NOTE: No per-agent setTargetAllowed/setTokenAllowed calls needed here!
     // All system contracts (gateway, USDC, serviceRegistry, uniswapRouter, tokens, reputationReporter)
     // are now globally trusted on AgentAccountFactory. Only the per-agent pool address
     // (created in /finalize) needs individual allowlisting.
 
-    console.log(`[register-agent/setup] System targets are globally trusted, no per-agent setup needed.`);
+    setupLog.info(`System targets are globally trusted, no per-agent setup needed.`);
 
     // Store smart account address for /finalize phase
     pending.smartAccountAddress = smartAccountAddress;
 
     const deadline = Math.floor(Date.now() / 1000) + 270;
 
-    console.log(
-      `[register-agent/setup] Setup complete for agentId=${agentId}, smartAccount=${smartAccountAddress}`,
+    setupLog.info(
+      `Setup complete for agentId=${agentId}, smartAccount=${smartAccountAddress}`,
     );
 
     res.json({
@@ -282,7 +279,7 @@ registerAgentRouter.post("/setup", async (req: Request, res: Response) => {
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[register-agent/setup] Error:", message);
+    setupLog.error("Setup phase failed", { error: message });
     res.status(500).json({ error: "Setup phase failed", details: message });
   }
 });
@@ -327,8 +324,8 @@ registerAgentRouter.post("/finalize", async (req: Request, res: Response) => {
     const smartAccountAddress = pending.smartAccountAddress;
 
     // ---- Set up deployer signer ----
-    const provider = new JsonRpcProvider(config.gatewayRpcUrl);
-    const deployer = new Wallet(config.proxySignerKey, provider);
+    const deployer = await getDeployerSigner();
+    const provider = deployer.provider!;
     const deployerAddress = await deployer.getAddress();
 
     // ---- Verify agentWallet is set to smart account ----
@@ -355,7 +352,7 @@ registerAgentRouter.post("/finalize", async (req: Request, res: Response) => {
       }
       if (attempt < 4) {
         const delayMs = 2000 * (attempt + 1);
-        console.log(`[register-agent/finalize] agentWallet not set yet, retrying in ${delayMs}ms (attempt ${attempt + 1}/5)...`);
+        finalizeLog.info(`agentWallet not set yet, retrying in ${delayMs}ms (attempt ${attempt + 1}/5)...`);
         await new Promise((r) => setTimeout(r, delayMs));
       }
     }
@@ -369,11 +366,8 @@ registerAgentRouter.post("/finalize", async (req: Request, res: Response) => {
 
     const txHashes: Record<string, string> = {};
 
-    await initDeployerNonce(provider, deployerAddress);
-
     // ---- Step 1: Create agent pool ----
-    const n1 = allocateNonce();
-    console.log(`[register-agent/finalize] Creating agent pool for agentId=${agentId}... (nonce=${n1})`);
+    finalizeLog.info(`Creating agent pool for agentId=${agentId}...`);
     const agentPoolFactory = new Contract(
       config.agentPoolFactoryAddress,
       AGENT_POOL_FACTORY_ABI,
@@ -395,7 +389,6 @@ registerAgentRouter.post("/finalize", async (req: Request, res: Response) => {
       agentIdBigInt,
       smartAccountAddress,
       poolParams,
-      { nonce: n1 },
     );
     const poolReceipt = await createPoolTx.wait();
     txHashes.createPool = poolReceipt.hash;
@@ -414,31 +407,29 @@ registerAgentRouter.post("/finalize", async (req: Request, res: Response) => {
 
     // ---- Step 2: Allow pool as target on smart account ----
     if (poolAddress) {
-      const n2 = allocateNonce();
-      console.log(`[register-agent/finalize] Allowing pool ${poolAddress} as target... (nonce=${n2})`);
+      finalizeLog.info(`Allowing pool ${poolAddress} as target...`);
       const smartAccount = new Contract(
         smartAccountAddress,
         AGENT_SMART_ACCOUNT_ABI,
         deployer,
       );
-      const allowPoolTx = await smartAccount.setTargetAllowed(poolAddress, true, { nonce: n2 });
+      const allowPoolTx = await smartAccount.setTargetAllowed(poolAddress, true);
       await allowPoolTx.wait();
     }
 
     // ---- Step 3: Fund smart account with ETH for self-pay UserOps ----
     // Note: AgentFactory.createAgentPool already registered the smart account as a reporter
     const fundAmount = ethers.parseEther(config.fundAmountEoa);
-    const n3 = allocateNonce();
-    console.log(`[register-agent/finalize] Funding smart account ${smartAccountAddress} with ${config.fundAmountEoa} ETH... (nonce=${n3})`);
-    const fundSmartAccTx = await deployer.sendTransaction({ to: smartAccountAddress, value: fundAmount, nonce: n3 });
+    finalizeLog.info(`Funding smart account ${smartAccountAddress} with ${config.fundAmountEoa} ETH...`);
+    const fundSmartAccTx = await deployer.sendTransaction({ to: smartAccountAddress, value: fundAmount });
     const fundSmartAccReceipt = await fundSmartAccTx.wait();
     txHashes.fundSmartAccount = fundSmartAccReceipt!.hash;
 
     // ---- Cleanup ----
     pendingRegistrations.delete(key);
 
-    console.log(
-      `[register-agent/finalize] Done: agentId=${agentId}, pool=${poolAddress}`,
+    finalizeLog.info(
+      `Done: agentId=${agentId}, pool=${poolAddress}`,
     );
 
     res.json({
@@ -449,7 +440,7 @@ registerAgentRouter.post("/finalize", async (req: Request, res: Response) => {
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[register-agent/finalize] Error:", message);
+    finalizeLog.error("Finalize phase failed", { error: message });
     res.status(500).json({ error: "Finalize phase failed", details: message });
   }
 });
@@ -1,8 +1,12 @@
 import { Router, type Request, type Response } from "express";
-import { JsonRpcProvider, Contract } from "ethers";
+import { Contract } from "ethers";
 import { config } from "../config.js";
+import { getNetworkProvider } from "../services/chainClient.js";
 import { registerResource } from "../services/resourceStore.js";
 import type { ServiceType } from "../types/x402.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("register-service");
 
 // ---------------------------------------------------------------------------
 // ABI (human-readable) — read-only, just getService
@@ -55,11 +59,10 @@ registerServiceRouter.post("/", async (req: Request, res: Response) => {
     }
 
     // Read service from on-chain ServiceRegistry
-    const provider = new JsonRpcProvider(config.gatewayRpcUrl);
     const registry = new Contract(
       config.serviceRegistryAddress,
       SERVICE_REGISTRY_ABI,
-      provider,
+      getNetworkProvider(config.networks[config.homeNetwork]),
     );
 
     let service: {
@@ -102,10 +105,11 @@ registerServiceRouter.post("/", async (req: Request, res: Response) => {
         pricePerCall: service.pricePerCall.toString(),
         currency: "USDC",
       },
+      serviceId,
     });
 
-    console.log(
-      `[register-service] Registered service ${service.name} (${serviceId}) → proxy ${resource.proxyUrl}`,
+    log.info(
+      `Registered service ${service.name} (${serviceId}) → proxy ${resource.proxyUrl}`,
     );
 
     res.status(201).json({
@@ -117,7 +121,7 @@ registerServiceRouter.post("/", async (req: Request, res: Response) => {
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
-    console.error("[register-service] Error:", message);
+    log.error("Registration failed", { error: message });
     res.status(500).json({ error: "Service registration failed", details: message });
   }
 });
@@ -0,0 +1,35 @@
+import { Router, type Request, type Response } from "express";
+import { getRegistrySyncStatus, syncRegistry } from "../services/registrySync.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("registry-sync");
+
+// ---------------------------------------------------------------------------
+// Router (mounted behind adminAuth)
+// ---------------------------------------------------------------------------
+
+export const registrySyncRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /admin/registry-sync — Sync status and on-chain services with no
+// proxy resource yet
+// ---------------------------------------------------------------------------
+
+registrySyncRouter.get("/", (_req: Request, res: Response) => {
+  res.json(getRegistrySyncStatus());
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/registry-sync — Walk the whole registry now
+// ---------------------------------------------------------------------------
+
+registrySyncRouter.post("/", async (_req: Request, res: Response) => {
+  try {
+    await syncRegistry(true);
+    res.json(getRegistrySyncStatus());
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error("Sync failed", { error: message });
+    res.status(502).json({ error: "Registry sync failed", details: message });
+  }
+});
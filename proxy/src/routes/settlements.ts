@@ -0,0 +1,62 @@
+import { Router, type Request, type Response } from "express";
+import {
+  listSettlements,
+  getSettlement,
+  replaySettlement,
+} from "../services/settlementQueue.js";
+import type { SettlementStatus } from "../types/x402.js";
+
+const SETTLEMENT_STATUSES: SettlementStatus[] = ["pending", "processing", "completed", "dead"];
+
+// ---------------------------------------------------------------------------
+// Router (mounted behind adminAuth)
+// ---------------------------------------------------------------------------
+
+export const settlementsRouter = Router();
+
+// ---------------------------------------------------------------------------
+// GET /admin/settlements — List settlements, optionally filtered by status
+// ---------------------------------------------------------------------------
+
+settlementsRouter.get("/", (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  if (status !== undefined && !SETTLEMENT_STATUSES.includes(status as SettlementStatus)) {
+    res.status(400).json({ error: `status must be one of: ${SETTLEMENT_STATUSES.join(", ")}` });
+    return;
+  }
+
+  const settlements = listSettlements(status as SettlementStatus | undefined);
+  res.json({ total: settlements.length, settlements });
+});
+
+// ---------------------------------------------------------------------------
+// GET /admin/settlements/:id — Inspect a single settlement
+// ---------------------------------------------------------------------------
+
+settlementsRouter.get("/:id", (req: Request, res: Response) => {
+  const settlement = getSettlement(req.params.id);
+  if (!settlement) {
+    res.status(404).json({ error: `Settlement '${req.params.id}' not found` });
+    return;
+  }
+  res.json(settlement);
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/settlements/:id/replay — Re-queue a dead or backing-off job
+// ---------------------------------------------------------------------------
+
+settlementsRouter.post("/:id/replay", (req: Request, res: Response) => {
+  const existing = getSettlement(req.params.id);
+  if (!existing) {
+    res.status(404).json({ error: `Settlement '${req.params.id}' not found` });
+    return;
+  }
+
+  const settlement = replaySettlement(req.params.id);
+  if (!settlement) {
+    res.status(409).json({ error: `Settlement '${req.params.id}' is ${existing.status} and cannot be replayed` });
+    return;
+  }
+  res.json(settlement);
+});
@@ -0,0 +1,102 @@
+import { Router, type Request, type Response } from "express";
+import { queryTransactions } from "../services/transactionStore.js";
+import type {
+  PaymentMethod,
+  TransactionStatus,
+  TransactionQuery,
+} from "../types/x402.js";
+
+const PAYMENT_METHODS: PaymentMethod[] = ["x402", "gateway"];
+const TRANSACTION_STATUSES: TransactionStatus[] = ["pending", "verified", "settled", "failed", "refunded"];
+const FILTER_KEYS = ["resourceId", "payer", "method", "status", "from", "to", "limit", "offset"] as const;
+
+type Filters = Partial<Record<(typeof FILTER_KEYS)[number], string>>;
+
+// ---------------------------------------------------------------------------
+// Router
+// ---------------------------------------------------------------------------
+
+export const transactionsRouter = Router();
+
+/**
+ * Read the ledger filters from the query string. Returns the name of the
+ * first filter that is not a single string (repeated `?payer=a&payer=b`
+ * arrives as an array, `?payer[x]=a` as an object).
+ */
+function readFilters(query: Request["query"]): { filters: Filters } | { invalid: string } {
+  const filters: Filters = {};
+  for (const key of FILTER_KEYS) {
+    const raw = query[key];
+    if (raw === undefined) continue;
+    if (typeof raw !== "string") return { invalid: key };
+    filters[key] = raw;
+  }
+  return { filters };
+}
+
+/**
+ * Parse a time bound given either as unix milliseconds or an ISO-8601 date.
+ * Returns NaN for unparseable input.
+ */
+function parseTime(raw: string): number {
+  return /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+}
+
+// ---------------------------------------------------------------------------
+// GET /transactions — Query the payment ledger
+//
+// Query: resourceId, payer, method, status, from, to, limit, offset
+// `from` / `to` accept unix milliseconds or ISO-8601 dates.
+// ---------------------------------------------------------------------------
+
+transactionsRouter.get("/", (req: Request, res: Response) => {
+  const read = readFilters(req.query);
+  if ("invalid" in read) {
+    res.status(400).json({ error: `${read.invalid} must be given once, as a plain value` });
+    return;
+  }
+  const q = read.filters;
+  const query: TransactionQuery = {
+    resourceId: q.resourceId,
+    payer: q.payer,
+  };
+
+  if (q.method !== undefined) {
+    if (!PAYMENT_METHODS.includes(q.method as PaymentMethod)) {
+      res.status(400).json({ error: `method must be one of: ${PAYMENT_METHODS.join(", ")}` });
+      return;
+    }
+    query.method = q.method as PaymentMethod;
+  }
+
+  if (q.status !== undefined) {
+    if (!TRANSACTION_STATUSES.includes(q.status as TransactionStatus)) {
+      res.status(400).json({ error: `status must be one of: ${TRANSACTION_STATUSES.join(", ")}` });
+      return;
+    }
+    query.status = q.status as TransactionStatus;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const raw = q[key];
+    if (raw === undefined) continue;
+    const value = parseTime(raw);
+    if (Number.isNaN(value)) {
+      res.status(400).json({ error: `${key} must be unix milliseconds or an ISO-8601 date` });
+      return;
+    }
+    query[key] = value;
+  }
+
+  for (const key of ["limit", "offset"] as const) {
+    const raw = q[key];
+    if (raw === undefined) continue;
+    if (!/^\d+$/.test(raw)) {
+      res.status(400).json({ error: `${key} must be a non-negative integer` });
+      return;
+    }
+    query[key] = Number(raw);
+  }
+
+  res.json(queryTransactions(query));
+});
@@ -0,0 +1,160 @@
+import { Router, type Request, type Response } from "express";
+import { ownerAuth } from "../middleware/ownerAuth.js";
+import { isVaultConfigured } from "../services/secretVault.js";
+import {
+  MAX_WEBHOOKS_PER_RESOURCE,
+  WEBHOOK_EVENT_TYPES,
+  createWebhook,
+  deleteWebhook,
+  getWebhook,
+  getWebhookDelivery,
+  listWebhookDeliveries,
+  listWebhooks,
+  redeliverWebhook,
+  rotateWebhookSecret,
+  toPublicWebhook,
+} from "../services/webhooks.js";
+import type { WebhookDeliveryStatus, WebhookEventType } from "../types/x402.js";
+import { createLogger } from "../services/logger.js";
+
+const log = createLogger("webhooks");
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["pending", "delivered", "failed"];
+const MAX_DELIVERIES_RETURNED = 100;
+
+/** Validate a webhook URL. Returns an error message, or null. */
+function validateUrl(raw: unknown): string | null {
+  try {
+    const url = new URL(String(raw));
+    if (url.protocol !== "https:" && url.protocol !== "http:") throw new Error();
+    if (url.username || url.password) return "url must not contain credentials";
+    return null;
+  } catch {
+    return "url must be an http(s) URL";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Router (mounted at /services/:resourceId/webhooks, every route owner-only)
+// ---------------------------------------------------------------------------
+
+export const webhooksRouter = Router({ mergeParams: true });
+
+webhooksRouter.use(ownerAuth());
+
+// ---------------------------------------------------------------------------
+// GET /services/:resourceId/webhooks — List a resource's webhooks
+// ---------------------------------------------------------------------------
+
+webhooksRouter.get("/", (req: Request, res: Response) => {
+  const webhooks = listWebhooks(req.params.resourceId).map(toPublicWebhook);
+  res.json({ resourceId: req.params.resourceId, webhooks });
+});
+
+// ---------------------------------------------------------------------------
+// POST /services/:resourceId/webhooks — Register a webhook. The signing
+// secret is returned once and never shown again.
+// ---------------------------------------------------------------------------
+
+webhooksRouter.post("/", (req: Request, res: Response) => {
+  const body = req.body as { url?: string; events?: WebhookEventType[] };
+  const urlError = validateUrl(body.url);
+  if (urlError) {
+    res.status(400).json({ error: urlError });
+    return;
+  }
+
+  const events = body.events ?? WEBHOOK_EVENT_TYPES;
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.some((e) => !WEBHOOK_EVENT_TYPES.includes(e))
+  ) {
+    res.status(400).json({ error: `events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(", ")}` });
+    return;
+  }
+
+  if (listWebhooks(req.params.resourceId).length >= MAX_WEBHOOKS_PER_RESOURCE) {
+    res.status(409).json({ error: `A resource can have at most ${MAX_WEBHOOKS_PER_RESOURCE} webhooks` });
+    return;
+  }
+  if (!isVaultConfigured()) {
+    res.status(500).json({ error: "SECRETS_MASTER_KEY not configured on server; cannot store webhook secret" });
+    return;
+  }
+
+  const { webhook, secret } = createWebhook(req.params.resourceId, body.url!, Array.from(new Set(events)));
+  log.info(`${webhook.resourceId}: registered webhook ${webhook.id} → ${webhook.url}`);
+  res.status(201).json({ ...toPublicWebhook(webhook), secret });
+});
+
+// ---------------------------------------------------------------------------
+// GET /services/:resourceId/webhooks/deliveries — Delivery log, newest first
+//
+// Query: webhookId, status (pending|delivered|failed)
+// ---------------------------------------------------------------------------
+
+webhooksRouter.get("/deliveries", (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+    res.status(400).json({ error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` });
+    return;
+  }
+
+  const deliveries = listWebhookDeliveries(req.params.resourceId, {
+    webhookId: req.query.webhookId as string | undefined,
+    status: status as WebhookDeliveryStatus | undefined,
+  });
+  res.json({ total: deliveries.length, deliveries: deliveries.slice(0, MAX_DELIVERIES_RETURNED) });
+});
+
+// ---------------------------------------------------------------------------
+// POST /services/:resourceId/webhooks/deliveries/:deliveryId/redeliver
+// ---------------------------------------------------------------------------
+
+webhooksRouter.post("/deliveries/:deliveryId/redeliver", (req: Request, res: Response) => {
+  const existing = getWebhookDelivery(req.params.resourceId, req.params.deliveryId);
+  if (!existing) {
+    res.status(404).json({ error: `Delivery '${req.params.deliveryId}' not found` });
+    return;
+  }
+
+  const delivery = redeliverWebhook(req.params.resourceId, req.params.deliveryId);
+  if (!delivery) {
+    res.status(409).json({ error: `Webhook '${existing.webhookId}' was removed; delivery cannot be resent` });
+    return;
+  }
+  res.json(delivery);
+});
+
+// ---------------------------------------------------------------------------
+// POST /services/:resourceId/webhooks/:webhookId/rotate-secret
+// ---------------------------------------------------------------------------
+
+webhooksRouter.post("/:webhookId/rotate-secret", (req: Request, res: Response) => {
+  if (!getWebhook(req.params.resourceId, req.params.webhookId)) {
+    res.status(404).json({ error: `Webhook '${req.params.webhookId}' not found` });
+    return;
+  }
+  if (!isVaultConfigured()) {
+    res.status(500).json({ error: "SECRETS_MASTER_KEY not configured on server; cannot store webhook secret" });
+    return;
+  }
+
+  const { webhook, secret } = rotateWebhookSecret(req.params.resourceId, req.params.webhookId)!;
+  log.info(`${webhook.resourceId}: rotated secret of webhook ${webhook.id}`);
+  res.json({ ...toPublicWebhook(webhook), secret });
+});
+
+// ---------------------------------------------------------------------------
+// DELETE /services/:resourceId/webhooks/:webhookId
+// ---------------------------------------------------------------------------
+
+webhooksRouter.delete("/:webhookId", (req: Request, res: Response) => {
+  if (!deleteWebhook(req.params.resourceId, req.params.webhookId)) {
+    res.status(404).json({ error: `Webhook '${req.params.webhookId}' not found` });
+    return;
+  }
+  log.info(`${req.params.resourceId}: removed webhook ${req.params.webhookId}`);
+  res.json({ deleted: req.params.webhookId });
+});
@@ -0,0 +1,95 @@
+import { ethers } from "ethers";
+
+/**
+ * EIP-712 usage receipts, for payers.
+ *
+ * Every paid call answered through the proxy carries
+ *   X-PragmaMoney-Receipt: base64url(JSON { receipt, signature })
+ * where `signature` is the proxy signer's EIP-712 signature over `receipt`
+ * (domain: usageReceiptDomain(chainId) of the proxy's home network).
+ * Store it as proof of purchase: it can be checked with
+ * `recoverUsageReceiptSigner`, looked up at GET /receipts/:receiptId, and its
+ * `usageReceiptDigest` used as the `feedbackHash` when leaving feedback
+ * through ReputationReporter.
+ *
+ * This file only depends on ethers, so it can be copied into a client as-is.
+ */
+
+export const RECEIPT_HEADER = "x-pragmamoney-receipt";
+
+export interface UsageReceipt {
+  /** Random bytes32, unique per receipt. */
+  receiptId: string;
+  resourceId: string;
+  payer: string;
+  /** Atomic USDC actually charged for this call ("0" if it was not charged or refunded). */
+  amount: string;
+  network: string;
+  /** "x402" or "gateway". */
+  method: string;
+  /** The EIP-3009 / permit nonce for x402, the gateway paymentId for gateway payments. */
+  paymentRef: string;
+  /** Settlement transaction, or the zero hash when none was sent for this call. */
+  txHash: string;
+  /** hashReceiptRequest() of the call. */
+  requestHash: string;
+  /** HTTP status the upstream answered with (502 if it could not be reached). */
+  upstreamStatus: number;
+  /** Unix seconds. */
+  timestamp: number;
+}
+
+export interface SignedUsageReceipt {
+  receipt: UsageReceipt;
+  signature: string;
+}
+
+export const USAGE_RECEIPT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  UsageReceipt: [
+    { name: "receiptId", type: "bytes32" },
+    { name: "resourceId", type: "string" },
+    { name: "payer", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "network", type: "string" },
+    { name: "method", type: "string" },
+    { name: "paymentRef", type: "string" },
+    { name: "txHash", type: "bytes32" },
+    { name: "requestHash", type: "bytes32" },
+    { name: "upstreamStatus", type: "uint16" },
+    { name: "timestamp", type: "uint64" },
+  ],
+};
+
+export function usageReceiptDomain(chainId: number): ethers.TypedDataDomain {
+  return { name: "PragmaMoney Receipt", version: "1", chainId };
+}
+
+/**
+ * Hash identifying the paid request: keccak256 of
+ * `METHOD path?query` (the proxy URL, e.g. "/proxy/<id>/v1/chat"), a newline
+ * and the request body. Only JSON bodies are hashed; other bodies are
+ * streamed to the upstream unread and count as empty.
+ */
+export function hashReceiptRequest(method: string, url: string, body?: Uint8Array): string {
+  return ethers.keccak256(
+    ethers.concat([ethers.toUtf8Bytes(`${method.toUpperCase()} ${url}\n`), body ?? new Uint8Array()])
+  );
+}
+
+/** EIP-712 digest of a receipt (usable as a ReputationReporter feedbackHash). */
+export function usageReceiptDigest(receipt: UsageReceipt, chainId: number): string {
+  return ethers.TypedDataEncoder.hash(usageReceiptDomain(chainId), USAGE_RECEIPT_TYPES, receipt);
+}
+
+/** Address that signed a receipt; compare it with the proxy signer. */
+export function recoverUsageReceiptSigner(signed: SignedUsageReceipt, chainId: number): string {
+  return ethers.verifyTypedData(usageReceiptDomain(chainId), USAGE_RECEIPT_TYPES, signed.receipt, signed.signature);
+}
+
+export function encodeReceiptHeader(signed: SignedUsageReceipt): string {
+  return Buffer.from(JSON.stringify(signed), "utf-8").toString("base64url");
+}
+
+export function decodeReceiptHeader(value: string): SignedUsageReceipt {
+  return JSON.parse(Buffer.from(value, "base64url").toString("utf-8")) as SignedUsageReceipt;
+}
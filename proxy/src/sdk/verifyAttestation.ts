@@ -0,0 +1,168 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { ethers } from "ethers";
+
+/**
+ * Verification of PragmaMoney proxy attestations, for upstream services.
+ *
+ * Every paid request the proxy forwards carries two headers:
+ *   X-PragmaMoney-Attestation: base64url(JSON claims, see AttestationClaims)
+ *   X-PragmaMoney-Signature:   "hmac-sha256:<hex>"  (per-resource secret)
+ *                            | "eip191:<0x signature>" (proxy signer)
+ * both computed over the attestation header value.
+ *
+ * This file only depends on node:crypto, express types and ethers, so it can
+ * be copied into a service as-is:
+ *
+ *   app.use("/chat", requirePragmaPayment({ hmacSecret: process.env.PRAGMA_ATTESTATION_SECRET }));
+ *   app.post("/chat", (req, res) => { const paid = res.locals.pragmaPayment; ... });
+ */
+
+export const ATTESTATION_HEADER = "x-pragmamoney-attestation";
+export const ATTESTATION_SIGNATURE_HEADER = "x-pragmamoney-signature";
+
+export interface AttestationClaims {
+  v: 1;
+  resourceId: string;
+  /** Paying address (x402 signer or gateway payer). */
+  payer: string;
+  /** "x402" (facilitator / upto) or "gateway" (on-chain paymentId). */
+  method: "x402" | "gateway";
+  /** Payment reference: the EIP-3009 / permit nonce for x402, the paymentId for gateway payments. */
+  paymentRef: string;
+  /** Settlement transaction, when the payment was settled before forwarding. */
+  txHash?: string;
+  /** Atomic USDC paid for this call (for metered calls, the authorized maximum). */
+  amount: string;
+  network: string;
+  /** HTTP method and path (no query string) the upstream is being called with. */
+  httpMethod: string;
+  path: string;
+  /** Unix seconds. */
+  timestamp: number;
+  /** Random per request, for replay protection. */
+  nonce: string;
+}
+
+export interface VerifyAttestationOptions {
+  /** Per-resource secret for "hmac-sha256" signatures. */
+  hmacSecret?: string;
+  /** Proxy signer address (GET /services/:id/attestation) for "eip191" signatures. */
+  proxySigner?: string;
+  /** Reject attestations older than this (default 300 s). */
+  maxAgeSeconds?: number;
+  /** Only accept attestations for this resource. */
+  resourceId?: string;
+}
+
+export type VerifyAttestationResult =
+  | { valid: true; claims: AttestationClaims }
+  | { valid: false; reason: string };
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** Encode claims into the attestation header value. */
+export function encodeAttestation(claims: AttestationClaims): string {
+  return Buffer.from(JSON.stringify(claims), "utf-8").toString("base64url");
+}
+
+/** HMAC-SHA256 signature header value for an attestation. */
+export function hmacAttestationSignature(attestation: string, secret: string): string {
+  return `hmac-sha256:${createHmac("sha256", secret).update(attestation).digest("hex")}`;
+}
+
+/**
+ * Check the attestation headers of an incoming request. `method` and `path`
+ * are the request's own, so an attestation cannot be replayed against
+ * another endpoint.
+ */
+export function verifyAttestation(
+  headers: IncomingHttpHeaders,
+  request: { method: string; path: string },
+  options: VerifyAttestationOptions
+): VerifyAttestationResult {
+  const attestation = header(headers, ATTESTATION_HEADER);
+  const signature = header(headers, ATTESTATION_SIGNATURE_HEADER);
+  if (!attestation || !signature) return { valid: false, reason: "missing_attestation" };
+
+  const separator = signature.indexOf(":");
+  const scheme = signature.slice(0, separator);
+  const value = signature.slice(separator + 1);
+
+  if (scheme === "hmac-sha256") {
+    if (!options.hmacSecret) return { valid: false, reason: "hmac_not_configured" };
+    const expected = Buffer.from(hmacAttestationSignature(attestation, options.hmacSecret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return { valid: false, reason: "invalid_signature" };
+    }
+  } else if (scheme === "eip191") {
+    if (!options.proxySigner) return { valid: false, reason: "eip191_not_configured" };
+    try {
+      if (ethers.verifyMessage(attestation, value).toLowerCase() !== options.proxySigner.toLowerCase()) {
+        return { valid: false, reason: "invalid_signature" };
+      }
+    } catch {
+      return { valid: false, reason: "invalid_signature" };
+    }
+  } else {
+    return { valid: false, reason: "unsupported_signature_scheme" };
+  }
+
+  let claims: AttestationClaims;
+  try {
+    claims = JSON.parse(Buffer.from(attestation, "base64url").toString("utf-8")) as AttestationClaims;
+  } catch {
+    return { valid: false, reason: "malformed_attestation" };
+  }
+
+  if (claims.v !== 1) return { valid: false, reason: "unsupported_version" };
+  const age = Math.floor(Date.now() / 1000) - claims.timestamp;
+  if (!(age <= (options.maxAgeSeconds ?? 300) && age >= -60)) return { valid: false, reason: "expired" };
+  if (options.resourceId && claims.resourceId !== options.resourceId) {
+    return { valid: false, reason: "resource_mismatch" };
+  }
+  if (claims.httpMethod.toUpperCase() !== request.method.toUpperCase() || claims.path !== request.path) {
+    return { valid: false, reason: "request_mismatch" };
+  }
+  return { valid: true, claims };
+}
+
+/**
+ * Express middleware that rejects requests without a valid attestation
+ * (401) and rejects replays of one already seen (409). Verified claims are
+ * put on `res.locals.pragmaPayment`.
+ */
+export function requirePragmaPayment(options: VerifyAttestationOptions): RequestHandler {
+  const maxAgeMs = (options.maxAgeSeconds ?? 300) * 1000;
+  const seen = new Map<string, number>();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // req.originalUrl keeps the mount path that req.path drops
+    const path = req.originalUrl.split("?")[0];
+    const result = verifyAttestation(req.headers, { method: req.method, path }, options);
+    if (!result.valid) {
+      res.status(401).json({ error: "Payment attestation required", reason: result.reason });
+      return;
+    }
+
+    const now = Date.now();
+    if (seen.size > 1000) {
+      for (const [nonce, expiresAt] of seen) {
+        if (expiresAt <= now) seen.delete(nonce);
+      }
+    }
+    if (seen.has(result.claims.nonce)) {
+      res.status(409).json({ error: "Payment attestation already used" });
+      return;
+    }
+    seen.set(result.claims.nonce, now + maxAgeMs + 60_000);
+
+    res.locals.pragmaPayment = result.claims;
+    next();
+  };
+}
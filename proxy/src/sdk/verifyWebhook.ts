@@ -0,0 +1,69 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Verification of PragmaMoney payment webhooks, for service owners.
+ *
+ * Each delivery is a JSON POST carrying:
+ *   X-PragmaMoney-Event:     event type, e.g. "payment.settled"
+ *   X-PragmaMoney-Delivery:  delivery id (stable across retries)
+ *   X-PragmaMoney-Webhook-Signature: "t=<unix seconds>,v1=<hex>"
+ * where v1 = HMAC-SHA256(secret, "<t>.<raw body>") and the secret is the one
+ * returned when the webhook was registered.
+ *
+ * This file only depends on node:crypto, so it can be copied into a
+ * receiver as-is. Verify against the raw body, before JSON parsing:
+ *
+ *   app.post("/hooks/pragma", express.raw({ type: "application/json" }), (req, res) => {
+ *     const result = verifyWebhookSignature(req.body, req.header(WEBHOOK_SIGNATURE_HEADER), secret);
+ *     ...
+ *   });
+ */
+
+export const WEBHOOK_EVENT_HEADER = "x-pragmamoney-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-pragmamoney-delivery";
+export const WEBHOOK_SIGNATURE_HEADER = "x-pragmamoney-webhook-signature";
+
+export type VerifyWebhookResult = { valid: true } | { valid: false; reason: string };
+
+/** Signature header value for a body, signed at `timestamp` (unix seconds). */
+export function signWebhookPayload(body: string | Buffer, secret: string, timestamp: number): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a delivery's signature header against its raw body. Deliveries
+ * signed more than `maxAgeSeconds` (default 300) ago are rejected, so a
+ * captured request cannot be replayed later.
+ */
+export function verifyWebhookSignature(
+  body: string | Buffer,
+  signatureHeader: string | undefined,
+  secret: string,
+  maxAgeSeconds = 300
+): VerifyWebhookResult {
+  if (!signatureHeader) return { valid: false, reason: "missing_signature" };
+
+  const parts = new Map<string, string>();
+  for (const part of signatureHeader.split(",")) {
+    const separator = part.indexOf("=");
+    if (separator > 0) parts.set(part.slice(0, separator).trim(), part.slice(separator + 1).trim());
+  }
+  const timestamp = Number(parts.get("t"));
+  if (!Number.isInteger(timestamp) || !parts.get("v1")) {
+    return { valid: false, reason: "malformed_signature" };
+  }
+
+  const age = Math.floor(Date.now() / 1000) - timestamp;
+  if (!(age <= maxAgeSeconds && age >= -60)) return { valid: false, reason: "expired" };
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp));
+  const actual = Buffer.from(`t=${timestamp},v1=${parts.get("v1")}`);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+  return { valid: true };
+}
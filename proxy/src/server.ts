@@ -1,14 +1,31 @@
 import { app } from "./app.js";
-import { config } from "./config.js";
+import { config, configWarnings } from "./config.js";
+import { createLogger } from "./services/logger.js";
+import { startSettlementWorker } from "./services/settlementQueue.js";
+import { startAccrualFlusher } from "./services/revenueAccrual.js";
+import { startHealthChecks } from "./services/upstreamHealth.js";
+import { startRegistrySync } from "./services/registrySync.js";
+import { startChainIndexer } from "./services/chainIndexer.js";
+import { startWebhookWorker } from "./services/webhooks.js";
+import { startNonceMonitor } from "./services/nonceManager.js";
+
+const log = createLogger("server");
+
+for (const warning of configWarnings) log.warn(warning);
 
 app.listen(config.port, () => {
-  console.log(`
-  ================================================
-   PragmaMoney x402 Proxy Server
-   Port:       ${config.port}
-   Gateway:    ${config.gatewayAddress}
-   RPC:        ${config.gatewayRpcUrl}
-   Facilitator:${config.facilitatorUrl}
-  ================================================
-  `);
+  log.info("PragmaMoney x402 proxy listening", {
+    port: config.port,
+    gateway: config.gatewayAddress,
+    rpc: config.gatewayRpcUrl,
+    facilitator: config.facilitatorMode === "local" ? "local (in-process)" : config.facilitatorUrl,
+    settlement: config.settlementMode,
+  });
+  startSettlementWorker();
+  startAccrualFlusher();
+  startHealthChecks();
+  startRegistrySync();
+  startChainIndexer();
+  startWebhookWorker();
+  startNonceMonitor();
 });
@@ -0,0 +1,100 @@
+import { randomBytes } from "node:crypto";
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { decryptSecret } from "./secretVault.js";
+import {
+  ATTESTATION_HEADER,
+  ATTESTATION_SIGNATURE_HEADER,
+  encodeAttestation,
+  hmacAttestationSignature,
+  type AttestationClaims,
+} from "../sdk/verifyAttestation.js";
+import type { AttestationMode, AttestedPayment, Resource } from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Signed attestation headers on forwarded paid requests, so upstream
+ * services can check that a call came through the proxy and was paid.
+ * The format and the verifier for service authors live in
+ * sdk/verifyAttestation.ts.
+ */
+
+const log = createLogger("attestation");
+
+let _signer: ethers.Wallet | null = null;
+
+function attestationSigner(): ethers.Wallet {
+  if (!_signer) _signer = new ethers.Wallet(config.proxySignerKey);
+  return _signer;
+}
+
+/** The attestation mode in effect for a resource. */
+export function attestationModeFor(resource: Resource): AttestationMode {
+  return resource.attestation ?? config.attestationMode;
+}
+
+/** Address that signs "eip191" attestations, if a proxy signer is configured. */
+export function attestationSignerAddress(): string | undefined {
+  return config.proxySignerKey ? attestationSigner().address : undefined;
+}
+
+/** A fresh secret for "hmac" attestations. */
+export function generateAttestationSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Headers attesting `payment` for a call to `httpMethod path` on the
+ * upstream. Empty when attestation is off or cannot be produced.
+ */
+export async function attestationHeaders(
+  resource: Resource,
+  payment: AttestedPayment,
+  httpMethod: string,
+  path: string
+): Promise<Record<string, string>> {
+  const mode = attestationModeFor(resource);
+  if (mode === "off") return {};
+
+  const claims: AttestationClaims = {
+    v: 1,
+    resourceId: resource.id,
+    payer: payment.payer,
+    method: payment.method,
+    paymentRef: payment.paymentRef,
+    txHash: payment.txHash,
+    amount: payment.amount,
+    network: payment.network,
+    httpMethod: httpMethod.toUpperCase(),
+    path,
+    timestamp: Math.floor(Date.now() / 1000),
+    nonce: randomBytes(16).toString("hex"),
+  };
+  const attestation = encodeAttestation(claims);
+
+  let signature: string;
+  if (mode === "hmac") {
+    if (!resource.encryptedAttestationSecret) {
+      log.warn(`${resource.id} uses hmac attestation but has no secret; not attesting`);
+      return {};
+    }
+    try {
+      signature = hmacAttestationSignature(attestation, decryptSecret(resource.encryptedAttestationSecret));
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error(`Cannot decrypt attestation secret for ${resource.id}: ${message}`);
+      return {};
+    }
+  } else {
+    if (!config.proxySignerKey) {
+      log.warn(`No PROXY_SIGNER_KEY configured, cannot attest ${resource.id}`);
+      return {};
+    }
+    signature = `eip191:${await attestationSigner().signMessage(attestation)}`;
+  }
+
+  return {
+    [ATTESTATION_HEADER]: attestation,
+    [ATTESTATION_SIGNATURE_HEADER]: signature,
+  };
+}
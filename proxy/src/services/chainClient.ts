@@ -0,0 +1,91 @@
+import { ethers } from "ethers";
+import type { NetworkConfig } from "../config.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Shared read access to the configured networks.
+ *
+ * One provider per network. Its chain id is asked from the RPC once and then
+ * pinned (`staticNetwork`), so ethers does not re-check `eth_chainId` before
+ * every call and a local or custom RPC (e.g. anvil) works under any network
+ * name. Independent view calls against one network can be folded into a
+ * single `eth_call` through Multicall3 (`multicall`).
+ */
+
+const log = createLogger("chainClient");
+
+/** One provider per network name (shared by the gate, facilitators and metrics). */
+const providers = new Map<string, ethers.JsonRpcProvider>();
+const chainIds = new Map<string, bigint>();
+
+export function getNetworkProvider(network: NetworkConfig): ethers.JsonRpcProvider {
+  let provider = providers.get(network.name);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(network.rpcUrl, undefined, { staticNetwork: true });
+    providers.set(network.name, provider);
+  }
+  return provider;
+}
+
+/** Chain id as reported by the RPC (detected once per network). */
+export async function getNetworkChainId(network: NetworkConfig): Promise<bigint> {
+  let chainId = chainIds.get(network.name);
+  if (chainId === undefined) {
+    chainId = (await getNetworkProvider(network).getNetwork()).chainId;
+    if (chainId !== BigInt(network.chainId)) {
+      log.warn("RPC chain id differs from the network's usual one", {
+        network: network.name,
+        chainId: chainId.toString(),
+        expected: network.chainId,
+      });
+    }
+    chainIds.set(network.name, chainId);
+  }
+  return chainId;
+}
+
+// ---------------------------------------------------------------------------
+// Multicall
+// ---------------------------------------------------------------------------
+
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+const multicallIface = new ethers.Interface(MULTICALL3_ABI);
+
+export interface ViewCall {
+  target: string;
+  iface: ethers.Interface;
+  method: string;
+  args: unknown[];
+}
+
+function decodeResult(call: ViewCall, data: string): ethers.Result {
+  return call.iface.decodeFunctionResult(call.method, data);
+}
+
+/**
+ * Run view calls in one round trip through the network's Multicall3
+ * contract. Without one (`multicallAddress` empty) the calls are sent
+ * individually, in parallel. Rejects if any call reverts.
+ */
+export async function multicall(network: NetworkConfig, calls: ViewCall[]): Promise<ethers.Result[]> {
+  const provider = getNetworkProvider(network);
+  const encoded = calls.map((call) => call.iface.encodeFunctionData(call.method, call.args));
+
+  if (!network.multicallAddress || calls.length === 1) {
+    return Promise.all(
+      calls.map(async (call, i) => decodeResult(call, await provider.call({ to: call.target, data: encoded[i] })))
+    );
+  }
+
+  const raw = await provider.call({
+    to: network.multicallAddress,
+    data: multicallIface.encodeFunctionData("aggregate3", [
+      calls.map((call, i) => ({ target: call.target, allowFailure: false, callData: encoded[i] })),
+    ]),
+  });
+  const [results] = multicallIface.decodeFunctionResult("aggregate3", raw);
+  return calls.map((call, i) => decodeResult(call, (results[i] as ethers.Result).returnData as string));
+}
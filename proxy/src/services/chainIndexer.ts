@@ -0,0 +1,450 @@
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { appendJsonLine, dataPath, readJsonFile, readJsonLines, writeJsonFile } from "./persistence.js";
+import type {
+  ChainIndexStatus,
+  IndexedAgent,
+  IndexedEventRef,
+  IndexedPayment,
+  IndexedService,
+  PoolActivity,
+  PoolActivityKind,
+} from "../types/x402.js";
+import { invalidateAgentInfo, invalidateServiceInfo } from "./serviceInfo.js";
+import { getNetworkProvider } from "./chainClient.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Chain event indexer for the home network.
+ *
+ * Follows ServiceRegistry, x402Gateway, AgentFactory, ReputationRegistry and
+ * every AgentPool the factory has created, and keeps:
+ *   - services and agents as a JSON snapshot (`chain-index.json`, with the
+ *     last indexed block), and
+ *   - gateway payments and pool activity as append-only JSON Lines.
+ *
+ * A fresh index either replays from `config.indexerStartBlock` or, when
+ * that is 0, snapshots current services/agents by walking the registry and
+ * factory and follows events from the current head. Events are indexed
+ * `config.indexerConfirmations` blocks behind the head. Registry and factory
+ * events also drop the gate's cached lookups for that service or agent
+ * (serviceInfo.ts).
+ */
+
+const log = createLogger("chainIndexer");
+
+const STATE_FILE = dataPath("chain-index.json");
+const PAYMENTS_FILE = dataPath("chain-index-payments.jsonl");
+const POOL_ACTIVITY_FILE = dataPath("chain-index-pool-activity.jsonl");
+
+/** getLogs ranges processed per tick, so a long backfill doesn't starve the event loop. */
+const MAX_RANGES_PER_TICK = 10;
+
+const REGISTRY_ABI = [
+  "function getServiceCount() view returns (uint256)",
+  "function getServiceIdAt(uint256 index) view returns (bytes32)",
+  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
+  "event ServiceRegistered(bytes32 indexed serviceId, uint256 indexed agentId, address indexed owner, string name, uint256 pricePerCall, uint8 serviceType)",
+  "event ServicePriceUpdated(bytes32 indexed serviceId, uint256 oldPrice, uint256 newPrice)",
+  "event ServiceDeactivated(bytes32 indexed serviceId)",
+  "event ServiceUsageRecorded(bytes32 indexed serviceId, uint256 calls, uint256 revenue)",
+];
+
+const GATEWAY_ABI = [
+  "event ServicePaid(address indexed payer, bytes32 indexed serviceId, uint256 calls, uint256 amount, bytes32 indexed paymentId)",
+];
+
+const AGENT_FACTORY_ABI = [
+  "function agentCount() view returns (uint256)",
+  "function getAgentIdAt(uint256 index) view returns (uint256)",
+  "function poolByAgentId(uint256 agentId) view returns (address)",
+  "event AgentRegistered(address indexed agentAccount, uint256 indexed agentId, string agentURI)",
+  "event AgentPoolCreated(address indexed agentAccount, uint256 indexed agentId, address pool)",
+];
+
+const IDENTITY_REGISTRY_ABI = [
+  "function getAgentWallet(uint256 agentId) view returns (address)",
+];
+
+const REPUTATION_ABI = [
+  "event NewFeedback(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, int128 value, uint8 valueDecimals, string indexed indexedTag1, string tag1, string tag2, string endpoint, string feedbackURI, bytes32 feedbackHash)",
+  "event FeedbackRevoked(uint256 indexed agentId, address indexed clientAddress, uint64 indexed feedbackIndex)",
+];
+
+const POOL_ABI = [
+  "event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)",
+  "event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)",
+  "event AgentPulled(uint64 indexed dayIndex, address indexed to, uint256 assets, uint256 spentToday, uint256 cap)",
+  "event DailyCapUpdated(uint256 oldCap, uint256 newCap)",
+  "event AgentRevoked(bool revoked)",
+  "event VestingParamsUpdated(uint64 vestingDuration)",
+  "event AllowedPullTargetUpdated(address indexed target, bool allowed)",
+  "event AgentMetadataUpdated(string metadataURI)",
+];
+
+const POOL_EVENT_KINDS: Record<string, PoolActivityKind> = {
+  Deposit: "deposit",
+  Withdraw: "withdraw",
+  AgentPulled: "pull",
+  DailyCapUpdated: "daily-cap-updated",
+  AgentRevoked: "agent-revoked",
+  VestingParamsUpdated: "vesting-updated",
+  AllowedPullTargetUpdated: "pull-target-updated",
+  AgentMetadataUpdated: "metadata-updated",
+};
+
+const registryIface = new ethers.Interface(REGISTRY_ABI);
+const gatewayIface = new ethers.Interface(GATEWAY_ABI);
+const factoryIface = new ethers.Interface(AGENT_FACTORY_ABI);
+const reputationIface = new ethers.Interface(REPUTATION_ABI);
+const poolIface = new ethers.Interface(POOL_ABI);
+
+interface IndexState {
+  lastBlock?: number;
+  services: Record<string, IndexedService>;
+  agents: Record<string, IndexedAgent>;
+}
+
+let state: IndexState = { services: {}, agents: {} };
+let payments: IndexedPayment[] = [];
+let poolActivity: PoolActivity[] = [];
+/** `${txHash}:${logIndex}` of appended events, so a replayed range is not double-counted. */
+const seenEvents = new Set<string>();
+let lastError: string | undefined;
+
+function provider(): ethers.JsonRpcProvider {
+  return getNetworkProvider(config.networks[config.homeNetwork]);
+}
+
+function eventKey(ref: IndexedEventRef): string {
+  return `${ref.txHash}:${ref.logIndex}`;
+}
+
+function refOf(log: ethers.Log): IndexedEventRef {
+  return { blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index };
+}
+
+/** Event arguments as JSON-friendly values (bigints → decimal strings). */
+function argsOf(parsed: ethers.LogDescription): Record<string, string | boolean> {
+  const data: Record<string, string | boolean> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value = parsed.args[i];
+    data[input.name] = typeof value === "boolean" ? value : String(value);
+  });
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+function persistState(): void {
+  writeJsonFile(STATE_FILE, state);
+}
+
+function loadFromDisk(): void {
+  try {
+    state = readJsonFile<IndexState>(STATE_FILE, { services: {}, agents: {} });
+    payments = readJsonLines<IndexedPayment>(PAYMENTS_FILE);
+    poolActivity = readJsonLines<PoolActivity>(POOL_ACTIVITY_FILE);
+    for (const event of [...payments, ...poolActivity]) seenEvents.add(eventKey(event));
+    if (state.lastBlock !== undefined) {
+      log.info(
+        `Loaded index at block ${state.lastBlock}: ${Object.keys(state.services).length} services, ` +
+          `${Object.keys(state.agents).length} agents, ${payments.length} payments, ${poolActivity.length} pool events`
+      );
+    }
+  } catch {
+    log.warn("Failed to load index from disk, starting fresh");
+    state = { services: {}, agents: {} };
+    payments = [];
+    poolActivity = [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Snapshot (fresh index without a start block)
+// ---------------------------------------------------------------------------
+
+async function readService(serviceId: string, blockTag: number): Promise<IndexedService> {
+  const registry = new ethers.Contract(config.serviceRegistryAddress, REGISTRY_ABI, provider());
+  const s = await registry.getService(serviceId, { blockTag });
+  return {
+    serviceId,
+    agentId: String(s.agentId),
+    owner: s.owner as string,
+    name: s.name as string,
+    pricePerCall: String(s.pricePerCall),
+    endpoint: s.endpoint as string,
+    serviceType: Number(s.serviceType),
+    active: s.active as boolean,
+    totalCalls: String(s.totalCalls),
+    totalRevenue: String(s.totalRevenue),
+  };
+}
+
+async function snapshot(atBlock: number): Promise<void> {
+  const registry = new ethers.Contract(config.serviceRegistryAddress, REGISTRY_ABI, provider());
+  const factory = new ethers.Contract(config.agentPoolFactoryAddress, AGENT_FACTORY_ABI, provider());
+  const identity = new ethers.Contract(config.identityRegistryAddress, IDENTITY_REGISTRY_ABI, provider());
+  const overrides = { blockTag: atBlock };
+
+  const serviceCount = Number(await registry.getServiceCount(overrides));
+  for (let i = 0; i < serviceCount; i++) {
+    const serviceId = (await registry.getServiceIdAt(i, overrides)) as string;
+    state.services[serviceId.toLowerCase()] = await readService(serviceId, atBlock);
+  }
+
+  const agentCount = Number(await factory.agentCount(overrides));
+  for (let i = 0; i < agentCount; i++) {
+    const agentId = String(await factory.getAgentIdAt(i, overrides));
+    const [pool, agentAccount] = await Promise.all([
+      factory.poolByAgentId(agentId, overrides) as Promise<string>,
+      identity.getAgentWallet(agentId, overrides) as Promise<string>,
+    ]);
+    state.agents[agentId] = { agentId, agentAccount, pool, feedbackCount: 0, revokedFeedbackCount: 0 };
+  }
+
+  state.lastBlock = atBlock;
+  persistState();
+  log.info(`Snapshot at block ${atBlock}: ${serviceCount} services, ${agentCount} agents`);
+}
+
+// ---------------------------------------------------------------------------
+// Event handling
+// ---------------------------------------------------------------------------
+
+function agentEntry(agentId: string): IndexedAgent {
+  let agent = state.agents[agentId];
+  if (!agent) {
+    agent = { agentId, agentAccount: ethers.ZeroAddress, feedbackCount: 0, revokedFeedbackCount: 0 };
+    state.agents[agentId] = agent;
+  }
+  return agent;
+}
+
+async function applyCoreLog(log: ethers.Log): Promise<void> {
+  const address = log.address.toLowerCase();
+
+  if (address === config.serviceRegistryAddress.toLowerCase()) {
+    const parsed = registryIface.parseLog(log);
+    if (!parsed) return;
+    const serviceId = (parsed.args.serviceId as string).toLowerCase();
+    const service = state.services[serviceId];
+    // Only these can change the owner / agent the gate caches; usage and price events are left alone
+    if (parsed.name === "ServiceRegistered" || parsed.name === "ServiceDeactivated") {
+      invalidateServiceInfo(serviceId);
+    }
+    switch (parsed.name) {
+      case "ServiceRegistered":
+        // The event lacks the endpoint; read it once. Price, status and
+        // totals then follow from this and later events.
+        state.services[serviceId] = {
+          ...(await readService(parsed.args.serviceId as string, log.blockNumber)),
+          pricePerCall: String(parsed.args.pricePerCall),
+          active: true,
+          totalCalls: "0",
+          totalRevenue: "0",
+        };
+        break;
+      case "ServicePriceUpdated":
+        if (service) service.pricePerCall = String(parsed.args.newPrice);
+        break;
+      case "ServiceDeactivated":
+        if (service) service.active = false;
+        break;
+      case "ServiceUsageRecorded":
+        if (service) {
+          service.totalCalls = (BigInt(service.totalCalls) + (parsed.args.calls as bigint)).toString();
+          service.totalRevenue = (BigInt(service.totalRevenue) + (parsed.args.revenue as bigint)).toString();
+        }
+        break;
+    }
+    return;
+  }
+
+  if (address === config.gatewayAddress.toLowerCase()) {
+    const parsed = gatewayIface.parseLog(log);
+    if (!parsed || parsed.name !== "ServicePaid") return;
+    const payment: IndexedPayment = {
+      ...refOf(log),
+      paymentId: parsed.args.paymentId as string,
+      payer: parsed.args.payer as string,
+      serviceId: parsed.args.serviceId as string,
+      calls: String(parsed.args.calls),
+      amount: String(parsed.args.amount),
+    };
+    if (seenEvents.has(eventKey(payment))) return;
+    seenEvents.add(eventKey(payment));
+    payments.push(payment);
+    appendJsonLine(PAYMENTS_FILE, payment);
+    return;
+  }
+
+  if (address === config.agentPoolFactoryAddress.toLowerCase()) {
+    const parsed = factoryIface.parseLog(log);
+    if (!parsed) return;
+    const agent = agentEntry(String(parsed.args.agentId));
+    invalidateAgentInfo(agent.agentId);
+    agent.agentAccount = parsed.args.agentAccount as string;
+    if (parsed.name === "AgentRegistered") agent.agentURI = parsed.args.agentURI as string;
+    if (parsed.name === "AgentPoolCreated") agent.pool = parsed.args.pool as string;
+    return;
+  }
+
+  if (address === config.reputationRegistryAddress.toLowerCase()) {
+    const parsed = reputationIface.parseLog(log);
+    if (!parsed) return;
+    const agent = agentEntry(String(parsed.args.agentId));
+    if (parsed.name === "NewFeedback") agent.feedbackCount++;
+    if (parsed.name === "FeedbackRevoked") agent.revokedFeedbackCount++;
+  }
+}
+
+function applyPoolLog(log: ethers.Log): void {
+  const parsed = poolIface.parseLog(log);
+  const kind = parsed ? POOL_EVENT_KINDS[parsed.name] : undefined;
+  if (!parsed || !kind) return;
+
+  const activity: PoolActivity = { ...refOf(log), pool: log.address, kind, data: argsOf(parsed) };
+  if (seenEvents.has(eventKey(activity))) return;
+  seenEvents.add(eventKey(activity));
+  poolActivity.push(activity);
+  appendJsonLine(POOL_ACTIVITY_FILE, activity);
+}
+
+function byPosition(a: ethers.Log, b: ethers.Log): number {
+  return a.blockNumber - b.blockNumber || a.index - b.index;
+}
+
+/** Index one block range: core contracts first (they may create pools), then pools. */
+async function indexRange(fromBlock: number, toBlock: number): Promise<void> {
+  const coreLogs = await provider().getLogs({
+    address: [
+      config.serviceRegistryAddress,
+      config.gatewayAddress,
+      config.agentPoolFactoryAddress,
+      config.reputationRegistryAddress,
+    ],
+    fromBlock,
+    toBlock,
+  });
+  for (const log of coreLogs.sort(byPosition)) await applyCoreLog(log);
+
+  const pools = Object.values(state.agents)
+    .map((agent) => agent.pool)
+    .filter((pool): pool is string => !!pool && pool !== ethers.ZeroAddress);
+  if (pools.length > 0) {
+    const poolLogs = await provider().getLogs({ address: pools, fromBlock, toBlock });
+    for (const log of poolLogs.sort(byPosition)) applyPoolLog(log);
+  }
+
+  state.lastBlock = toBlock;
+  persistState();
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+let _running = false;
+
+/** Index up to MAX_RANGES_PER_TICK ranges of new blocks. Concurrent calls are skipped. */
+export async function runIndexer(): Promise<void> {
+  if (_running) return;
+  _running = true;
+  try {
+    const head = (await provider().getBlockNumber()) - config.indexerConfirmations;
+    if (state.lastBlock === undefined) {
+      if (config.indexerStartBlock > 0) {
+        state.lastBlock = config.indexerStartBlock - 1;
+      } else {
+        await snapshot(head);
+      }
+    }
+
+    for (let i = 0; i < MAX_RANGES_PER_TICK && state.lastBlock! < head; i++) {
+      const fromBlock = state.lastBlock! + 1;
+      const toBlock = Math.min(fromBlock + config.indexerBlockRange - 1, head);
+      await indexRange(fromBlock, toBlock);
+    }
+    lastError = undefined;
+  } catch (err: unknown) {
+    lastError = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    _running = false;
+  }
+}
+
+export function getIndexStatus(): ChainIndexStatus {
+  return {
+    lastBlock: state.lastBlock,
+    services: Object.keys(state.services).length,
+    agents: Object.keys(state.agents).length,
+    payments: payments.length,
+    poolEvents: poolActivity.length,
+    lastError,
+  };
+}
+
+export function listIndexedServices(filter: { owner?: string; agentId?: string; active?: boolean }): IndexedService[] {
+  const owner = filter.owner?.toLowerCase();
+  return Object.values(state.services).filter(
+    (s) =>
+      (owner === undefined || s.owner.toLowerCase() === owner) &&
+      (filter.agentId === undefined || s.agentId === filter.agentId) &&
+      (filter.active === undefined || s.active === filter.active)
+  );
+}
+
+export function getIndexedService(serviceId: string): IndexedService | undefined {
+  return state.services[serviceId.toLowerCase()];
+}
+
+export function listIndexedAgents(): IndexedAgent[] {
+  return Object.values(state.agents).sort((a, b) => Number(BigInt(a.agentId) - BigInt(b.agentId)));
+}
+
+export function getIndexedAgent(agentId: string): IndexedAgent | undefined {
+  return state.agents[agentId];
+}
+
+/** Gateway payments, newest first. */
+export function listIndexedPayments(filter: { payer?: string; serviceId?: string }): IndexedPayment[] {
+  const payer = filter.payer?.toLowerCase();
+  const serviceId = filter.serviceId?.toLowerCase();
+  return payments
+    .filter(
+      (p) =>
+        (payer === undefined || p.payer.toLowerCase() === payer) &&
+        (serviceId === undefined || p.serviceId.toLowerCase() === serviceId)
+    )
+    .reverse();
+}
+
+/** A pool's activity, newest first. */
+export function listPoolActivity(pool: string, kind?: PoolActivityKind): PoolActivity[] {
+  const address = pool.toLowerCase();
+  return poolActivity
+    .filter((a) => a.pool.toLowerCase() === address && (kind === undefined || a.kind === kind))
+    .reverse();
+}
+
+let _indexTimer: NodeJS.Timeout | null = null;
+
+export function startChainIndexer(): void {
+  if (_indexTimer || config.indexerIntervalMs <= 0) return;
+  const run = () => {
+    runIndexer().catch((err) => log.error("index error", { error: err }));
+  };
+  run();
+  _indexTimer = setInterval(run, config.indexerIntervalMs);
+}
+
+export function stopChainIndexer(): void {
+  if (_indexTimer) clearInterval(_indexTimer);
+  _indexTimer = null;
+}
+
+loadFromDisk();
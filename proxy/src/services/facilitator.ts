@@ -1,6 +1,10 @@
 import fetch from "node-fetch";
 import { config } from "../config.js";
-import type { PaymentRequirementsAccept, PaymentPayload } from "../types/x402.js";
+import type { PaymentRequirementsAccept, DecodedPayment } from "../types/x402.js";
+import { verifyLocally, settleLocally } from "./localFacilitator.js";
+import { toPaymentPayloadV1, toRequirementV2 } from "./x402Protocol.js";
+import { observeFacilitator } from "./metrics.js";
+import { REQUEST_ID_HEADER, createLogger, currentRequestId } from "./logger.js";
 
 /**
  * x402 facilitator client.
@@ -11,8 +15,14 @@ import type { PaymentRequirementsAccept, PaymentPayload } from "../types/x402.js
  *
  * The facilitator expects:
  *   { x402Version, paymentPayload: <decoded object>, paymentRequirements: <single accept> }
+ * with the requirement in the same protocol version as the payload.
+ *
+ * With `FACILITATOR_MODE=local` both calls are served in-process by
+ * localFacilitator.ts instead.
  */
 
+const log = createLogger("facilitator");
+
 export interface FacilitatorVerifyResult {
   valid: boolean;
   invalidReason?: string;
@@ -24,36 +34,62 @@ export interface FacilitatorSettleResult {
   error?: string;
 }
 
+/** Request headers, carrying the correlation id of the request being paid for. */
+function facilitatorHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const requestId = currentRequestId();
+  if (requestId) headers[REQUEST_ID_HEADER] = requestId;
+  return headers;
+}
+
 /**
- * Decode the base64-encoded X-PAYMENT header into a PaymentPayload object.
+ * Build the facilitator request body for either protocol version.
  */
-export function decodePaymentHeader(headerValue: string): PaymentPayload {
-  const json = Buffer.from(headerValue, "base64").toString("utf-8");
-  return JSON.parse(json) as PaymentPayload;
+function buildFacilitatorBody(
+  payment: DecodedPayment,
+  requirement: PaymentRequirementsAccept
+): string {
+  return JSON.stringify({
+    x402Version: payment.version,
+    paymentPayload: payment.payload,
+    paymentRequirements: payment.version === 2 ? toRequirementV2(requirement) : requirement,
+  });
 }
 
 /**
  * Verify a payment payload against the given requirements via the facilitator.
  */
 export async function verifyPayment(
-  decodedPayload: PaymentPayload,
+  payment: DecodedPayment,
+  requirement: PaymentRequirementsAccept
+): Promise<FacilitatorVerifyResult> {
+  return observeFacilitator(
+    "verify",
+    config.facilitatorMode,
+    () => requestVerify(payment, requirement),
+    (result) => (result.valid ? undefined : result.invalidReason ?? "unknown")
+  );
+}
+
+async function requestVerify(
+  payment: DecodedPayment,
   requirement: PaymentRequirementsAccept
 ): Promise<FacilitatorVerifyResult> {
+  if (config.facilitatorMode === "local") {
+    return verifyLocally(toPaymentPayloadV1(payment), requirement);
+  }
+
   try {
     const url = `${config.facilitatorUrl}/verify`;
 
     const res = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        x402Version: decodedPayload.x402Version ?? 1,
-        paymentPayload: decodedPayload,
-        paymentRequirements: requirement,
-      }),
+      headers: facilitatorHeaders(),
+      body: buildFacilitatorBody(payment, requirement),
     });
 
     const text = await res.text();
-    console.log(`[facilitator] verify returned ${res.status}: ${text}`);
+    log.info("verify returned", { status: res.status, body: text });
 
     if (!res.ok) {
       return { valid: false, invalidReason: `Facilitator HTTP ${res.status}: ${text}` };
@@ -73,7 +109,7 @@ export async function verifyPayment(
   } catch (err: unknown) {
     const message =
       err instanceof Error ? err.message : "Unknown facilitator error";
-    console.error(`[facilitator] verify error: ${message}`);
+    log.error("verify error", { error: message });
     return { valid: false, invalidReason: message };
   }
 }
@@ -82,24 +118,36 @@ export async function verifyPayment(
  * Settle (execute) a verified payment via the facilitator.
  */
 export async function settlePayment(
-  decodedPayload: PaymentPayload,
+  payment: DecodedPayment,
+  requirement: PaymentRequirementsAccept
+): Promise<FacilitatorSettleResult> {
+  return observeFacilitator(
+    "settle",
+    config.facilitatorMode,
+    () => requestSettle(payment, requirement),
+    (result) => (result.success ? undefined : result.error ?? "unknown")
+  );
+}
+
+async function requestSettle(
+  payment: DecodedPayment,
   requirement: PaymentRequirementsAccept
 ): Promise<FacilitatorSettleResult> {
+  if (config.facilitatorMode === "local") {
+    return settleLocally(toPaymentPayloadV1(payment), requirement);
+  }
+
   try {
     const url = `${config.facilitatorUrl}/settle`;
 
     const res = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        x402Version: decodedPayload.x402Version ?? 1,
-        paymentPayload: decodedPayload,
-        paymentRequirements: requirement,
-      }),
+      headers: facilitatorHeaders(),
+      body: buildFacilitatorBody(payment, requirement),
     });
 
     const text = await res.text();
-    console.log(`[facilitator] settle returned ${res.status}: ${text}`);
+    log.info("settle returned", { status: res.status, body: text });
 
     if (!res.ok) {
       return { success: false, error: `Facilitator HTTP ${res.status}: ${text}` };
@@ -114,15 +162,16 @@ export async function settlePayment(
 
     return {
       success: data.success === true,
-      txHash: data.txHash as string | undefined,
+      // Spec field is `transaction`; older facilitators returned `txHash`
+      txHash: (data.transaction as string | undefined) || (data.txHash as string | undefined),
       error: data.success !== true
-        ? (data.error as string) ?? (data.invalidReason as string) ?? `Settle failed: ${text.slice(0, 200)}`
+        ? (data.errorReason as string) ?? (data.error as string) ?? (data.invalidReason as string) ?? `Settle failed: ${text.slice(0, 200)}`
         : undefined,
     };
   } catch (err: unknown) {
     const message =
       err instanceof Error ? err.message : "Unknown facilitator error";
-    console.error(`[facilitator] settle error: ${message}`);
+    log.error("settle error", { error: message });
     return { success: false, error: message };
   }
 }
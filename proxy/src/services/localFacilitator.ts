@@ -0,0 +1,198 @@
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { getDeployerSigner } from "./nonceManager.js";
+import { resolveNetwork } from "./x402Protocol.js";
+import { getNetworkChainId, getNetworkProvider } from "./chainClient.js";
+import type { ExactEvmPayload, PaymentRequirementsAccept, PaymentPayload } from "../types/x402.js";
+import type { FacilitatorVerifyResult, FacilitatorSettleResult } from "./facilitator.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * In-process x402 facilitator for the `exact` scheme on EVM.
+ *
+ * Verifies EIP-3009 `transferWithAuthorization` payloads directly against
+ * the USDC contract and settles them with the proxy signer, so the payment
+ * path has no third-party dependency and runs against any RPC (including a
+ * local anvil chain). Selected with `FACILITATOR_MODE=local`. Each
+ * requirement is checked on the RPC of its own network in `config.networks`.
+ *
+ * Invalid reasons follow the x402 reference facilitator's naming.
+ */
+
+const log = createLogger("localFacilitator");
+
+const EIP3009_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+];
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+/**
+ * Authorizations must stay valid for at least this long after verification,
+ * leaving time for the settlement tx to be mined.
+ */
+const VALID_BEFORE_MARGIN_SECONDS = 6n;
+
+/**
+ * Authorization nonces currently being settled. Guards against two
+ * concurrent requests carrying the same authorization both passing
+ * verification before either settlement is mined.
+ */
+const inFlightNonces = new Set<string>();
+
+function nonceKey(from: string, nonce: string): string {
+  return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+/**
+ * Verify an `exact` EIP-3009 payment payload against a requirement.
+ */
+export async function verifyLocally(
+  decodedPayload: PaymentPayload,
+  requirement: PaymentRequirementsAccept
+): Promise<FacilitatorVerifyResult> {
+  try {
+    if (decodedPayload.scheme !== "exact" || requirement.scheme !== "exact") {
+      return { valid: false, invalidReason: "invalid_scheme" };
+    }
+    if (decodedPayload.network !== requirement.network) {
+      return { valid: false, invalidReason: "invalid_network" };
+    }
+    const network = resolveNetwork(requirement.network);
+    if (!network) {
+      return { valid: false, invalidReason: "invalid_network" };
+    }
+
+    const payload = decodedPayload.payload;
+    const authorization = payload && "authorization" in payload ? payload.authorization : undefined;
+    const signature = payload?.signature;
+    if (!authorization || !signature) {
+      return { valid: false, invalidReason: "invalid_payload" };
+    }
+
+    // Signature: EIP-712 over the token's own domain
+    const domain: ethers.TypedDataDomain = {
+      name: requirement.extra.name,
+      version: requirement.extra.version,
+      chainId: await getNetworkChainId(network),
+      verifyingContract: requirement.asset,
+    };
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, authorization, signature);
+    } catch {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_signature" };
+    }
+    if (signer.toLowerCase() !== authorization.from.toLowerCase()) {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_signature" };
+    }
+
+    if (authorization.to.toLowerCase() !== requirement.payTo.toLowerCase()) {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_recipient_mismatch" };
+    }
+    if (BigInt(authorization.value) < BigInt(requirement.maxAmountRequired)) {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_authorization_value" };
+    }
+
+    // Validity window
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(authorization.validAfter) > now) {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_after" };
+    }
+    if (BigInt(authorization.validBefore) < now + VALID_BEFORE_MARGIN_SECONDS) {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_before" };
+    }
+
+    // Nonce unused (on-chain and not currently being settled) and balance
+    const token = new ethers.Contract(requirement.asset, EIP3009_ABI, getNetworkProvider(network));
+    const [nonceUsed, balance] = await Promise.all([
+      token.authorizationState(authorization.from, authorization.nonce) as Promise<boolean>,
+      token.balanceOf(authorization.from) as Promise<bigint>,
+    ]);
+    if (nonceUsed || inFlightNonces.has(nonceKey(authorization.from, authorization.nonce))) {
+      return { valid: false, invalidReason: "invalid_exact_evm_payload_authorization_nonce" };
+    }
+    if (balance < BigInt(authorization.value)) {
+      return { valid: false, invalidReason: "insufficient_funds" };
+    }
+
+    return { valid: true };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown local facilitator error";
+    log.error(`verify error: ${message}`);
+    return { valid: false, invalidReason: message };
+  }
+}
+
+/**
+ * Settle a payment by submitting `transferWithAuthorization` from the proxy
+ * signer. Re-verifies first so a payload is never submitted on stale checks
+ * (e.g. a nonce consumed since verification).
+ */
+export async function settleLocally(
+  decodedPayload: PaymentPayload,
+  requirement: PaymentRequirementsAccept
+): Promise<FacilitatorSettleResult> {
+  const verification = await verifyLocally(decodedPayload, requirement);
+  if (!verification.valid) {
+    return { success: false, error: verification.invalidReason };
+  }
+
+  // Shape already checked by verifyLocally
+  const { authorization, signature } = decodedPayload.payload as ExactEvmPayload;
+  const key = nonceKey(authorization.from, authorization.nonce);
+  if (inFlightNonces.has(key)) {
+    return { success: false, error: "invalid_exact_evm_payload_authorization_nonce" };
+  }
+  inFlightNonces.add(key);
+
+  try {
+    if (!config.proxySignerKey) {
+      return { success: false, error: "No PROXY_SIGNER_KEY configured for local settlement" };
+    }
+
+    // verifyLocally already rejected unknown networks
+    const network = resolveNetwork(requirement.network)!;
+    const signer = await getDeployerSigner(network);
+    const token = new ethers.Contract(requirement.asset, EIP3009_ABI, signer);
+    const { v, r, s } = ethers.Signature.from(signature);
+
+    const tx = await token.transferWithAuthorization(
+      authorization.from,
+      authorization.to,
+      authorization.value,
+      authorization.validAfter,
+      authorization.validBefore,
+      authorization.nonce,
+      v,
+      r,
+      s
+    );
+    log.info(`transferWithAuthorization sent on ${network.name}: ${tx.hash} (nonce=${tx.nonce})`);
+
+    // The receipt may belong to a gas-bumped replacement of `tx`
+    const receipt = await tx.wait();
+    const txHash = receipt?.hash ?? tx.hash;
+    if (receipt?.status !== 1) {
+      return { success: false, txHash, error: `Settlement reverted (tx=${txHash})` };
+    }
+    return { success: true, txHash };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown local facilitator error";
+    log.error(`settle error: ${message}`);
+    return { success: false, error: message };
+  } finally {
+    inFlightNonces.delete(key);
+  }
+}
@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { config } from "../config.js";
+
+/**
+ * Structured logging with request correlation.
+ *
+ * Every line is one JSON object ({ time, level, module, msg, requestId?,
+ * ...fields }), or `[module] msg key=value` with LOG_FORMAT=text. The
+ * request id is carried by AsyncLocalStorage: the requestContext middleware
+ * opens a context per request, and background work started on behalf of a
+ * request (settlement jobs) re-enters it with `runWithRequestId`, so lines
+ * from the gate, facilitator, forwarder and settlement worker can be joined.
+ */
+
+/** Header carrying the correlation id to clients, upstreams and the facilitator. */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const context = new AsyncLocalStorage<{ requestId: string }>();
+
+/** Run `fn` (and everything it starts) with `requestId` attached to its log lines. */
+export function runWithRequestId<T>(requestId: string, fn: () => T): T {
+  return context.run({ requestId }, fn);
+}
+
+/** Correlation id of the request being handled, if any. */
+export function currentRequestId(): string | undefined {
+  return context.getStore()?.requestId;
+}
+
+/** Errors are logged by message; anything else JSON-serializable as is. */
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) return value.message;
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+function write(level: LogLevel, module: string, msg: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < LEVELS[config.logLevel]) return;
+  const requestId = currentRequestId();
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+
+  if (config.logFormat === "text") {
+    const extras = Object.entries(fields)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(serialize(v))}`);
+    if (requestId) extras.push(`requestId=${requestId}`);
+    stream.write(`[${module}] ${msg}${extras.length > 0 ? ` ${extras.join(" ")}` : ""}\n`);
+    return;
+  }
+
+  const line: LogFields = { time: new Date().toISOString(), level, module, msg };
+  if (requestId) line.requestId = requestId;
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) line[key] = serialize(value);
+  }
+  stream.write(`${JSON.stringify(line)}\n`);
+}
+
+export function createLogger(module: string): Logger {
+  return {
+    debug: (msg, fields) => write("debug", module, msg, fields),
+    info: (msg, fields) => write("info", module, msg, fields),
+    warn: (msg, fields) => write("warn", module, msg, fields),
+    error: (msg, fields) => write("error", module, msg, fields),
+  };
+}
@@ -0,0 +1,231 @@
+import { createLogger } from "./logger.js";
+
+/**
+ * Minimal Prometheus metrics registry (text exposition format 0.0.4).
+ *
+ * Counters and histograms are updated in place by the code they measure;
+ * gauges describing current state (settlement backlog, signer balances)
+ * are filled in by collectors right before each scrape. See routes/metrics.ts
+ * for the metric definitions that need other services.
+ */
+
+const log = createLogger("metrics");
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+  /** Drop all series, e.g. before a collector refills them. */
+  reset(): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+/** Latency buckets in seconds, from fast local checks to slow on-chain settlements. */
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const registry: Metric[] = [];
+const collectors: (() => Promise<void> | void)[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(",")}}`;
+}
+
+/** Series key: labels in a stable order. */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((k) => [k, labels[k]]));
+}
+
+function register(metric: Metric): void {
+  if (registry.some((m) => m.name === metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  registry.push(metric);
+}
+
+// ---------------------------------------------------------------------------
+// Metric types
+// ---------------------------------------------------------------------------
+
+export function counter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name,
+    help,
+    type: "counter",
+    render: () => Array.from(series.values()).map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+export function gauge(name: string, help: string): Gauge {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name,
+    help,
+    type: "gauge",
+    render: () => Array.from(series.values()).map((s) => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    set(labels, value) {
+      series.set(seriesKey(labels), { labels, value });
+    },
+    reset() {
+      series.clear();
+    },
+  };
+}
+
+export function histogram(name: string, help: string, buckets: number[] = LATENCY_BUCKETS): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  register({
+    name,
+    help,
+    type: "histogram",
+    render: () => {
+      const lines: string[] = [];
+      for (const s of series.values()) {
+        buckets.forEach((le, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+        lines.push(`${name}_sum${formatLabels(s.labels)} ${s.sum}`);
+        lines.push(`${name}_count${formatLabels(s.labels)} ${s.count}`);
+      }
+      return lines;
+    },
+  });
+  return {
+    observe(labels, value) {
+      const key = seriesKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      // Buckets are cumulative: every bucket at or above the value counts it
+      buckets.forEach((le, i) => {
+        if (value <= le) entry!.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+/** Run `collect` before every scrape (to refresh gauges). */
+export function addCollector(collect: () => Promise<void> | void): void {
+  collectors.push(collect);
+}
+
+/** Run the collectors and render every metric. A failing collector only logs. */
+export async function renderMetrics(): Promise<string> {
+  await Promise.all(
+    collectors.map(async (collect) => {
+      try {
+        await collect();
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        log.error(`collector error: ${message}`);
+      }
+    })
+  );
+
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Proxy metrics
+// ---------------------------------------------------------------------------
+
+export const proxyRequests = counter(
+  "pragma_proxy_requests_total",
+  "Requests to /proxy by resource, payment path (x402, gateway, none) and response status."
+);
+
+export const proxyRequestDuration = histogram(
+  "pragma_proxy_request_duration_seconds",
+  "Time from request to the end of the response, by resource and payment path."
+);
+
+export const facilitatorDuration = histogram(
+  "pragma_facilitator_duration_seconds",
+  "Payment verify / settle latency by operation and facilitator (remote, local, upto)."
+);
+
+export const facilitatorFailures = counter(
+  "pragma_facilitator_failures_total",
+  "Failed payment verifications / settlements by operation, facilitator and reason."
+);
+
+export const upstreamResponses = counter(
+  "pragma_upstream_responses_total",
+  "Upstream answers by resource and status class (2xx..5xx, or error when none was received)."
+);
+
+/**
+ * Label value for a verify / settle failure reason. x402 reasons
+ * ("insufficient_funds", ...) are kept; free-text errors are bucketed so
+ * they cannot blow up the number of series.
+ */
+export function failureReasonLabel(reason: string | undefined): string {
+  if (!reason) return "unknown";
+  if (/^[a-z0-9_]{1,64}$/.test(reason)) return reason;
+  if (reason.startsWith("Facilitator HTTP")) return "facilitator_http_error";
+  if (reason.startsWith("Facilitator returned non-JSON")) return "facilitator_invalid_response";
+  return "other";
+}
+
+/**
+ * Time a verify / settle call and count its failure, if any. `failureOf`
+ * returns the failure reason of a result, or undefined on success.
+ */
+export async function observeFacilitator<T>(
+  operation: "verify" | "settle",
+  facilitator: string,
+  call: () => Promise<T>,
+  failureOf: (result: T) => string | undefined
+): Promise<T> {
+  const startedAt = process.hrtime.bigint();
+  const result = await call();
+  const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+  facilitatorDuration.observe({ operation, facilitator }, seconds);
+
+  const failure = failureOf(result);
+  if (failure !== undefined) {
+    facilitatorFailures.inc({ operation, facilitator, reason: failureReasonLabel(failure) });
+  }
+  return result;
+}
@@ -1,32 +1,530 @@
-import { JsonRpcProvider } from "ethers";
+import {
+  Transaction,
+  Wallet,
+  isError,
+  type TransactionReceipt,
+  type TransactionRequest,
+  type TransactionResponse,
+} from "ethers";
+import { config, type NetworkConfig } from "../config.js";
+import { getNetworkProvider } from "./chainClient.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./persistence.js";
+import type { DeployerNonceStatus, DeployerTx, DeployerTxStatus } from "../types/x402.js";
+import { createLogger } from "./logger.js";
 
 /**
- * Global in-memory nonce manager for the deployer wallet.
+ * Nonce manager for the deployer wallet, one nonce sequence per network
+ * (keyed by network name, defaulting to the home network).
  *
- * Public RPCs behind load balancers return stale nonces. Instead of querying
- * getTransactionCount on each request (which races under concurrent calls),
- * we track the nonce in-memory. Initialized once from RPC, then incremented
- * synchronously via allocateNonce().
+ * Public RPCs behind load balancers return stale nonces, so nonces are
+ * handed out from an in-memory counter instead of `getTransactionCount` per
+ * send. Every deployer transaction goes through `DeployerWallet`, which
+ * assigns the nonce itself and tracks the signed tx per nonce in
+ * `data/deployer-txs.json` until the nonce is confirmed, so the queue
+ * survives restarts:
+ *   - a nonce whose tx never reached the node (population or broadcast
+ *     failed) is released; if later nonces are already out, the monitor
+ *     resyncs the counter or fills the gap with a zero-value self-transfer;
+ *   - "nonce too low" on broadcast resyncs the counter from the chain and
+ *     retries once;
+ *   - the background monitor rebroadcasts a tx the node forgot, replaces a
+ *     stuck one with bumped fees (`wait()` follows the replacement) and
+ *     notices nonces consumed by other senders.
  *
- * Node.js is single-threaded so the synchronous read+increment in
- * allocateNonce() is atomic — no two callers can get the same value.
+ * Node.js is single-threaded, so the synchronous read+increment when a
+ * nonce is assigned is atomic — no two callers can get the same value.
  */
 
-let _nonce: number | null = null;
-let _initPromise: Promise<void> | null = null;
+const log = createLogger("nonce-manager");
 
-export async function initDeployerNonce(provider: JsonRpcProvider, address: string): Promise<void> {
-  if (_nonce !== null) return;
-  if (_initPromise) { await _initPromise; return; }
-  _initPromise = (async () => {
-    _nonce = await provider.getTransactionCount(address, "pending");
-    console.log(`[nonce-manager] Initialized deployer nonce: ${_nonce}`);
+const TXS_FILE = dataPath("deployer-txs.json");
+
+/** Fee increase of a replacement; nodes require at least 10%. */
+const GAS_BUMP_PERCENT = 20n;
+/** Confirmed txs kept in the log; the oldest are dropped first. */
+const MAX_FINISHED_TXS = 1_000;
+
+interface NonceState {
+  address: string;
+  next: number;
+  /** Nonces handed out whose tx is being populated / broadcast. */
+  inFlight: Set<number>;
+  /** Nonce at the head of the queue and when it got there, for stuck detection. */
+  head?: { nonce: number; since: number };
+}
+
+const states = new Map<string, NonceState>();
+const initPromises = new Map<string, Promise<NonceState>>();
+/** Tracked txs by `${network}:${nonce}`. */
+const txs = new Map<string, DeployerTx>();
+
+function txKey(network: string, nonce: number): string {
+  return `${network}:${nonce}`;
+}
+
+// ---------------------------------------------------------------------------
+// Persistence helpers
+// ---------------------------------------------------------------------------
+
+function persist(): void {
+  const finished = Array.from(txs.entries()).filter(([, tx]) => tx.status !== "pending");
+  if (finished.length > MAX_FINISHED_TXS) {
+    finished
+      .sort(([, a], [, b]) => a.updatedAt - b.updatedAt)
+      .slice(0, finished.length - MAX_FINISHED_TXS)
+      .forEach(([key]) => txs.delete(key));
+  }
+  writeJsonFile(TXS_FILE, Array.from(txs.values()));
+}
+
+function loadFromDisk(): void {
+  try {
+    const data = readJsonFile<DeployerTx[]>(TXS_FILE, []);
+    for (const tx of data) txs.set(txKey(tx.network, tx.nonce), tx);
+    const pending = data.filter((tx) => tx.status === "pending").length;
+    if (pending > 0) {
+      log.info(`Loaded ${pending} pending deployer txs from disk`);
+    }
+  } catch {
+    log.warn("Failed to load deployer txs from disk, starting fresh");
+  }
+}
+
+/**
+ * Nonce count of `address`. Sent raw: the provider's request cache could
+ * otherwise answer a resync with the count read just before it.
+ */
+async function transactionCount(network: NetworkConfig, address: string, tag: "latest" | "pending"): Promise<number> {
+  return Number(await getNetworkProvider(network).send("eth_getTransactionCount", [address, tag]));
+}
+
+function pendingTxs(network: string, address: string): DeployerTx[] {
+  return Array.from(txs.values())
+    .filter((tx) => tx.network === network && tx.status === "pending" && tx.from === address)
+    .sort((a, b) => a.nonce - b.nonce);
+}
+
+// ---------------------------------------------------------------------------
+// Nonce bookkeeping
+// ---------------------------------------------------------------------------
+
+/**
+ * Start a network's counter at the chain's pending nonce, or past the
+ * highest tracked pending tx if that is further (the RPC may be stale).
+ */
+async function initState(network: NetworkConfig, address: string): Promise<NonceState> {
+  const existing = states.get(network.name);
+  if (existing) return existing;
+  const pending = initPromises.get(network.name);
+  if (pending) return pending;
+
+  const init = (async () => {
+    const chainNonce = await transactionCount(network, address, "pending");
+    const tracked = pendingTxs(network.name, address).map((tx) => tx.nonce + 1);
+    const state: NonceState = { address, next: Math.max(chainNonce, ...tracked), inFlight: new Set() };
+    states.set(network.name, state);
+    log.info(`Initialized deployer nonce on ${network.name}: ${state.next}`);
+    return state;
   })();
-  await _initPromise;
-  _initPromise = null;
+  initPromises.set(network.name, init);
+  try {
+    return await init;
+  } finally {
+    initPromises.delete(network.name);
+  }
 }
 
-export function allocateNonce(): number {
-  if (_nonce === null) throw new Error("Deployer nonce not initialized — call initDeployerNonce first");
-  return _nonce++;
+function allocate(state: NonceState): number {
+  const nonce = state.next++;
+  state.inFlight.add(nonce);
+  return nonce;
 }
+
+/**
+ * Give back a nonce whose tx never reached the node. The last one handed out
+ * is simply reused; an earlier one is a gap for the monitor to close.
+ */
+function release(network: string, state: NonceState, nonce: number): void {
+  state.inFlight.delete(nonce);
+  if (nonce === state.next - 1) {
+    state.next = nonce;
+    return;
+  }
+  log.warn(`Nonce ${nonce} on ${network} was not used; later nonces are waiting on it`);
+  kick();
+}
+
+function track(network: string, from: string, nonce: number, raw: string, acked: boolean): DeployerTx {
+  const now = Date.now();
+  const tx: DeployerTx = {
+    network,
+    from,
+    nonce,
+    hashes: [Transaction.from(raw).hash!],
+    raw,
+    acked,
+    bumps: 0,
+    status: "pending",
+    sentAt: now,
+    updatedAt: now,
+  };
+  txs.set(txKey(network, nonce), tx);
+  persist();
+  return tx;
+}
+
+function finish(tx: DeployerTx, status: DeployerTxStatus, minedHash?: string): void {
+  tx.status = status;
+  tx.minedHash = minedHash;
+  tx.updatedAt = Date.now();
+}
+
+/** Network-level failures, after which the tx may or may not have reached the node. */
+function isAmbiguousBroadcastError(err: unknown): boolean {
+  return isError(err, "TIMEOUT") || isError(err, "NETWORK_ERROR") || isError(err, "SERVER_ERROR");
+}
+
+/** A `wait()` that resolves with the receipt of a gas-bumped replacement instead of throwing. */
+function followRepricing(response: TransactionResponse): TransactionResponse {
+  const wait = response.wait.bind(response);
+  response.wait = async (confirms?: number, timeout?: number) => {
+    try {
+      return await wait(confirms, timeout);
+    } catch (err: unknown) {
+      if (isError(err, "TRANSACTION_REPLACED") && !err.cancelled) return err.receipt;
+      throw err;
+    }
+  };
+  return response;
+}
+
+// ---------------------------------------------------------------------------
+// Deployer wallet
+// ---------------------------------------------------------------------------
+
+/** Wallet whose transactions get their nonce from, and are tracked by, the nonce manager. */
+export class DeployerWallet extends Wallet {
+  constructor(readonly network: NetworkConfig) {
+    super(config.proxySignerKey, getNetworkProvider(network));
+  }
+
+  override async sendTransaction(request: TransactionRequest): Promise<TransactionResponse> {
+    if (request.nonce != null) {
+      throw new Error("Deployer nonces are assigned by the nonce manager");
+    }
+    const provider = getNetworkProvider(this.network);
+    const state = await initState(this.network, this.address);
+
+    for (let attempt = 1; ; attempt++) {
+      const nonce = allocate(state);
+      let raw: string;
+      try {
+        const populated = await this.populateTransaction({ ...request, nonce });
+        delete populated.from;
+        raw = await this.signTransaction(Transaction.from(populated));
+      } catch (err: unknown) {
+        release(this.network.name, state, nonce);
+        throw err;
+      }
+
+      try {
+        const response = await provider.broadcastTransaction(raw);
+        state.inFlight.delete(nonce);
+        track(this.network.name, this.address, nonce, raw, true);
+        return followRepricing(response);
+      } catch (err: unknown) {
+        if (isAmbiguousBroadcastError(err)) {
+          // Keep the nonce: the monitor finds out whether the tx landed
+          state.inFlight.delete(nonce);
+          track(this.network.name, this.address, nonce, raw, false);
+          throw err;
+        }
+        if ((isError(err, "NONCE_EXPIRED") || isError(err, "REPLACEMENT_UNDERPRICED")) && attempt === 1) {
+          // The nonce is taken on-chain or in the mempool: our counter is behind
+          state.inFlight.delete(nonce);
+          log.warn(`Nonce ${nonce} on ${this.network.name} already used, resyncing`);
+          await resyncNonce(this.network);
+          continue;
+        }
+        release(this.network.name, state, nonce);
+        throw err;
+      }
+    }
+  }
+}
+
+/**
+ * Create a signer for the deployer/proxy key on a network (home network by
+ * default). All deployer transactions must go through it to avoid nonce
+ * collisions between the settlement worker, facilitators and the
+ * registerAgent / fund-agent / allow-target endpoints.
+ */
+export async function getDeployerSigner(
+  network: NetworkConfig = config.networks[config.homeNetwork]
+): Promise<DeployerWallet> {
+  const signer = new DeployerWallet(network);
+  await initState(network, signer.address);
+  return signer;
+}
+
+// ---------------------------------------------------------------------------
+// Recovery
+// ---------------------------------------------------------------------------
+
+/** Mark tracked txs below the confirmed nonce as mined or dropped. */
+async function settleConfirmed(network: NetworkConfig, address: string, confirmed: number): Promise<void> {
+  const provider = getNetworkProvider(network);
+  let changed = false;
+  for (const tx of pendingTxs(network.name, address)) {
+    if (tx.nonce >= confirmed) break;
+    let minedHash: string | undefined;
+    for (const hash of [...tx.hashes].reverse()) {
+      if (await provider.getTransactionReceipt(hash)) {
+        minedHash = hash;
+        break;
+      }
+    }
+    if (minedHash) {
+      finish(tx, "mined", minedHash);
+    } else {
+      finish(tx, "dropped");
+      log.warn(`Deployer tx at nonce ${tx.nonce} on ${network.name} was not mined; the nonce was used by ${tx.cancelHash ? `gap filler ${tx.cancelHash}` : "another tx"}`);
+    }
+    changed = true;
+  }
+  if (changed) persist();
+}
+
+/**
+ * Send a zero-value self-transfer at `nonce`, to unblock the nonces after
+ * it. Replacing a tx needs higher fees than it offered.
+ */
+async function sendFiller(wallet: DeployerWallet, nonce: number, replaces?: Transaction): Promise<{ hash: string; raw: string }> {
+  const provider = getNetworkProvider(wallet.network);
+  const fees = await provider.getFeeData();
+  const request: TransactionRequest = { to: wallet.address, value: 0n, data: "0x", gasLimit: 21_000n, nonce };
+  if (fees.maxFeePerGas !== null) {
+    request.maxFeePerGas = bumpFee(replaces?.maxFeePerGas ?? replaces?.gasPrice, fees.maxFeePerGas);
+    request.maxPriorityFeePerGas = bumpFee(replaces?.maxPriorityFeePerGas ?? replaces?.gasPrice, fees.maxPriorityFeePerGas);
+  } else {
+    request.gasPrice = bumpFee(replaces?.gasPrice ?? replaces?.maxFeePerGas, fees.gasPrice);
+  }
+  const populated = await wallet.populateTransaction(request);
+  delete populated.from;
+  const raw = await wallet.signTransaction(Transaction.from(populated));
+  return { hash: (await provider.broadcastTransaction(raw)).hash, raw };
+}
+
+/** `previous` raised by GAS_BUMP_PERCENT, or the current network fee if higher. */
+function bumpFee(previous: bigint | null | undefined, current: bigint | null): bigint {
+  const bumped = previous ? (previous * (100n + GAS_BUMP_PERCENT)) / 100n + 1n : 0n;
+  return current !== null && current > bumped ? current : bumped;
+}
+
+/** Re-sign `tx` with bumped fees and broadcast it as a replacement. */
+async function sendBumped(wallet: DeployerWallet, tx: DeployerTx): Promise<void> {
+  const previous = Transaction.from(tx.raw);
+  const fees = await getNetworkProvider(wallet.network).getFeeData();
+  const replacement: TransactionRequest = {
+    type: previous.type,
+    to: previous.to,
+    data: previous.data,
+    value: previous.value,
+    gasLimit: previous.gasLimit,
+    chainId: previous.chainId,
+    nonce: previous.nonce,
+    accessList: previous.type === 0 ? undefined : previous.accessList,
+  };
+  if (previous.type === 2) {
+    replacement.maxFeePerGas = bumpFee(previous.maxFeePerGas, fees.maxFeePerGas);
+    replacement.maxPriorityFeePerGas = bumpFee(previous.maxPriorityFeePerGas, fees.maxPriorityFeePerGas);
+  } else {
+    replacement.gasPrice = bumpFee(previous.gasPrice, fees.gasPrice);
+  }
+
+  const raw = await wallet.signTransaction(replacement);
+  const hash = (await getNetworkProvider(wallet.network).broadcastTransaction(raw)).hash;
+  tx.raw = raw;
+  tx.hashes.push(hash);
+  tx.bumps += 1;
+  log.warn(`Replaced stuck deployer tx at nonce ${tx.nonce} on ${wallet.network.name}`, { txHash: hash, bump: tx.bumps });
+}
+
+/** Rebroadcast, bump or cancel the tx at the head of the queue once it has waited too long. */
+async function unstickHead(wallet: DeployerWallet, state: NonceState, head: DeployerTx): Promise<void> {
+  if (state.head?.nonce !== head.nonce) state.head = { nonce: head.nonce, since: Date.now() };
+  if (Date.now() - Math.max(state.head.since, head.updatedAt) < config.nonceStuckAfterMs) return;
+
+  const provider = getNetworkProvider(wallet.network);
+  const lastHash = head.hashes[head.hashes.length - 1];
+  const known = await provider.getTransaction(lastHash);
+
+  try {
+    if (!known && !head.acked) {
+      // Never confirmed to have reached the node: take the nonce back
+      head.cancelHash = (await sendFiller(wallet, head.nonce, Transaction.from(head.raw))).hash;
+      log.warn(`Cancelled unconfirmed deployer tx at nonce ${head.nonce} on ${wallet.network.name}`, { txHash: head.cancelHash });
+    } else if (!known) {
+      await provider.broadcastTransaction(head.raw);
+      log.warn(`Rebroadcast dropped deployer tx at nonce ${head.nonce} on ${wallet.network.name}`, { txHash: lastHash });
+    } else if (head.bumps < config.nonceMaxGasBumps) {
+      await sendBumped(wallet, head);
+    } else {
+      log.error(`Deployer tx at nonce ${head.nonce} on ${wallet.network.name} still stuck after ${head.bumps} gas bumps`, { txHash: lastHash });
+    }
+  } catch (err: unknown) {
+    if (!isError(err, "NONCE_EXPIRED")) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error(`Failed to unstick nonce ${head.nonce} on ${wallet.network.name}: ${message}`);
+    }
+  }
+  head.updatedAt = Date.now();
+  persist();
+}
+
+/**
+ * Reconcile a network's counter with the chain: confirmed txs are settled,
+ * a counter behind the chain moves up, unused nonces at the top are handed
+ * out again, and unused nonces below a pending tx are filled.
+ */
+async function checkNetwork(network: NetworkConfig, state: NonceState): Promise<void> {
+  const wallet = new DeployerWallet(network);
+  const [confirmed, chainPending] = await Promise.all([
+    transactionCount(network, state.address, "latest"),
+    transactionCount(network, state.address, "pending"),
+  ]);
+  await settleConfirmed(network, state.address, confirmed);
+
+  const pending = pendingTxs(network.name, state.address);
+  const used = new Set([...pending.map((tx) => tx.nonce), ...state.inFlight]);
+  const highest = Math.max(confirmed, chainPending, ...Array.from(used, (n) => n + 1));
+  if (state.next !== highest) {
+    if (state.next > highest) {
+      log.warn(`Reclaiming unused nonces ${highest}..${state.next - 1} on ${network.name}`);
+    } else {
+      log.warn(`Deployer nonce on ${network.name} behind the chain (${state.next} < ${highest}), resyncing`);
+    }
+    state.next = highest;
+  }
+
+  for (let nonce = confirmed; nonce < state.next; nonce++) {
+    // Re-checked live: a resync may be running alongside the monitor
+    if (used.has(nonce) || nonce < chainPending || state.inFlight.has(nonce)) continue;
+    if (txs.get(txKey(network.name, nonce))?.status === "pending") continue;
+    state.inFlight.add(nonce);
+    try {
+      const { hash, raw } = await sendFiller(wallet, nonce);
+      // Tracked like any other tx, so it is not sent twice and gets unstuck too
+      track(network.name, state.address, nonce, raw, true);
+      log.warn(`Filled nonce gap ${nonce} on ${network.name}`, { txHash: hash });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      log.error(`Failed to fill nonce gap ${nonce} on ${network.name}: ${message}`);
+    } finally {
+      state.inFlight.delete(nonce);
+    }
+  }
+
+  const head = pending.find((tx) => tx.nonce === confirmed);
+  if (head) await unstickHead(wallet, state, head);
+}
+
+/** Resync a network's nonce counter with the chain now; returns the next nonce. */
+export async function resyncNonce(network: NetworkConfig): Promise<number> {
+  const state = await initState(network, new DeployerWallet(network).address);
+  await checkNetwork(network, state);
+  return state.next;
+}
+
+// ---------------------------------------------------------------------------
+// Monitor
+// ---------------------------------------------------------------------------
+
+let _monitorTimer: NodeJS.Timeout | null = null;
+let _running = false;
+
+/** Check every network with deployer activity (initialized, or pending txs from disk). */
+async function checkAll(): Promise<void> {
+  if (_running || !config.proxySignerKey) return;
+  _running = true;
+  try {
+    const names = new Set([
+      ...states.keys(),
+      ...Array.from(txs.values()).filter((tx) => tx.status === "pending").map((tx) => tx.network),
+    ]);
+    for (const name of names) {
+      const network = config.networks[name];
+      if (!network) continue;
+      try {
+        await checkNetwork(network, await initState(network, new DeployerWallet(network).address));
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        log.error(`Nonce check failed on ${name}: ${message}`);
+      }
+    }
+  } finally {
+    _running = false;
+  }
+}
+
+function kick(): void {
+  if (_monitorTimer) {
+    checkAll().catch((err) => log.error("monitor error", { error: err }));
+  }
+}
+
+export function startNonceMonitor(): void {
+  if (_monitorTimer || config.nonceMonitorIntervalMs <= 0) return;
+  _monitorTimer = setInterval(() => {
+    checkAll().catch((err) => log.error("monitor error", { error: err }));
+  }, config.nonceMonitorIntervalMs);
+  // Pick up txs left pending by the previous run right away
+  kick();
+}
+
+export function stopNonceMonitor(): void {
+  if (_monitorTimer) clearInterval(_monitorTimer);
+  _monitorTimer = null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Receipt of a deployer tx, following gas-bumped replacements: `hash` may be
+ * an earlier broadcast of the tx that was actually mined.
+ */
+export async function getDeployerTxReceipt(
+  network: NetworkConfig,
+  hash: string
+): Promise<TransactionReceipt | null> {
+  const provider = getNetworkProvider(network);
+  const tx = Array.from(txs.values()).find((t) => t.network === network.name && t.hashes.includes(hash));
+  for (const candidate of tx ? [...tx.hashes].reverse() : [hash]) {
+    const receipt = await provider.getTransactionReceipt(candidate);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+export function listDeployerTxs(filter: { network?: string; status?: DeployerTxStatus }): DeployerTx[] {
+  return Array.from(txs.values())
+    .filter((tx) =>
+      (filter.network === undefined || tx.network === filter.network) &&
+      (filter.status === undefined || tx.status === filter.status)
+    )
+    .sort((a, b) => b.sentAt - a.sentAt);
+}
+
+export function getNonceStatus(): DeployerNonceStatus[] {
+  return Array.from(states.entries()).map(([network, state]) => ({
+    network,
+    address: state.address,
+    nextNonce: state.next,
+    inFlight: Array.from(state.inFlight).sort((a, b) => a - b),
+    pending: pendingTxs(network, state.address).length,
+  }));
+}
+
+loadFromDisk();
@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "../config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./persistence.js";
+
+/**
+ * Replay protection for on-chain gateway paymentIds (Path B).
+ *
+ * A gateway payment covers `calls` proxied requests. The calls consumed so
+ * far are one counter per payment, `<dir>/<network>/<paymentId>.json`;
+ * paymentIds are only unique per gateway deployment, so counters are kept
+ * per network. The directory is `PAYMENT_IDS_DIR` (default
+ * `data/payment-ids`) and, unlike the rest of the data directory, may be
+ * shared by several proxy instances.
+ *
+ * A counter is only read and written while holding `<paymentId>.lock`,
+ * created with O_CREAT|O_EXCL (`wx`): claiming a call is an atomic
+ * check-and-increment across requests in this process and in other
+ * instances on the same filesystem (local disk or NFSv4), and claims
+ * survive restarts. A lock left behind by a crashed process is broken after
+ * `LOCK_STALE_MS`.
+ */
+
+const USED_DIR = config.paymentIdsDir ? path.resolve(config.paymentIdsDir) : dataPath("payment-ids");
+
+/** Age after which a lock is assumed to belong to a crashed process (ms). */
+const LOCK_STALE_MS = 5_000;
+/** Give up on a busy lock after this long (ms). */
+const LOCK_TIMEOUT_MS = 2_000;
+const LOCK_RETRY_MS = 2;
+
+interface PaymentCounter {
+  used: number;
+}
+
+function counterFile(network: string, paymentId: string): string {
+  // Network names come from config and paymentIds are validated as bytes32
+  // hex before reaching the store, so both are safe to use in paths.
+  return path.join(USED_DIR, network, `${paymentId.toLowerCase()}.json`);
+}
+
+function readUsed(file: string): number {
+  return readJsonFile<PaymentCounter>(file, { used: 0 }).used;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Run `fn` holding the lock of one payment's counter. */
+async function withLock<T>(file: string, fn: () => T): Promise<T> {
+  const lock = `${file}.lock`;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lock, String(process.pid), { flag: "wx" });
+      break;
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lock).mtimeMs > LOCK_STALE_MS) {
+        fs.rmSync(lock, { force: true });
+        continue;
+      }
+    } catch {
+      // Released between our attempt and the stat; retry right away
+      continue;
+    }
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for paymentId lock ${path.basename(lock)}`);
+    await sleep(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * Atomically claim one call of a payment that covers `totalCalls` calls.
+ * Returns the number of calls left after this one, or null if every call is
+ * already used.
+ */
+export async function claimPaymentCall(network: string, paymentId: string, totalCalls: number): Promise<number | null> {
+  const file = counterFile(network, paymentId);
+  return withLock(file, () => {
+    const used = readUsed(file);
+    if (used >= totalCalls) return null;
+    writeJsonFile(file, { used: used + 1 } satisfies PaymentCounter);
+    return totalCalls - used - 1;
+  });
+}
+
+/**
+ * Give a claimed call back so it can be used again, e.g. when the request
+ * failed before it reached the upstream service.
+ */
+export async function releasePaymentCall(network: string, paymentId: string): Promise<void> {
+  const file = counterFile(network, paymentId);
+  await withLock(file, () => {
+    const used = readUsed(file);
+    if (used > 0) writeJsonFile(file, { used: used - 1 } satisfies PaymentCounter);
+  });
+}
+
+/** Number of calls of a payment that have not been consumed yet. */
+export function getRemainingCalls(network: string, paymentId: string, totalCalls: number): number {
+  return Math.max(0, totalCalls - readUsed(counterFile(network, paymentId)));
+}
@@ -0,0 +1,78 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { config } from "../config.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Small file-persistence helpers shared by the proxy's stores.
+ *
+ * Everything lives under `proxy/data/` (git-ignored) unless `DATA_DIR` points
+ * elsewhere. The stores assume a single process owns the directory: snapshots
+ * are rewritten whole and loaded at startup, and the settlement worker takes
+ * every queued job. (Gateway paymentId counters are the exception, see
+ * paymentIdStore and `PAYMENT_IDS_DIR`.) JSON snapshots are written to a temp file and renamed into
+ * place so a crash mid-write never leaves a truncated file behind. Append-only
+ * logs use JSON Lines.
+ */
+
+const log = createLogger("persistence");
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = config.dataDir
+  ? path.resolve(config.dataDir)
+  : path.resolve(__dirname, "../../data");
+
+/** Absolute path of a file inside the data directory. */
+export function dataPath(name: string): string {
+  return path.join(DATA_DIR, name);
+}
+
+export function ensureDir(file: string): void {
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+}
+
+export function readJsonFile<T>(file: string, fallback: T): T {
+  if (!fs.existsSync(file)) return fallback;
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+}
+
+export function writeJsonFile(file: string, data: unknown): void {
+  ensureDir(file);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+  fs.renameSync(tmp, file);
+}
+
+export function appendJsonLine(file: string, record: unknown): void {
+  ensureDir(file);
+  fs.appendFileSync(file, JSON.stringify(record) + "\n");
+}
+
+/** Replace a JSON Lines file with `records`, atomically (used to compact logs). */
+export function writeJsonLines(file: string, records: unknown[]): void {
+  ensureDir(file);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, records.map((record) => JSON.stringify(record) + "\n").join(""));
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Read a JSON Lines file. Unparseable lines (e.g. a torn final write) are
+ * skipped with a warning rather than failing the whole load.
+ */
+export function readJsonLines<T>(file: string): T[] {
+  if (!fs.existsSync(file)) return [];
+  const records: T[] = [];
+  const lines = fs.readFileSync(file, "utf-8").split("\n");
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      log.warn(`Skipping malformed line ${i + 1} in ${path.basename(file)}`);
+    }
+  }
+  return records;
+}
@@ -0,0 +1,134 @@
+import { config } from "../config.js";
+import type { PaymentOption, PricingRule, Resource, ResourcePricing } from "../types/x402.js";
+
+/**
+ * Per-route pricing for resources.
+ *
+ * A resource's `pricing.rules` is an ordered table of (method, path pattern,
+ * price) entries matched against the request path below the resource, i.e.
+ * the part after `/proxy/:resourceId`. The first matching rule sets the
+ * price of the call; a rule priced "0" makes the route free. Requests that
+ * match no rule pay the resource's default price.
+ *
+ * Path patterns:
+ *   - `/docs`           exact path
+ *   - `/users/:id`      `:name` matches one path segment
+ *   - `/v1/images/*`    `*` matches any remainder, including `/`
+ */
+
+const ATOMIC_AMOUNT_PATTERN = /^\d+$/;
+
+const HTTP_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compilePattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split("*")
+      .map((part) =>
+        part
+          .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+          .replace(/:[A-Za-z0-9_]+/g, "[^/]+")
+      )
+      .join(".*");
+    regex = new RegExp(`^${source}/?$`);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Normalize the trailing path captured by `/proxy/:resourceId/*` into a
+ * resource-relative path with a leading slash ("/" for the resource root).
+ */
+export function resourcePath(trailingPath: string | undefined): string {
+  return "/" + (trailingPath ?? "").replace(/^\/+/, "");
+}
+
+/** The first pricing rule matching a request, if any. */
+export function matchPricingRule(
+  resource: Resource,
+  method: string,
+  path: string
+): PricingRule | undefined {
+  const upper = method.toUpperCase();
+  return resource.pricing.rules?.find(
+    (rule) =>
+      (!rule.method || rule.method === "*" || rule.method.toUpperCase() === upper) &&
+      compilePattern(rule.path).test(path)
+  );
+}
+
+/**
+ * Price of one call paid with `option`: the matched rule's price, else the
+ * option's own price, else the resource default.
+ */
+export function priceFor(
+  resource: Resource,
+  option: PaymentOption | undefined,
+  rule: PricingRule | undefined
+): string {
+  return rule?.pricePerCall ?? option?.pricePerCall ?? resource.pricing.pricePerCall;
+}
+
+/**
+ * Validate a pricing block supplied through the admin API. Returns an error
+ * message, or null if the pricing is usable.
+ */
+export function validatePricing(pricing: Partial<ResourcePricing>): string | null {
+  if (typeof pricing.pricePerCall !== "string" || !ATOMIC_AMOUNT_PATTERN.test(pricing.pricePerCall)) {
+    return "pricing.pricePerCall must be an integer string of atomic USDC units";
+  }
+
+  if (pricing.accepts !== undefined) {
+    if (!Array.isArray(pricing.accepts)) return "pricing.accepts must be an array";
+    for (const option of pricing.accepts) {
+      if (!option || typeof option.network !== "string" || !config.networks[option.network]) {
+        return `pricing.accepts entries need a network from: ${Object.keys(config.networks).join(", ")}`;
+      }
+      if (option.pricePerCall !== undefined && !ATOMIC_AMOUNT_PATTERN.test(option.pricePerCall)) {
+        return `pricing.accepts[${option.network}].pricePerCall must be an integer string`;
+      }
+    }
+  }
+
+  if (pricing.rules !== undefined) {
+    if (!Array.isArray(pricing.rules)) return "pricing.rules must be an array";
+    for (const [i, rule] of pricing.rules.entries()) {
+      if (!rule || typeof rule.path !== "string" || !rule.path.startsWith("/")) {
+        return `pricing.rules[${i}].path must be a path starting with "/"`;
+      }
+      if (
+        rule.method !== undefined &&
+        rule.method !== "*" &&
+        !HTTP_METHODS.includes(String(rule.method).toUpperCase())
+      ) {
+        return `pricing.rules[${i}].method must be "*" or one of: ${HTTP_METHODS.join(", ")}`;
+      }
+      if (typeof rule.pricePerCall !== "string" || !ATOMIC_AMOUNT_PATTERN.test(rule.pricePerCall)) {
+        return `pricing.rules[${i}].pricePerCall must be an integer string ("0" for free)`;
+      }
+    }
+  }
+
+  if (pricing.metered !== undefined) {
+    const metered = pricing.metered;
+    if (!metered || (metered.unit !== "tokens" && metered.unit !== "ms")) {
+      return 'pricing.metered.unit must be "tokens" or "ms"';
+    }
+    for (const field of ["pricePerUnit", "maxPerCall", "basePrice"] as const) {
+      const value = metered[field];
+      if (value === undefined && field === "basePrice") continue;
+      if (typeof value !== "string" || !ATOMIC_AMOUNT_PATTERN.test(value)) {
+        return `pricing.metered.${field} must be an integer string of atomic USDC units`;
+      }
+    }
+    if (BigInt(metered.maxPerCall) === 0n) {
+      return "pricing.metered.maxPerCall must be greater than zero";
+    }
+  }
+
+  return null;
+}
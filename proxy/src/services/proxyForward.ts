@@ -1,12 +1,27 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
 import type { Request } from "express";
+import { buffer } from "node:stream/consumers";
 import fetch, { type Response as FetchResponse } from "node-fetch";
-import type { Resource } from "../types/x402.js";
+import { recordUpstreamSuccess, recordUpstreamFailure } from "./upstreamHealth.js";
+import { applyUpstreamAuth, invalidateUpstreamToken } from "./upstreamAuth.js";
+import { attestationHeaders } from "./attestation.js";
+import { upstreamResponses } from "./metrics.js";
+import { ATTESTATION_HEADER, ATTESTATION_SIGNATURE_HEADER } from "../sdk/verifyAttestation.js";
+import type { AttestedPayment, Resource } from "../types/x402.js";
+import { REQUEST_ID_HEADER, createLogger, currentRequestId } from "./logger.js";
 
 /**
  * Generic HTTP relay that forwards incoming requests to the resource's
  * original URL and returns the upstream response.
+ *
+ * Bodies pass through byte for byte in both directions: the request body is
+ * forwarded as received (uploads, form posts, binary payloads keep their
+ * content-type), and the upstream response is handed back as a stream so
+ * images, audio and server-sent events are relayed without buffering.
  */
 
+const log = createLogger("proxyForward");
+
 /** Headers that must NOT be forwarded between hops. */
 const HOP_BY_HOP_HEADERS = new Set([
   "connection",
@@ -21,28 +36,80 @@ const HOP_BY_HOP_HEADERS = new Set([
   "accept-encoding", // Don't forward — node-fetch v2 can't decompress br/zstd
 ]);
 
-/** PragmaMoney-internal headers that should not leak to upstream services. */
+/**
+ * PragmaMoney-internal headers that should not leak to upstream services.
+ * Client-sent attestation headers are dropped so they cannot be spoofed;
+ * the request id is re-set from the request context.
+ */
 const INTERNAL_HEADERS = new Set([
   "x-payment",
   "x-payment-id",
+  "x-payment-network",
+  "payment-signature",
+  ATTESTATION_HEADER,
+  ATTESTATION_SIGNATURE_HEADER,
+  REQUEST_ID_HEADER.toLowerCase(),
 ]);
 
 export interface ForwardResult {
   status: number;
   headers: Record<string, string>;
-  body: unknown;
+  /** Upstream response body, to be piped to the client unchanged. */
+  stream?: NodeJS.ReadableStream;
+  /** JSON error body, set instead of `stream` when the upstream call failed. */
+  body?: unknown;
+  /** Why the upstream call failed (no response was received). */
+  error?: string;
+}
+
+/** A request whose JSON body was parsed by express.json (see captureRawBody). */
+interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
+/**
+ * `verify` hook for express.json: keep the exact bytes of parsed JSON
+ * bodies so they can be forwarded unchanged. Bodies of other content types
+ * are left unread by express and streamed straight from the request.
+ */
+export function captureRawBody(req: IncomingMessage, _res: ServerResponse, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/** The raw bytes of a parsed JSON body, if express.json read one. */
+export function rawBodyOf(req: IncomingMessage): Buffer | undefined {
+  return (req as RawBodyRequest).rawBody;
+}
+
+/**
+ * Strip the query string of `url` from an error message. node-fetch errors
+ * quote the full request URL, which carries the secret of `query` upstream
+ * auth; the message ends up in logs, the ledger and the public health view.
+ */
+function redactQuery(message: string, url: URL | undefined): string {
+  if (!url?.search) return message;
+  return message
+    .split(url.toString())
+    .join(`${url.origin}${url.pathname}`)
+    .split(url.search)
+    .join("");
 }
 
 /**
  * Forward `req` to the upstream service described by `resource`.
  *
  * Any trailing path segments after `/proxy/:resourceId` are appended to
- * the resource's `originalUrl`.
+ * the resource's `originalUrl`. Aborting `signal` (e.g. when the client
+ * disconnects) cancels the upstream request, including a running stream.
+ * Paid calls (`payment` set by the gate) carry signed attestation headers.
  */
 export async function forwardRequest(
   resource: Resource,
-  req: Request
+  req: Request,
+  signal?: AbortSignal,
+  payment?: AttestedPayment
 ): Promise<ForwardResult> {
+  let url: URL | undefined;
   try {
     // Build the target URL.
     // req.params is like { resourceId: "echo-service", "0": "/extra/path" }
@@ -58,32 +125,76 @@ export async function forwardRequest(
       if (value === undefined) continue;
       forwardHeaders[key] = Array.isArray(value) ? value.join(", ") : value;
     }
-
-    // Inject API key for wrapped upstream services
-    if (resource.apiKey) {
-      const header = resource.apiKeyHeader ?? "Authorization";
-      forwardHeaders[header.toLowerCase()] = resource.apiKey;
-    }
+    const requestId = currentRequestId();
+    if (requestId) forwardHeaders[REQUEST_ID_HEADER.toLowerCase()] = requestId;
 
     // Determine request body -- only send for methods that support it.
+    // JSON was already read by express.json, so send its raw bytes; any other
+    // body is still unread and is streamed through. Content-type and
+    // content-length are forwarded as sent by the client. HMAC-signed
+    // upstreams need the exact bytes up front, so their bodies are buffered.
     const hasBody = !["GET", "HEAD", "OPTIONS"].includes(
       req.method.toUpperCase()
     );
-    const body = hasBody && req.body ? JSON.stringify(req.body) : undefined;
+    let body: Buffer | NodeJS.ReadableStream | undefined;
+    if (hasBody) {
+      const rawBody = (req as unknown as RawBodyRequest).rawBody;
+      if (rawBody) {
+        body = rawBody;
+      } else if (!req.readableEnded) {
+        body = resource.upstreamAuth?.type === "hmac" ? await buffer(req) : req;
+      }
+    }
+
+    url = new URL(targetUrl);
 
-    if (hasBody && body) {
-      forwardHeaders["content-type"] = "application/json";
+    // Prove to the upstream that this call came through the proxy and was paid
+    if (payment) {
+      Object.assign(forwardHeaders, await attestationHeaders(resource, payment, req.method, url.pathname));
     }
 
-    const upstream: FetchResponse = await fetch(targetUrl, {
+    // Authenticate to wrapped upstream services (secrets decrypted only here)
+    const auth = await applyUpstreamAuth(resource, {
+      method: req.method,
+      url,
+      headers: forwardHeaders,
+      body: Buffer.isBuffer(body) ? body : undefined,
+    });
+    if (!auth.ok) {
+      // A proxy-side credential problem, not an upstream failure
+      log.error("Upstream auth failed", { resourceId: resource.id, error: auth.error });
+      return {
+        status: auth.status,
+        headers: {},
+        body: { error: "Upstream authentication failed" },
+        error: auth.error,
+      };
+    }
+
+    const upstream: FetchResponse = await fetch(url.toString(), {
       method: req.method,
       headers: forwardHeaders,
       body,
-      timeout: 30_000, // 30 s upstream timeout
+      signal,
+      timeout: 30_000, // 30 s until upstream response headers
     });
 
+    // An expired or revoked OAuth2 token: fetch a fresh one next call
+    if (upstream.status === 401 && resource.upstreamAuth?.type === "oauth2-client-credentials") {
+      invalidateUpstreamToken(resource.id);
+    }
+
+    upstreamResponses.inc({ resource: resource.id, class: `${Math.floor(upstream.status / 100)}xx` });
+
+    // Feed the resource's circuit breaker
+    if (upstream.status >= 500) {
+      recordUpstreamFailure(resource.id, `Upstream HTTP ${upstream.status}`);
+    } else {
+      recordUpstreamSuccess(resource.id);
+    }
+
     // Collect response headers, stripping hop-by-hop and content-encoding/length
-    // (we re-serialize the body, so these won't match the original).
+    // (node-fetch decompresses the body, so these won't match what we relay).
     const SKIP_RESPONSE_HEADERS = new Set([
       ...HOP_BY_HOP_HEADERS,
       "content-encoding",
@@ -96,28 +207,27 @@ export async function forwardRequest(
       }
     });
 
-    // Try to parse as JSON; fall back to raw text.
-    let responseBody: unknown;
-    const contentType = upstream.headers.get("content-type") ?? "";
-    if (contentType.includes("application/json")) {
-      responseBody = await upstream.json();
-    } else {
-      responseBody = await upstream.text();
-    }
-
     return {
       status: upstream.status,
       headers: responseHeaders,
-      body: responseBody,
+      stream: upstream.body,
     };
   } catch (err: unknown) {
-    const message =
-      err instanceof Error ? err.message : "Upstream request failed";
-    console.error(`[proxyForward] error: ${message}`);
+    const message = redactQuery(
+      err instanceof Error ? err.message : "Upstream request failed",
+      url
+    );
+    log.error("Upstream request failed", { resourceId: resource.id, error: message });
+    // A client disconnect is not the upstream's fault
+    if (!signal?.aborted) {
+      recordUpstreamFailure(resource.id, message);
+      upstreamResponses.inc({ resource: resource.id, class: "error" });
+    }
     return {
       status: 502,
       headers: {},
-      body: { error: "Bad Gateway", detail: message },
+      body: { error: "Bad Gateway" },
+      error: message,
     };
   }
 }
@@ -0,0 +1,63 @@
+import type { Response } from "express";
+import type { RateLimit } from "../types/x402.js";
+
+/**
+ * In-memory fixed-window rate limiter.
+ *
+ * Each key (e.g. `ip:1.2.3.4`, `payer:<resourceId>:<address>`) gets a
+ * counter that resets every `windowMs`. Limits are per proxy instance.
+ */
+
+interface Window {
+  startedAt: number;
+  windowMs: number;
+  count: number;
+}
+
+const windows = new Map<string, Window>();
+
+/** Drop expired windows once the map grows past this many keys. */
+const SWEEP_THRESHOLD = 10_000;
+
+function sweep(now: number): void {
+  for (const [key, w] of windows) {
+    if (now - w.startedAt >= w.windowMs) windows.delete(key);
+  }
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Count one request against `key`. A limit with `requests <= 0` is
+ * unlimited.
+ */
+export function consumeRateLimit(key: string, limit: RateLimit): RateLimitResult {
+  if (limit.requests <= 0) return { allowed: true, remaining: Infinity };
+
+  const now = Date.now();
+  if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+  let w = windows.get(key);
+  if (!w || now - w.startedAt >= w.windowMs || w.windowMs !== limit.windowMs) {
+    w = { startedAt: now, windowMs: limit.windowMs, count: 0 };
+    windows.set(key, w);
+  }
+
+  if (w.count >= limit.requests) {
+    return { allowed: false, retryAfterSeconds: Math.ceil((w.startedAt + w.windowMs - now) / 1000) };
+  }
+  w.count += 1;
+  return { allowed: true, remaining: limit.requests - w.count };
+}
+
+/** Respond 429 with Retry-After for a rejected request. */
+export function sendRateLimited(res: Response, retryAfterSeconds: number, scope: string): void {
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({
+    error: "Rate limit exceeded",
+    scope,
+    retryAfter: retryAfterSeconds,
+  });
+}
@@ -0,0 +1,236 @@
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { getAllResources, syncResourceFromChain } from "./resourceStore.js";
+import { getOnChainServiceId } from "../models/Resource.js";
+import { getNetworkProvider } from "./chainClient.js";
+import type { RegistrySyncStatus, UnmappedService } from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Background sync from the home network's ServiceRegistry into the
+ * resource store.
+ *
+ * A full walk (`getServiceCount` / `getServiceIdAt` / `getService`) runs at
+ * start-up and every `config.registryFullSyncIntervalMs`. In between,
+ * ServicePriceUpdated / ServiceDeactivated / ServiceRegistered events are
+ * polled every `config.registrySyncIntervalMs`. Bound resources get the
+ * on-chain price and active flag; on-chain services without a resource are
+ * listed as unmapped so an operator (or the owner, via /register-service)
+ * can give them an upstream.
+ */
+
+const log = createLogger("registrySync");
+
+const SERVICE_REGISTRY_ABI = [
+  "function getServiceCount() view returns (uint256)",
+  "function getServiceIdAt(uint256 index) view returns (bytes32)",
+  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
+  "event ServiceRegistered(bytes32 indexed serviceId, uint256 indexed agentId, address indexed owner, string name, uint256 pricePerCall, uint8 serviceType)",
+  "event ServicePriceUpdated(bytes32 indexed serviceId, uint256 oldPrice, uint256 newPrice)",
+  "event ServiceDeactivated(bytes32 indexed serviceId)",
+];
+
+/** Largest block range requested per getLogs call; bigger gaps trigger a full walk. */
+const MAX_LOG_RANGE = 5_000;
+/** Services fetched concurrently during a full walk. */
+const WALK_CONCURRENCY = 8;
+
+interface OnChainService {
+  serviceId: string;
+  owner: string;
+  name: string;
+  pricePerCall: bigint;
+  endpoint: string;
+  active: boolean;
+}
+
+const status: RegistrySyncStatus = { servicesOnChain: 0, unmapped: [] };
+const unmapped = new Map<string, UnmappedService>();
+let _running = false;
+let _registry: ethers.Contract | null = null;
+
+function registry(): ethers.Contract {
+  if (!_registry) {
+    const home = config.networks[config.homeNetwork];
+    _registry = new ethers.Contract(home.serviceRegistryAddress, SERVICE_REGISTRY_ABI, getNetworkProvider(home));
+  }
+  return _registry;
+}
+
+/** Resource ids bound to each on-chain serviceId (lower-cased). */
+function resourcesByServiceId(): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const resource of getAllResources()) {
+    const serviceId = getOnChainServiceId(resource)?.toLowerCase();
+    if (!serviceId) continue;
+    map.set(serviceId, [...(map.get(serviceId) ?? []), resource.id]);
+  }
+  return map;
+}
+
+/** Apply one service's on-chain state; returns the number of resources changed. */
+function applyService(service: OnChainService, bound: Map<string, string[]>): number {
+  const key = service.serviceId.toLowerCase();
+  const resourceIds = bound.get(key);
+  if (!resourceIds) {
+    unmapped.set(key, {
+      serviceId: service.serviceId,
+      name: service.name,
+      owner: service.owner,
+      pricePerCall: service.pricePerCall.toString(),
+      endpoint: service.endpoint,
+      active: service.active,
+    });
+    return 0;
+  }
+
+  unmapped.delete(key);
+  let changed = 0;
+  for (const id of resourceIds) {
+    if (syncResourceFromChain(id, service.pricePerCall.toString(), service.active)) {
+      log.info(
+        `${id}: price=${service.pricePerCall} active=${service.active} (from ${service.serviceId})`
+      );
+      changed++;
+    }
+  }
+  return changed;
+}
+
+async function fetchService(contract: ethers.Contract, serviceId: string): Promise<OnChainService> {
+  const s = await contract.getService(serviceId);
+  return {
+    serviceId,
+    owner: s.owner as string,
+    name: s.name as string,
+    pricePerCall: s.pricePerCall as bigint,
+    endpoint: s.endpoint as string,
+    active: s.active as boolean,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Full walk
+// ---------------------------------------------------------------------------
+
+async function fullSync(): Promise<void> {
+  const contract = registry();
+  const latestBlock = await contract.runner!.provider!.getBlockNumber();
+  const count = Number(await contract.getServiceCount());
+
+  const ids: string[] = [];
+  for (let start = 0; start < count; start += WALK_CONCURRENCY) {
+    const batch = Array.from({ length: Math.min(WALK_CONCURRENCY, count - start) }, (_, i) => start + i);
+    ids.push(...(await Promise.all(batch.map((i) => contract.getServiceIdAt(i) as Promise<string>))));
+  }
+
+  const bound = resourcesByServiceId();
+  unmapped.clear();
+  let changed = 0;
+  for (let start = 0; start < ids.length; start += WALK_CONCURRENCY) {
+    const services = await Promise.all(
+      ids.slice(start, start + WALK_CONCURRENCY).map((id) => fetchService(contract, id))
+    );
+    for (const service of services) changed += applyService(service, bound);
+  }
+
+  status.servicesOnChain = count;
+  status.lastFullSyncAt = Date.now();
+  status.lastBlock = latestBlock;
+  log.info(
+    `Full sync: ${count} services on-chain, ${changed} resources updated, ${unmapped.size} unmapped`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Event polling
+// ---------------------------------------------------------------------------
+
+async function pollEvents(): Promise<void> {
+  const contract = registry();
+  const latestBlock = await contract.runner!.provider!.getBlockNumber();
+  const fromBlock = (status.lastBlock ?? latestBlock) + 1;
+  if (fromBlock > latestBlock) return;
+  if (latestBlock - fromBlock >= MAX_LOG_RANGE) {
+    // Too far behind for getLogs: re-walk instead
+    await fullSync();
+    return;
+  }
+
+  const logs = await contract.queryFilter("*", fromBlock, latestBlock);
+  const touched = new Set<string>();
+  for (const log of logs) {
+    if (!("args" in log)) continue;
+    if (["ServiceRegistered", "ServicePriceUpdated", "ServiceDeactivated"].includes(log.eventName)) {
+      touched.add(log.args.serviceId as string);
+    }
+  }
+
+  if (touched.size > 0) {
+    // Re-read current state rather than replaying events, so ordering and
+    // reorgs within the range cannot leave a stale price behind
+    const bound = resourcesByServiceId();
+    for (const serviceId of touched) {
+      applyService(await fetchService(contract, serviceId), bound);
+    }
+    if (logs.some((log) => "args" in log && log.eventName === "ServiceRegistered")) {
+      status.servicesOnChain = Number(await contract.getServiceCount());
+    }
+  }
+  status.lastBlock = latestBlock;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run one sync step: a full walk if one is due (or `full` is set),
+ * otherwise an event poll. Concurrent calls are skipped.
+ */
+export async function syncRegistry(full = false): Promise<void> {
+  if (_running) return;
+  _running = true;
+  try {
+    const due =
+      full ||
+      status.lastFullSyncAt === undefined ||
+      Date.now() - status.lastFullSyncAt >= config.registryFullSyncIntervalMs;
+    if (due) {
+      await fullSync();
+    } else {
+      await pollEvents();
+    }
+    status.lastError = undefined;
+  } catch (err: unknown) {
+    status.lastError = err instanceof Error ? err.message : String(err);
+    throw err;
+  } finally {
+    _running = false;
+  }
+}
+
+export function getRegistrySyncStatus(): RegistrySyncStatus {
+  // Services given a resource since the last sync are no longer unmapped
+  const bound = resourcesByServiceId();
+  return {
+    ...status,
+    unmapped: Array.from(unmapped.values()).filter((s) => !bound.has(s.serviceId.toLowerCase())),
+  };
+}
+
+let _syncTimer: NodeJS.Timeout | null = null;
+
+export function startRegistrySync(): void {
+  if (_syncTimer || config.registrySyncIntervalMs <= 0) return;
+  const run = () => {
+    syncRegistry().catch((err) => log.error("sync error", { error: err }));
+  };
+  run();
+  _syncTimer = setInterval(run, config.registrySyncIntervalMs);
+}
+
+export function stopRegistrySync(): void {
+  if (_syncTimer) clearInterval(_syncTimer);
+  _syncTimer = null;
+}
@@ -1,8 +1,15 @@
-import fs from "node:fs";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
-import type { Resource, ServiceType, ResourcePricing } from "../types/x402.js";
+import type {
+  Resource,
+  ResourceInput,
+  ResourcePricing,
+  ResourceRateLimits,
+  UpstreamAuth,
+  AttestationMode,
+} from "../types/x402.js";
 import { createResource } from "../models/Resource.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./persistence.js";
+import { encryptSecret, isVaultConfigured } from "./secretVault.js";
+import { createLogger } from "./logger.js";
 
 /**
  * Resource / service store with JSON file persistence.
@@ -10,10 +17,14 @@ import { createResource } from "../models/Resource.js";
  * Resources describe upstream services that can be reached through the proxy.
  * Each resource has pricing information that the x402Gate middleware uses to
  * build PaymentRequirements.
+ *
+ * Upstream API keys are stored sealed (see secretVault.ts); use
+ * toPublicResource() before returning a resource to any client.
  */
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const STORE_FILE = path.resolve(__dirname, "../../data/resources.json");
+const log = createLogger("resourceStore");
+
+const STORE_FILE = dataPath("resources.json");
 
 const store = new Map<string, Resource>();
 
@@ -22,19 +33,43 @@ const store = new Map<string, Resource>();
 // ---------------------------------------------------------------------------
 
 function persist(): void {
-  const dir = path.dirname(STORE_FILE);
-  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-  fs.writeFileSync(STORE_FILE, JSON.stringify(Array.from(store.values()), null, 2));
+  writeJsonFile(STORE_FILE, Array.from(store.values()));
+}
+
+/** Resources persisted before API keys were encrypted carry a plaintext `apiKey`. */
+type StoredResource = Resource & { apiKey?: string };
+
+/**
+ * Seal legacy plaintext API keys. Without a master key they are left as-is
+ * (and not forwarded) so no data is lost. Returns true if anything changed.
+ */
+function migratePlaintextKey(r: StoredResource): boolean {
+  if (r.apiKey === undefined) return false;
+  if (!isVaultConfigured()) {
+    log.warn(`${r.id} has a plaintext API key; set SECRETS_MASTER_KEY to encrypt and use it`);
+    return false;
+  }
+  if (r.apiKey) r.encryptedApiKey = encryptSecret(r.apiKey);
+  delete r.apiKey;
+  return true;
 }
 
 function loadFromDisk(): void {
-  if (!fs.existsSync(STORE_FILE)) return;
   try {
-    const data = JSON.parse(fs.readFileSync(STORE_FILE, "utf-8")) as Resource[];
-    for (const r of data) store.set(r.id, r);
-    console.log(`[resourceStore] Loaded ${data.length} resources from disk`);
+    const data = readJsonFile<StoredResource[]>(STORE_FILE, []);
+    if (data.length === 0) return;
+    let migrated = 0;
+    for (const r of data) {
+      if (migratePlaintextKey(r)) migrated++;
+      store.set(r.id, r);
+    }
+    log.info(`Loaded ${data.length} resources from disk`);
+    if (migrated > 0) {
+      persist();
+      log.info(`Encrypted ${migrated} plaintext API key(s)`);
+    }
   } catch {
-    console.warn("[resourceStore] Failed to load resources from disk, starting fresh");
+    log.warn("Failed to load resources from disk, starting fresh");
   }
 }
 
@@ -50,22 +85,106 @@ export function getAllResources(): Resource[] {
   return Array.from(store.values());
 }
 
-export function registerResource(params: {
-  id: string;
-  name: string;
-  type: ServiceType;
-  creatorAddress: string;
-  originalUrl: string;
-  pricing: ResourcePricing;
-  apiKey?: string;
-  apiKeyHeader?: string;
-}): Resource {
+/** Throws if an API key is given but SECRETS_MASTER_KEY is not configured. */
+export function registerResource(params: ResourceInput): Resource {
   const resource = createResource(params);
+  if (params.apiKey) resource.encryptedApiKey = encryptSecret(params.apiKey);
   store.set(resource.id, resource);
   persist();
   return resource;
 }
 
+/** Replace a resource's pricing. Returns the updated resource, if it exists. */
+export function updateResourcePricing(id: string, pricing: ResourcePricing): Resource | undefined {
+  const resource = store.get(id);
+  if (!resource) return undefined;
+  resource.pricing = pricing;
+  persist();
+  return resource;
+}
+
+/** Replace a resource's owner-set rate limits. Returns the updated resource, if it exists. */
+export function updateResourceRateLimits(id: string, rateLimits: ResourceRateLimits): Resource | undefined {
+  const resource = store.get(id);
+  if (!resource) return undefined;
+  resource.rateLimits = rateLimits;
+  persist();
+  return resource;
+}
+
+/**
+ * Rotate (or, with an empty key, remove) a resource's upstream API key.
+ * Returns the updated resource, if it exists. Throws if SECRETS_MASTER_KEY is
+ * not configured and a key is given.
+ */
+export function updateResourceApiKey(
+  id: string,
+  apiKey: string | undefined,
+  apiKeyHeader?: string
+): Resource | undefined {
+  const resource = store.get(id) as StoredResource | undefined;
+  if (!resource) return undefined;
+  resource.encryptedApiKey = apiKey ? encryptSecret(apiKey) : undefined;
+  delete resource.apiKey;
+  if (apiKeyHeader !== undefined) resource.apiKeyHeader = apiKeyHeader || undefined;
+  persist();
+  return resource;
+}
+
+/**
+ * Replace how a resource authenticates to its upstream (undefined restores
+ * the plain `apiKeyHeader` header). A given secret replaces the stored one.
+ * Returns the updated resource, if it exists.
+ */
+export function updateResourceUpstreamAuth(
+  id: string,
+  upstreamAuth: UpstreamAuth | undefined,
+  secret?: string
+): Resource | undefined {
+  const resource = store.get(id) as StoredResource | undefined;
+  if (!resource) return undefined;
+  resource.upstreamAuth = upstreamAuth;
+  if (secret) {
+    resource.encryptedApiKey = encryptSecret(secret);
+    delete resource.apiKey;
+  }
+  persist();
+  return resource;
+}
+
+/**
+ * Set a resource's attestation mode; a given secret replaces the stored
+ * HMAC attestation secret. Returns the updated resource, if it exists.
+ */
+export function updateResourceAttestation(
+  id: string,
+  mode: AttestationMode,
+  secret?: string
+): Resource | undefined {
+  const resource = store.get(id);
+  if (!resource) return undefined;
+  resource.attestation = mode;
+  if (secret) resource.encryptedAttestationSecret = encryptSecret(secret);
+  persist();
+  return resource;
+}
+
+/**
+ * Apply on-chain state to a resource bound to a ServiceRegistry service:
+ * its default price and whether it is still active. Returns true if
+ * anything changed.
+ */
+export function syncResourceFromChain(id: string, pricePerCall: string, active: boolean): boolean {
+  const resource = store.get(id);
+  if (!resource) return false;
+  const wasActive = resource.active !== false;
+  if (resource.pricing.pricePerCall === pricePerCall && wasActive === active) return false;
+  resource.pricing = { ...resource.pricing, pricePerCall };
+  resource.active = active ? undefined : false;
+  persist();
+  return true;
+}
+
 export function removeResource(id: string): boolean {
   const result = store.delete(id);
   if (result) persist();
@@ -0,0 +1,195 @@
+import { randomUUID } from "node:crypto";
+import { config } from "../config.js";
+import { enqueueSettlement } from "./settlementQueue.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./persistence.js";
+import type { AgentAccrual, SettlementStepInput } from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Revenue accrual for batched settlement mode.
+ *
+ * Instead of two USDC transfers plus a recordUsage tx per paid call, the
+ * split amounts and usage counts are accumulated per agent in
+ * `data/accruals.json` and flushed into the settlement queue as a single
+ * job per agent: one transfer per split target and one recordUsage per
+ * service. Flushes happen on `config.accrualFlushIntervalMs`, or early once
+ * an agent's accrued revenue reaches `config.accrualFlushThreshold`.
+ */
+
+const log = createLogger("revenueAccrual");
+
+const ACCRUAL_FILE = dataPath("accruals.json");
+
+const accruals = new Map<string, AgentAccrual>();
+
+// ---------------------------------------------------------------------------
+// Persistence helpers
+// ---------------------------------------------------------------------------
+
+function persist(): void {
+  writeJsonFile(ACCRUAL_FILE, Array.from(accruals.values()));
+}
+
+function loadFromDisk(): void {
+  try {
+    const data = readJsonFile<AgentAccrual[]>(ACCRUAL_FILE, []);
+    for (const a of data) accruals.set(a.agentId, a);
+    if (data.length > 0) {
+      log.info(`Loaded accruals for ${data.length} agents from disk`);
+    }
+  } catch {
+    log.warn("Failed to load accruals from disk, starting fresh");
+  }
+}
+
+function totalRevenue(accrual: AgentAccrual): bigint {
+  return Object.values(accrual.services).reduce((sum, s) => sum + BigInt(s.revenue), 0n);
+}
+
+function sameTargets(accrual: AgentAccrual, agentWallet?: string, pool?: string): boolean {
+  return (
+    (accrual.agentWallet ?? "").toLowerCase() === (agentWallet ?? "").toLowerCase() &&
+    (accrual.pool ?? "").toLowerCase() === (pool ?? "").toLowerCase()
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Accrue one paid call. `poolAmount` / `walletAmount` are the split shares
+ * (zero when the agent has no split targets, in which case only usage is
+ * recorded on flush).
+ */
+export function accrueRevenue(params: {
+  agentId: string;
+  serviceId: string;
+  revenue: string;
+  calls: number;
+  agentWallet?: string;
+  pool?: string;
+  poolAmount: string;
+  walletAmount: string;
+}): void {
+  let accrual = accruals.get(params.agentId);
+
+  // Split targets changed since the last accrual: pay out the old targets
+  // first so nothing is sent to the wrong address.
+  if (accrual && !sameTargets(accrual, params.agentWallet, params.pool)) {
+    flushAgent(params.agentId);
+    accrual = undefined;
+  }
+
+  const now = Date.now();
+  if (!accrual) {
+    accrual = {
+      agentId: params.agentId,
+      agentWallet: params.agentWallet,
+      pool: params.pool,
+      poolAmount: "0",
+      walletAmount: "0",
+      services: {},
+      since: now,
+      updatedAt: now,
+    };
+    accruals.set(params.agentId, accrual);
+  }
+
+  accrual.poolAmount = (BigInt(accrual.poolAmount) + BigInt(params.poolAmount)).toString();
+  accrual.walletAmount = (BigInt(accrual.walletAmount) + BigInt(params.walletAmount)).toString();
+  const usage = accrual.services[params.serviceId] ?? { calls: 0, revenue: "0" };
+  usage.calls += params.calls;
+  usage.revenue = (BigInt(usage.revenue) + BigInt(params.revenue)).toString();
+  accrual.services[params.serviceId] = usage;
+  accrual.updatedAt = now;
+  persist();
+
+  if (totalRevenue(accrual) >= BigInt(config.accrualFlushThreshold)) {
+    flushAgent(params.agentId);
+  }
+}
+
+/**
+ * Move an agent's accrual into the settlement queue. Returns the settlement
+ * id, or undefined if nothing was accrued.
+ */
+export function flushAgent(agentId: string): string | undefined {
+  const accrual = accruals.get(agentId);
+  if (!accrual) return undefined;
+
+  const steps: SettlementStepInput[] = [];
+  if (accrual.pool && BigInt(accrual.poolAmount) > 0n) {
+    steps.push({ kind: "transfer", label: "pool", to: accrual.pool, amount: accrual.poolAmount });
+  }
+  if (accrual.agentWallet && BigInt(accrual.walletAmount) > 0n) {
+    steps.push({ kind: "transfer", label: "agentWallet", to: accrual.agentWallet, amount: accrual.walletAmount });
+  }
+  for (const [serviceId, usage] of Object.entries(accrual.services)) {
+    steps.push({ kind: "recordUsage", serviceId, calls: usage.calls, revenue: usage.revenue });
+  }
+
+  const job = enqueueSettlement({
+    key: `accrual:${agentId}:${randomUUID()}`,
+    agentId,
+    steps,
+  });
+  accruals.delete(agentId);
+  persist();
+
+  log.info(
+    `Flushed agentId=${agentId} into settlement ${job.id}: ` +
+    `pool=${accrual.poolAmount}, wallet=${accrual.walletAmount}, services=${Object.keys(accrual.services).length}`
+  );
+  return job.id;
+}
+
+/** Flush every agent's accrual. Returns the created settlement ids. */
+export function flushAll(): string[] {
+  const ids: string[] = [];
+  for (const agentId of Array.from(accruals.keys())) {
+    const id = flushAgent(agentId);
+    if (id) ids.push(id);
+  }
+  return ids;
+}
+
+export function getAccrual(agentId: string): AgentAccrual | undefined {
+  return accruals.get(agentId);
+}
+
+export function getAllAccruals(): AgentAccrual[] {
+  return Array.from(accruals.values());
+}
+
+// ---------------------------------------------------------------------------
+// Flusher
+// ---------------------------------------------------------------------------
+
+let _flushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start the periodic flush in batched mode. In immediate mode, any accruals
+ * left over from a previous batched run are flushed once.
+ */
+export function startAccrualFlusher(): void {
+  if (config.settlementMode !== "batched") {
+    if (accruals.size > 0) flushAll();
+    return;
+  }
+  if (_flushTimer) return;
+  _flushTimer = setInterval(() => {
+    try {
+      flushAll();
+    } catch (err) {
+      log.error("flush error", { error: err });
+    }
+  }, config.accrualFlushIntervalMs);
+}
+
+export function stopAccrualFlusher(): void {
+  if (_flushTimer) clearInterval(_flushTimer);
+  _flushTimer = null;
+}
+
+loadFromDisk();
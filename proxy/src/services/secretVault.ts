@@ -0,0 +1,56 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { config } from "../config.js";
+
+/**
+ * Encryption of upstream secrets (API keys) at rest.
+ *
+ * Secrets are sealed with AES-256-GCM under `config.secretsMasterKey` and
+ * stored as `enc:v1:<iv>:<tag>:<ciphertext>` (base64 parts). Only
+ * proxyForward decrypts them, right before calling the upstream.
+ */
+
+const PREFIX = "enc:v1:";
+const HEX_KEY_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+let _key: Buffer | null = null;
+
+function masterKey(): Buffer {
+  if (!config.secretsMasterKey) {
+    throw new Error("SECRETS_MASTER_KEY not configured on server");
+  }
+  if (!_key) {
+    const raw = config.secretsMasterKey;
+    _key = HEX_KEY_PATTERN.test(raw)
+      ? Buffer.from(raw.replace(/^0x/, ""), "hex")
+      : createHash("sha256").update(raw, "utf-8").digest();
+  }
+  return _key;
+}
+
+/** Whether secrets can be encrypted/decrypted (a master key is configured). */
+export function isVaultConfigured(): boolean {
+  return !!config.secretsMasterKey;
+}
+
+/** Whether a stored value is a sealed secret (as opposed to legacy plaintext). */
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", masterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return PREFIX + [iv, tag, ciphertext].map((b) => b.toString("base64")).join(":");
+}
+
+/** Throws if the value is malformed or was sealed under a different master key. */
+export function decryptSecret(sealed: string): string {
+  if (!isEncryptedSecret(sealed)) throw new Error("Not an encrypted secret");
+  const [iv, tag, ciphertext] = sealed.slice(PREFIX.length).split(":").map((p) => Buffer.from(p, "base64"));
+  if (!iv || !tag || !ciphertext) throw new Error("Malformed encrypted secret");
+  const decipher = createDecipheriv("aes-256-gcm", masterKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
+}
@@ -0,0 +1,171 @@
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { getNetworkProvider, multicall } from "./chainClient.js";
+import { counter } from "./metrics.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * On-chain service owner and revenue split targets, as the payment gate
+ * needs them on every paid call.
+ *
+ * Lookups go to the home network through the shared provider: one read for
+ * the service, then the agent wallet and pool in a single multicall.
+ * Results are cached for `config.chainCacheTtlMs`, per service (owner,
+ * agentId) and per agent (wallet, pool), and concurrent misses share one
+ * lookup. The chain indexer drops entries as soon as it sees a registry or
+ * factory event for them, so the TTL only bounds changes it does not follow
+ * (e.g. an agent wallet update in the IdentityRegistry).
+ */
+
+const log = createLogger("serviceInfo");
+
+const SERVICE_REGISTRY_GETSERVICE_ABI = [
+  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
+];
+
+const AGENT_FACTORY_ABI = [
+  "function poolByAgentId(uint256 agentId) view returns (address)",
+];
+
+const IDENTITY_REGISTRY_ABI = [
+  "function getAgentWallet(uint256 agentId) view returns (address)",
+];
+
+const factoryIface = new ethers.Interface(AGENT_FACTORY_ABI);
+const identityIface = new ethers.Interface(IDENTITY_REGISTRY_ABI);
+
+const BYTES32_HEX_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export interface SplitTargets {
+  agentWallet: string;
+  pool: string;
+}
+
+export interface ServiceInfo {
+  owner: string;
+  agentId: string;
+  splitTargets: SplitTargets | null;
+}
+
+interface ServiceOwner {
+  owner: string;
+  agentId: bigint;
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+const serviceCache = new Map<string, CacheEntry<ServiceOwner | null>>();
+const agentCache = new Map<string, CacheEntry<SplitTargets | null>>();
+
+const cacheLookups = counter(
+  "pragma_chain_cache_lookups_total",
+  "On-chain lookups of the payment gate by cache (service, agent) and result (hit, miss)."
+);
+
+/**
+ * Cached `load()`. A failed load is not cached, so the next request
+ * retries it.
+ */
+function cached<T>(cache: Map<string, CacheEntry<T>>, name: string, key: string, load: () => Promise<T>): Promise<T> {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    cacheLookups.inc({ cache: name, result: "hit" });
+    return entry.value;
+  }
+
+  cacheLookups.inc({ cache: name, result: "miss" });
+  const value = load();
+  if (config.chainCacheTtlMs > 0) {
+    cache.set(key, { value, expiresAt: Date.now() + config.chainCacheTtlMs });
+    value.catch(() => {
+      if (cache.get(key)?.value === value) cache.delete(key);
+    });
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Lookups
+// ---------------------------------------------------------------------------
+
+async function loadServiceOwner(serviceId: string): Promise<ServiceOwner | null> {
+  const home = config.networks[config.homeNetwork];
+  const registry = new ethers.Contract(
+    config.serviceRegistryAddress,
+    SERVICE_REGISTRY_GETSERVICE_ABI,
+    getNetworkProvider(home)
+  );
+
+  const service = await registry.getService(serviceId);
+  const owner = service.owner as string;
+  if (!owner || owner === ethers.ZeroAddress) return null;
+  log.info(`Resolved on-chain owner for ${serviceId}: ${owner}, agentId=${service.agentId}`);
+  return { owner, agentId: service.agentId as bigint };
+}
+
+async function loadSplitTargets(agentId: bigint): Promise<SplitTargets | null> {
+  const home = config.networks[config.homeNetwork];
+  const [[agentWallet], [pool]] = await multicall(home, [
+    { target: config.identityRegistryAddress, iface: identityIface, method: "getAgentWallet", args: [agentId] },
+    { target: config.agentPoolFactoryAddress, iface: factoryIface, method: "poolByAgentId", args: [agentId] },
+  ]);
+
+  if (
+    agentWallet && agentWallet !== ethers.ZeroAddress &&
+    pool && pool !== ethers.ZeroAddress
+  ) {
+    log.info(`Split targets for agentId=${agentId}: wallet=${agentWallet}, pool=${pool}`);
+    return { agentWallet: agentWallet as string, pool: pool as string };
+  }
+  log.info(`No split targets for agentId=${agentId} (wallet=${agentWallet}, pool=${pool})`);
+  return null;
+}
+
+/**
+ * Resolve on-chain service info: owner + split targets (agentWallet, pool).
+ * Only works for on-chain services (bytes32 hex: 0x + 64 hex chars).
+ * Returns null on failure so callers can fall back to resource.creatorAddress.
+ * splitTargets is null if the agent has no wallet or pool (graceful fallback).
+ */
+export async function resolveServiceInfo(serviceId: string): Promise<ServiceInfo | null> {
+  if (!BYTES32_HEX_PATTERN.test(serviceId)) {
+    return null;
+  }
+
+  let service: ServiceOwner | null;
+  try {
+    service = await cached(serviceCache, "service", serviceId.toLowerCase(), () => loadServiceOwner(serviceId));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.warn(`Failed to resolve service info for ${serviceId}: ${message}`);
+    return null;
+  }
+  if (!service) return null;
+
+  let splitTargets: SplitTargets | null = null;
+  try {
+    splitTargets = await cached(agentCache, "agent", service.agentId.toString(), () => loadSplitTargets(service.agentId));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.warn(`Failed to resolve split targets for agentId=${service.agentId}: ${message}`);
+  }
+
+  return { owner: service.owner, agentId: service.agentId.toString(), splitTargets };
+}
+
+// ---------------------------------------------------------------------------
+// Invalidation
+// ---------------------------------------------------------------------------
+
+/** Forget a service's cached owner (on a ServiceRegistry event for it). */
+export function invalidateServiceInfo(serviceId: string): void {
+  serviceCache.delete(serviceId.toLowerCase());
+}
+
+/** Forget an agent's cached wallet and pool (on an AgentFactory event for it). */
+export function invalidateAgentInfo(agentId: string): void {
+  agentCache.delete(agentId);
+}
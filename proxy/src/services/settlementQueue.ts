@@ -0,0 +1,345 @@
+import { randomUUID } from "node:crypto";
+import { ethers } from "ethers";
+import { config, type NetworkConfig } from "../config.js";
+import { getDeployerSigner, getDeployerTxReceipt, type DeployerWallet } from "./nonceManager.js";
+import { appendJsonLine, dataPath, readJsonLines, writeJsonLines } from "./persistence.js";
+import type {
+  Settlement,
+  SettlementStatus,
+  SettlementStep,
+  SettlementStepInput,
+} from "../types/x402.js";
+import { createLogger, currentRequestId, runWithRequestId } from "./logger.js";
+
+/**
+ * Persistent settlement queue for proxy-signer transactions.
+ *
+ * Revenue received by the proxy signer (USDC pool/agent-wallet splits), the
+ * matching ServiceRegistry.recordUsage() calls and refunds of failed calls
+ * are enqueued as jobs in `data/settlements.jsonl` and executed by a
+ * background worker.
+ *
+ * - Each job is a list of steps; a step's tx hash and nonce are persisted
+ *   as soon as it is broadcast, so a retry (or a restart) first checks the
+ *   chain and never pays the same step twice.
+ * - Failed jobs are retried with exponential backoff and dead-lettered after
+ *   `config.settlementMaxAttempts`; dead jobs can be replayed via the admin API.
+ * - Jobs are idempotent per `key`: enqueueing the same key again is a no-op.
+ * - Every change appends the job's new state to the log (the last line per
+ *   id wins), so a paid call costs one append rather than a rewrite of the
+ *   whole queue. The log is compacted at startup and every
+ *   `COMPACT_AFTER_APPENDS` appends, dropping the oldest completed jobs
+ *   beyond `MAX_COMPLETED_JOBS`.
+ */
+
+const log = createLogger("settlementQueue");
+
+const QUEUE_FILE = dataPath("settlements.jsonl");
+
+const ERC20_TRANSFER_ABI = [
+  "function transfer(address to, uint256 amount) returns (bool)",
+];
+
+const SERVICE_REGISTRY_ABI = [
+  "function recordUsage(bytes32 serviceId, uint256 calls, uint256 revenue) external",
+];
+
+/** Max time to wait for a previously broadcast tx before retrying later. */
+const PENDING_TX_WAIT_MS = 60_000;
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Completed jobs kept in the queue; the oldest are dropped first. */
+const MAX_COMPLETED_JOBS = 1_000;
+/** Appends to the log after which it is rewritten with only the live jobs. */
+const COMPACT_AFTER_APPENDS = 1_000;
+
+const jobs = new Map<string, Settlement>();
+const jobsByKey = new Map<string, string>();
+
+// ---------------------------------------------------------------------------
+// Persistence helpers
+// ---------------------------------------------------------------------------
+
+let appendsSinceCompaction = 0;
+
+/**
+ * Rewrite the log with one line per job, dropping the oldest completed jobs
+ * (and their keys: a key is per settled payment and is not enqueued again
+ * once its job has completed).
+ */
+function compact(): void {
+  const completed = Array.from(jobs.values()).filter((job) => job.status === "completed");
+  if (completed.length > MAX_COMPLETED_JOBS) {
+    completed
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, completed.length - MAX_COMPLETED_JOBS)
+      .forEach((job) => {
+        jobs.delete(job.id);
+        jobsByKey.delete(job.key);
+      });
+  }
+  writeJsonLines(QUEUE_FILE, Array.from(jobs.values()));
+  appendsSinceCompaction = 0;
+}
+
+/** Persist a job's current state. */
+function save(job: Settlement): void {
+  appendJsonLine(QUEUE_FILE, job);
+  if (++appendsSinceCompaction >= COMPACT_AFTER_APPENDS) compact();
+}
+
+function loadFromDisk(): void {
+  try {
+    for (const job of readJsonLines<Settlement>(QUEUE_FILE)) {
+      // A job left "processing" means we crashed mid-run; the persisted step
+      // tx hashes let the next run pick up safely.
+      if (job.status === "processing") job.status = "pending";
+      jobs.set(job.id, job);
+      jobsByKey.set(job.key, job.id);
+    }
+    if (jobs.size > 0) {
+      log.info(`Loaded ${jobs.size} settlements from disk`);
+      compact();
+    }
+  } catch {
+    log.warn("Failed to load settlements from disk, starting fresh");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Step execution
+// ---------------------------------------------------------------------------
+
+function describeStep(step: SettlementStep): string {
+  return step.kind === "transfer"
+    ? `transfer ${step.amount} to ${step.label} ${step.to}${step.network ? ` on ${step.network}` : ""}`
+    : `recordUsage(${step.serviceId}, ${step.calls}, ${step.revenue})`;
+}
+
+/** Network a step runs on: transfers may target any network, usage is home-only. */
+function stepNetwork(step: SettlementStep): NetworkConfig {
+  const name = (step.kind === "transfer" && step.network) || config.homeNetwork;
+  const network = config.networks[name];
+  if (!network) throw new Error(`${describeStep(step)}: unknown network '${name}'`);
+  return network;
+}
+
+/**
+ * Reconcile a step that was already broadcast. Returns true if the step is
+ * confirmed, false if it must be sent again. A reverted tx is forgotten (so
+ * the next attempt re-sends) and reported by throwing; a tx that is still
+ * pending also throws, so the job is retried later without re-sending.
+ * Receipts of gas-bumped replacements count as the step's own.
+ */
+async function reconcileBroadcastStep(
+  step: SettlementStep,
+  signer: DeployerWallet
+): Promise<boolean> {
+  const provider = signer.provider!;
+  const txHash = step.txHash!;
+
+  let receipt = await getDeployerTxReceipt(signer.network, txHash);
+  if (!receipt) {
+    // No receipt: either still in the mempool or dropped. If the nonce has
+    // been consumed on-chain by another tx, ours can never be mined.
+    const confirmedNonce = await provider.getTransactionCount(signer.address, "latest");
+    if (step.nonce !== undefined && confirmedNonce > step.nonce) {
+      receipt = await getDeployerTxReceipt(signer.network, txHash);
+      if (receipt) return reconcileReceipt(step, receipt);
+      log.warn(`${describeStep(step)} tx=${txHash} was dropped, re-sending`);
+      return false;
+    }
+    receipt = await provider.waitForTransaction(txHash, 1, PENDING_TX_WAIT_MS);
+    if (!receipt) throw new Error(`${describeStep(step)} still pending (tx=${txHash})`);
+  }
+  return reconcileReceipt(step, receipt);
+}
+
+function reconcileReceipt(step: SettlementStep, receipt: ethers.TransactionReceipt): boolean {
+  if (receipt.status === 1) {
+    step.txHash = receipt.hash;
+    return true;
+  }
+  step.txHash = undefined;
+  step.nonce = undefined;
+  throw new Error(`${describeStep(step)} reverted (tx=${receipt.hash})`);
+}
+
+async function runStep(job: Settlement, step: SettlementStep): Promise<void> {
+  const network = stepNetwork(step);
+  const signer = await getDeployerSigner(network);
+  if (step.txHash && await reconcileBroadcastStep(step, signer)) {
+    step.done = true;
+    save(job);
+    return;
+  }
+
+  let tx: ethers.TransactionResponse;
+  if (step.kind === "transfer") {
+    const token = new ethers.Contract(step.asset ?? network.usdcAddress, ERC20_TRANSFER_ABI, signer);
+    tx = await token.transfer(step.to, step.amount);
+  } else {
+    const registry = new ethers.Contract(config.serviceRegistryAddress, SERVICE_REGISTRY_ABI, signer);
+    tx = await registry.recordUsage(step.serviceId, step.calls, step.revenue);
+  }
+
+  step.txHash = tx.hash;
+  step.nonce = tx.nonce;
+  save(job);
+  log.info(`${describeStep(step)} sent`, { settlementId: job.id, txHash: tx.hash, nonce: tx.nonce });
+
+  // Resolves with the replacement's receipt if the tx was gas-bumped
+  const receipt = await tx.wait();
+  if (receipt?.status !== 1) {
+    throw new Error(`${describeStep(step)} reverted (tx=${receipt?.hash ?? tx.hash})`);
+  }
+  step.txHash = receipt.hash;
+  step.done = true;
+  save(job);
+}
+
+async function runJob(job: Settlement): Promise<void> {
+  job.status = "processing";
+  job.attempts += 1;
+  job.updatedAt = Date.now();
+  save(job);
+
+  try {
+    for (const step of job.steps) {
+      if (!step.done) await runStep(job, step);
+    }
+    job.status = "completed";
+    job.lastError = undefined;
+    log.info("Settlement completed", { settlementId: job.id, resourceId: job.resourceId, agentId: job.agentId });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    job.lastError = message;
+    if (job.attempts >= config.settlementMaxAttempts) {
+      job.status = "dead";
+      log.error("Settlement dead, USDC stays at proxy signer", { settlementId: job.id, attempts: job.attempts, error: message });
+    } else {
+      const delay = Math.min(config.settlementRetryBaseMs * 2 ** (job.attempts - 1), MAX_RETRY_DELAY_MS);
+      job.status = "pending";
+      job.nextAttemptAt = Date.now() + delay;
+      log.warn("Settlement attempt failed", { settlementId: job.id, attempt: job.attempts, retryInMs: delay, error: message });
+    }
+  }
+
+  job.updatedAt = Date.now();
+  save(job);
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+let _workerTimer: NodeJS.Timeout | null = null;
+let _running = false;
+
+/** Run every due job once, sequentially (they share the deployer nonce). */
+async function drain(): Promise<void> {
+  if (_running) return;
+  _running = true;
+  try {
+    const now = Date.now();
+    const due = Array.from(jobs.values())
+      .filter((job) => job.status === "pending" && job.nextAttemptAt <= now)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const job of due) {
+      await (job.requestId ? runWithRequestId(job.requestId, () => runJob(job)) : runJob(job));
+    }
+  } finally {
+    _running = false;
+  }
+}
+
+export function startSettlementWorker(): void {
+  if (_workerTimer) return;
+  if (!config.proxySignerKey) {
+    log.warn("No PROXY_SIGNER_KEY configured, settlement worker not started");
+    return;
+  }
+  _workerTimer = setInterval(() => {
+    drain().catch((err) => log.error("worker error", { error: err }));
+  }, config.settlementPollIntervalMs);
+}
+
+export function stopSettlementWorker(): void {
+  if (_workerTimer) clearInterval(_workerTimer);
+  _workerTimer = null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Enqueue a settlement. If a settlement with the same key already exists it
+ * is returned unchanged.
+ */
+export function enqueueSettlement(params: {
+  key: string;
+  resourceId?: string;
+  agentId?: string;
+  transactionId?: string;
+  steps: SettlementStepInput[];
+}): Settlement {
+  const existingId = jobsByKey.get(params.key);
+  if (existingId) return jobs.get(existingId)!;
+
+  const now = Date.now();
+  const job: Settlement = {
+    id: randomUUID(),
+    key: params.key,
+    resourceId: params.resourceId,
+    agentId: params.agentId,
+    transactionId: params.transactionId,
+    requestId: currentRequestId(),
+    steps: params.steps.map((step): SettlementStep => ({ ...step, done: false })),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs.set(job.id, job);
+  jobsByKey.set(job.key, job.id);
+  save(job);
+
+  // Kick the worker so settlements don't wait for the next poll
+  if (_workerTimer) {
+    drain().catch((err) => log.error("worker error", { error: err }));
+  }
+  return job;
+}
+
+export function getSettlement(id: string): Settlement | undefined {
+  return jobs.get(id);
+}
+
+export function listSettlements(status?: SettlementStatus): Settlement[] {
+  return Array.from(jobs.values())
+    .filter((job) => status === undefined || job.status === status)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Put a dead (or backing-off) settlement back at the front of the queue
+ * with a fresh attempt budget. Completed steps are not repeated.
+ */
+export function replaySettlement(id: string): Settlement | undefined {
+  const job = jobs.get(id);
+  if (!job || job.status === "completed" || job.status === "processing") return undefined;
+  job.status = "pending";
+  job.attempts = 0;
+  job.nextAttemptAt = Date.now();
+  job.updatedAt = Date.now();
+  save(job);
+  if (_workerTimer) {
+    drain().catch((err) => log.error("worker error", { error: err }));
+  }
+  return job;
+}
+
+loadFromDisk();
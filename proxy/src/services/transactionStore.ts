@@ -0,0 +1,78 @@
+import type {
+  Transaction,
+  TransactionQuery,
+  TransactionPage,
+} from "../types/x402.js";
+import { dataPath, appendJsonLine, readJsonLines } from "./persistence.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Durable transaction ledger.
+ *
+ * Every payment accepted by the x402Gate (Path A and Path B) is appended to
+ * `data/transactions.jsonl`. The file is replayed into memory on startup so
+ * queries never touch disk. A later line with the same `id` supersedes the
+ * earlier one, which lets status changes be recorded append-only.
+ */
+
+const log = createLogger("transactionStore");
+
+const LEDGER_FILE = dataPath("transactions.jsonl");
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/** Ledger entries keyed by id, in insertion order. */
+const ledger = new Map<string, Transaction>();
+
+function loadFromDisk(): void {
+  for (const tx of readJsonLines<Transaction>(LEDGER_FILE)) {
+    ledger.set(tx.id, tx);
+  }
+  if (ledger.size > 0) {
+    log.info(`Loaded ${ledger.size} transactions from disk`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function recordTransaction(tx: Transaction): void {
+  appendJsonLine(LEDGER_FILE, tx);
+  ledger.set(tx.id, tx);
+}
+
+export function getTransaction(id: string): Transaction | undefined {
+  return ledger.get(id);
+}
+
+/**
+ * Query the ledger. Results are newest first; `total` is the number of
+ * matches before pagination.
+ */
+export function queryTransactions(query: TransactionQuery): TransactionPage {
+  const payer = query.payer?.toLowerCase();
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+  const offset = Math.max(query.offset ?? 0, 0);
+
+  const matches = Array.from(ledger.values())
+    .filter((tx) =>
+      (query.resourceId === undefined || tx.resourceId === query.resourceId) &&
+      (payer === undefined || tx.payer.toLowerCase() === payer) &&
+      (query.method === undefined || tx.method === query.method) &&
+      (query.status === undefined || tx.status === query.status) &&
+      (query.from === undefined || tx.timestamp >= query.from) &&
+      (query.to === undefined || tx.timestamp <= query.to)
+    )
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return {
+    total: matches.length,
+    limit,
+    offset,
+    transactions: matches.slice(offset, offset + limit),
+  };
+}
+
+loadFromDisk();
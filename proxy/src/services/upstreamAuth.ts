@@ -0,0 +1,285 @@
+import { createHash, createHmac } from "node:crypto";
+import fetch from "node-fetch";
+import { decryptSecret } from "./secretVault.js";
+import type { OAuth2UpstreamAuth, Resource, UpstreamAuth } from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Authentication of proxied calls to wrapped upstream services.
+ *
+ * A resource's `upstreamAuth` says how its sealed secret is presented to the
+ * upstream: a header, a query parameter, HTTP Basic, a bearer token, an
+ * OAuth2 client-credentials access token, or an HMAC request signature.
+ * Resources without `upstreamAuth` keep the original behaviour of sending
+ * the secret in `apiKeyHeader` (default "Authorization").
+ */
+
+const log = createLogger("upstreamAuth");
+
+/** Refresh OAuth2 tokens this long before they expire. */
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+/** Lifetime assumed when the token endpoint omits `expires_in`. */
+const DEFAULT_TOKEN_TTL_MS = 3600_000;
+const TOKEN_TIMEOUT_MS = 10_000;
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  expiresAt: number;
+}
+
+/** OAuth2 access tokens per resource, plus in-flight fetches to share. */
+const tokenCache = new Map<string, CachedToken>();
+const tokenFetches = new Map<string, Promise<CachedToken>>();
+
+export interface UpstreamRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  /** Exact bytes that will be sent (HMAC signs them). */
+  body?: Buffer;
+}
+
+export type UpstreamAuthResult = { ok: true } | { ok: false; status: number; error: string };
+
+// ---------------------------------------------------------------------------
+// OAuth2 client credentials
+// ---------------------------------------------------------------------------
+
+async function fetchClientCredentialsToken(
+  auth: OAuth2UpstreamAuth,
+  clientSecret: string
+): Promise<CachedToken> {
+  const form = new URLSearchParams({ grant_type: "client_credentials" });
+  if (auth.scope) form.set("scope", auth.scope);
+  if (auth.audience) form.set("audience", auth.audience);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (auth.clientAuth === "basic") {
+    const credentials = `${encodeURIComponent(auth.clientId)}:${encodeURIComponent(clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    form.set("client_id", auth.clientId);
+    form.set("client_secret", clientSecret);
+  }
+
+  const res = await fetch(auth.tokenUrl, {
+    method: "POST",
+    headers,
+    body: form.toString(),
+    timeout: TOKEN_TIMEOUT_MS,
+  });
+  const text = await res.text();
+  if (!res.ok) {
+    throw new Error(`Token endpoint HTTP ${res.status}: ${text.slice(0, 200)}`);
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    throw new Error(`Token endpoint returned non-JSON: ${text.slice(0, 200)}`);
+  }
+  if (typeof data.access_token !== "string") {
+    throw new Error("Token endpoint response has no access_token");
+  }
+
+  const ttlMs = typeof data.expires_in === "number" ? data.expires_in * 1000 : DEFAULT_TOKEN_TTL_MS;
+  return {
+    accessToken: data.access_token,
+    // Many providers return "bearer"; upstreams expect the canonical casing
+    tokenType: typeof data.token_type === "string" && data.token_type.toLowerCase() !== "bearer"
+      ? data.token_type
+      : "Bearer",
+    expiresAt: Date.now() + ttlMs,
+  };
+}
+
+async function getAccessToken(
+  resourceId: string,
+  auth: OAuth2UpstreamAuth,
+  clientSecret: string
+): Promise<CachedToken> {
+  const cached = tokenCache.get(resourceId);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) return cached;
+
+  let pending = tokenFetches.get(resourceId);
+  if (!pending) {
+    pending = fetchClientCredentialsToken(auth, clientSecret)
+      .then((token) => {
+        tokenCache.set(resourceId, token);
+        log.info(`Fetched access token for ${resourceId}`);
+        return token;
+      })
+      .finally(() => tokenFetches.delete(resourceId));
+    tokenFetches.set(resourceId, pending);
+  }
+  return pending;
+}
+
+/**
+ * Drop a resource's cached access token so the next call fetches a new one
+ * (called after an upstream 401, and when the resource's auth changes).
+ */
+export function invalidateUpstreamToken(resourceId: string): void {
+  tokenCache.delete(resourceId);
+}
+
+// ---------------------------------------------------------------------------
+// Apply
+// ---------------------------------------------------------------------------
+
+function setHeader(headers: Record<string, string>, name: string, value: string): void {
+  // Replace any client-sent header of the same name, whatever its casing
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name.toLowerCase()) delete headers[key];
+  }
+  headers[name.toLowerCase()] = value;
+}
+
+function hmacSign(auth: Extract<UpstreamAuth, { type: "hmac" }>, key: string, request: UpstreamRequest): void {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const bodyHash = createHash("sha256").update(request.body ?? Buffer.alloc(0)).digest("hex");
+  const canonical = [
+    timestamp,
+    request.method.toUpperCase(),
+    request.url.pathname + request.url.search,
+    bodyHash,
+  ].join("\n");
+  const signature = createHmac(auth.algorithm ?? "sha256", key)
+    .update(canonical)
+    .digest(auth.signatureEncoding ?? "hex");
+
+  setHeader(request.headers, auth.timestampHeader ?? "X-Timestamp", timestamp);
+  setHeader(request.headers, auth.signatureHeader ?? "X-Signature", signature);
+  if (auth.keyId) setHeader(request.headers, auth.keyIdHeader ?? "X-Key-Id", auth.keyId);
+}
+
+/**
+ * Authenticate an outgoing upstream request in place (headers and URL).
+ * Must run after the body is final, since HMAC signs it.
+ */
+export async function applyUpstreamAuth(
+  resource: Resource,
+  request: UpstreamRequest
+): Promise<UpstreamAuthResult> {
+  if (!resource.encryptedApiKey) {
+    return resource.upstreamAuth
+      ? { ok: false, status: 500, error: "upstreamAuth is configured but no secret is stored" }
+      : { ok: true };
+  }
+
+  let secret: string;
+  try {
+    secret = decryptSecret(resource.encryptedApiKey);
+  } catch (err: unknown) {
+    // A proxy misconfiguration, not an upstream failure
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, status: 500, error: `API key decryption failed: ${message}` };
+  }
+
+  const auth: UpstreamAuth = resource.upstreamAuth ?? {
+    type: "header",
+    header: resource.apiKeyHeader ?? "Authorization",
+  };
+
+  switch (auth.type) {
+    case "header":
+      setHeader(request.headers, auth.header, (auth.prefix ?? "") + secret);
+      break;
+    case "query":
+      request.url.searchParams.set(auth.param, secret);
+      break;
+    case "basic":
+      setHeader(
+        request.headers,
+        "Authorization",
+        `Basic ${Buffer.from(`${auth.username}:${secret}`).toString("base64")}`
+      );
+      break;
+    case "bearer":
+      setHeader(request.headers, "Authorization", `Bearer ${secret}`);
+      break;
+    case "oauth2-client-credentials":
+      try {
+        const token = await getAccessToken(resource.id, auth, secret);
+        setHeader(request.headers, "Authorization", `${token.tokenType} ${token.accessToken}`);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { ok: false, status: 502, error: `OAuth2 token request failed: ${message}` };
+      }
+      break;
+    case "hmac":
+      hmacSign(auth, secret, request);
+      break;
+  }
+  return { ok: true };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+function isHeaderName(value: unknown): boolean {
+  return typeof value === "string" && HEADER_NAME_PATTERN.test(value);
+}
+
+/**
+ * Validate an `upstreamAuth` block supplied through the admin API. Returns
+ * an error message, or null if it is usable.
+ */
+export function validateUpstreamAuth(auth: Partial<UpstreamAuth> | undefined): string | null {
+  if (!auth || typeof auth !== "object") return "upstreamAuth must be an object";
+
+  switch (auth.type) {
+    case "header":
+      if (!isHeaderName(auth.header)) return "upstreamAuth.header must be a header name";
+      if (auth.prefix !== undefined && typeof auth.prefix !== "string") {
+        return "upstreamAuth.prefix must be a string";
+      }
+      return null;
+    case "query":
+      if (typeof auth.param !== "string" || !auth.param) return "upstreamAuth.param is required";
+      return null;
+    case "basic":
+      if (typeof auth.username !== "string" || !auth.username) return "upstreamAuth.username is required";
+      return null;
+    case "bearer":
+      return null;
+    case "oauth2-client-credentials":
+      try {
+        if (!["http:", "https:"].includes(new URL(String(auth.tokenUrl)).protocol)) throw new Error();
+      } catch {
+        return "upstreamAuth.tokenUrl must be an http(s) URL";
+      }
+      if (typeof auth.clientId !== "string" || !auth.clientId) return "upstreamAuth.clientId is required";
+      if (auth.clientAuth !== undefined && auth.clientAuth !== "basic" && auth.clientAuth !== "body") {
+        return 'upstreamAuth.clientAuth must be "basic" or "body"';
+      }
+      return null;
+    case "hmac":
+      if (auth.algorithm !== undefined && auth.algorithm !== "sha256" && auth.algorithm !== "sha512") {
+        return 'upstreamAuth.algorithm must be "sha256" or "sha512"';
+      }
+      if (
+        auth.signatureEncoding !== undefined &&
+        auth.signatureEncoding !== "hex" &&
+        auth.signatureEncoding !== "base64"
+      ) {
+        return 'upstreamAuth.signatureEncoding must be "hex" or "base64"';
+      }
+      for (const field of ["signatureHeader", "timestampHeader", "keyIdHeader"] as const) {
+        if (auth[field] !== undefined && !isHeaderName(auth[field])) {
+          return `upstreamAuth.${field} must be a header name`;
+        }
+      }
+      return null;
+    default:
+      return "upstreamAuth.type must be one of: header, query, basic, bearer, oauth2-client-credentials, hmac";
+  }
+}
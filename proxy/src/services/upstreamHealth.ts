@@ -0,0 +1,151 @@
+import fetch from "node-fetch";
+import { config } from "../config.js";
+import { getAllResources } from "./resourceStore.js";
+import type { CircuitState, ResourceHealth } from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Upstream health tracking and circuit breaker, per resource.
+ *
+ * Every forwarded call and every periodic probe reports its outcome here.
+ * After `config.circuitFailureThreshold` consecutive failures (5xx or no
+ * response) the resource's circuit opens and the gate refuses payment with
+ * 503 + Retry-After. After `config.circuitOpenMs` the circuit goes
+ * half-open: traffic is let through again, the first success closes it and
+ * the first failure re-opens it.
+ *
+ * State is in memory only; a restarted proxy starts with every circuit
+ * closed and the first probe round re-establishes it.
+ */
+
+const log = createLogger("upstreamHealth");
+
+interface Breaker {
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  lastCheckedAt?: number;
+  lastError?: string;
+}
+
+const breakers = new Map<string, Breaker>();
+
+function getBreaker(resourceId: string): Breaker {
+  let breaker = breakers.get(resourceId);
+  if (!breaker) {
+    breaker = { circuit: "closed", consecutiveFailures: 0 };
+    breakers.set(resourceId, breaker);
+  }
+  return breaker;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function recordUpstreamSuccess(resourceId: string): void {
+  const breaker = getBreaker(resourceId);
+  if (breaker.circuit !== "closed") {
+    log.info(`${resourceId} recovered, circuit closed`);
+  }
+  breaker.circuit = "closed";
+  breaker.consecutiveFailures = 0;
+  breaker.openedAt = undefined;
+  breaker.lastError = undefined;
+  breaker.lastCheckedAt = Date.now();
+}
+
+export function recordUpstreamFailure(resourceId: string, error: string): void {
+  const breaker = getBreaker(resourceId);
+  breaker.consecutiveFailures += 1;
+  breaker.lastError = error;
+  breaker.lastCheckedAt = Date.now();
+
+  if (
+    breaker.circuit === "half-open" ||
+    (breaker.circuit === "closed" && breaker.consecutiveFailures >= config.circuitFailureThreshold)
+  ) {
+    breaker.circuit = "open";
+    breaker.openedAt = Date.now();
+    log.warn(
+      `${resourceId} circuit opened after ${breaker.consecutiveFailures} failures: ${error}`
+    );
+  }
+}
+
+/**
+ * Whether calls to a resource may go through. An open circuit whose cool-down
+ * has elapsed moves to half-open and lets traffic through.
+ */
+export function checkUpstreamAvailable(
+  resourceId: string
+): { available: true } | { available: false; retryAfterSeconds: number } {
+  const breaker = breakers.get(resourceId);
+  if (!breaker || breaker.circuit !== "open") return { available: true };
+
+  const retryAt = (breaker.openedAt ?? 0) + config.circuitOpenMs;
+  const now = Date.now();
+  if (now >= retryAt) {
+    breaker.circuit = "half-open";
+    return { available: true };
+  }
+  return { available: false, retryAfterSeconds: Math.ceil((retryAt - now) / 1000) };
+}
+
+export function getResourceHealth(resourceId: string): ResourceHealth {
+  const breaker = breakers.get(resourceId);
+  if (!breaker || breaker.lastCheckedAt === undefined) {
+    return { status: "unknown", circuit: "closed", consecutiveFailures: 0 };
+  }
+  return {
+    status: breaker.circuit === "closed" ? "healthy" : "unhealthy",
+    circuit: breaker.circuit,
+    consecutiveFailures: breaker.consecutiveFailures,
+    lastCheckedAt: breaker.lastCheckedAt,
+    lastError: breaker.lastError,
+    retryAt: breaker.circuit === "open" ? (breaker.openedAt ?? 0) + config.circuitOpenMs : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Probes
+// ---------------------------------------------------------------------------
+
+/**
+ * Probe every resource once. A probe is a HEAD request; anything below 500
+ * (including 401/404/405) means the upstream is reachable.
+ */
+async function probeAll(): Promise<void> {
+  await Promise.all(
+    getAllResources().map(async (resource) => {
+      const url = resource.healthCheckUrl ?? resource.originalUrl;
+      try {
+        const res = await fetch(url, { method: "HEAD", timeout: config.healthCheckTimeoutMs });
+        if (res.status >= 500) {
+          recordUpstreamFailure(resource.id, `Health probe HTTP ${res.status}`);
+        } else {
+          recordUpstreamSuccess(resource.id);
+        }
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : String(err);
+        recordUpstreamFailure(resource.id, `Health probe failed: ${message}`);
+      }
+    })
+  );
+}
+
+let _probeTimer: NodeJS.Timeout | null = null;
+
+export function startHealthChecks(): void {
+  if (_probeTimer || config.healthCheckIntervalMs <= 0) return;
+  const run = () => {
+    probeAll().catch((err) => log.error("probe error", { error: err }));
+  };
+  run();
+  _probeTimer = setInterval(run, config.healthCheckIntervalMs);
+}
+
+export function stopHealthChecks(): void {
+  if (_probeTimer) clearInterval(_probeTimer);
+  _probeTimer = null;
+}
@@ -0,0 +1,331 @@
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { getDeployerSigner } from "./nonceManager.js";
+import { getNetworkProvider, getNetworkChainId } from "./chainClient.js";
+import { resolveNetwork } from "./x402Protocol.js";
+import { observeFacilitator } from "./metrics.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./persistence.js";
+import type {
+  MeteredPricing,
+  PaymentPayload,
+  PaymentRequirementsAccept,
+  UptoEvmPayload,
+} from "../types/x402.js";
+import type { FacilitatorVerifyResult, FacilitatorSettleResult } from "./facilitator.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * `upto` payment scheme for usage-metered resources.
+ *
+ * The payer signs an EIP-2612 permit approving the proxy signer for up to
+ * the requirement's `maxAmountRequired`. The gate verifies the permit before
+ * forwarding; once the upstream has answered, the actual charge is computed
+ * from the response (token counts or response time) and only that amount is
+ * pulled with `transferFrom` to the requirement's `payTo`. A failed
+ * upstream call (5xx or no response) is not charged, and a zero charge
+ * sends no transaction at all.
+ *
+ * The permit is only submitted when the existing allowance does not cover
+ * the charge, so its on-chain nonce is not always consumed. Each permit pays
+ * for exactly one call: once settled, its EIP-712 digest is recorded in
+ * `data/upto-permits.json` (until its deadline) and rejected afterwards.
+ *
+ * Public facilitators only support `exact`, so `upto` is always verified
+ * and settled in-process and needs PROXY_SIGNER_KEY.
+ */
+
+const log = createLogger("uptoScheme");
+
+const EIP2612_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function nonces(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+];
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** Permits currently being used for a call, keyed by owner + permit nonce. */
+const inFlightPermits = new Set<string>();
+
+function permitKey(owner: string, nonce: string): string {
+  return `${owner.toLowerCase()}:${nonce}`;
+}
+
+const USED_PERMITS_FILE = dataPath("upto-permits.json");
+
+/** Digests of permits that already paid for a call, with the permit deadline (unix seconds). */
+const usedPermits = new Map<string, number>(
+  Object.entries(readJsonFile<Record<string, number>>(USED_PERMITS_FILE, {}))
+);
+
+/** Record a permit as spent; expired entries are dropped since verify rejects them anyway. */
+function markPermitUsed(digest: string, deadline: number): void {
+  const now = Math.floor(Date.now() / 1000);
+  for (const [key, expiry] of usedPermits) {
+    if (expiry < now) usedPermits.delete(key);
+  }
+  usedPermits.set(digest, deadline);
+  writeJsonFile(USED_PERMITS_FILE, Object.fromEntries(usedPermits));
+}
+
+/** EIP-712 digest the payer signed; identifies the permit independently of the signature encoding. */
+function permitDigest(
+  chainId: bigint,
+  requirement: PaymentRequirementsAccept,
+  permit: UptoEvmPayload["permit"]
+): string {
+  const domain: ethers.TypedDataDomain = {
+    name: requirement.extra.name,
+    version: requirement.extra.version,
+    chainId,
+    verifyingContract: requirement.asset,
+  };
+  return ethers.TypedDataEncoder.hash(domain, PERMIT_TYPES, permit);
+}
+
+function isUptoPayload(payload: unknown): payload is UptoEvmPayload {
+  const p = payload as Partial<UptoEvmPayload> | undefined;
+  return !!p?.permit && typeof p.signature === "string";
+}
+
+// ---------------------------------------------------------------------------
+// Metering
+// ---------------------------------------------------------------------------
+
+/** Total tokens from one OpenAI- or Ollama-style response object. */
+function tokensOf(obj: unknown): number | undefined {
+  if (!obj || typeof obj !== "object") return undefined;
+  const o = obj as Record<string, unknown>;
+  const usage = o.usage as Record<string, unknown> | undefined | null;
+  if (usage && typeof usage === "object") {
+    if (typeof usage.total_tokens === "number") return usage.total_tokens;
+    const prompt = Number(usage.prompt_tokens ?? usage.input_tokens ?? 0);
+    const completion = Number(usage.completion_tokens ?? usage.output_tokens ?? 0);
+    if (prompt + completion > 0) return prompt + completion;
+  }
+  // Ollama: counts on the (final) response object
+  if (typeof o.eval_count === "number" || typeof o.prompt_eval_count === "number") {
+    return Number(o.prompt_eval_count ?? 0) + Number(o.eval_count ?? 0);
+  }
+  return undefined;
+}
+
+/**
+ * Count tokens in an upstream body. Handles plain JSON, newline-delimited
+ * JSON (Ollama streaming) and server-sent events (OpenAI streaming with
+ * usage), taking the last chunk that reports usage.
+ */
+function countTokens(body: Buffer): number {
+  const text = body.toString("utf-8");
+  try {
+    return tokensOf(JSON.parse(text)) ?? 0;
+  } catch {
+    // Not a single JSON document: scan line by line
+  }
+
+  let tokens = 0;
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim().replace(/^data:\s*/, "");
+    if (!line || line === "[DONE]") continue;
+    try {
+      const counted = tokensOf(JSON.parse(line));
+      if (counted !== undefined) tokens = counted;
+    } catch {
+      // ignore non-JSON lines (SSE comments, event names)
+    }
+  }
+  return tokens;
+}
+
+/**
+ * The amount to charge for a call: `basePrice + units * pricePerUnit`,
+ * capped at `maxAmount`. Only called for answered calls: failed ones (5xx
+ * or no response, as for every settlement policy) are not charged at all.
+ */
+export function meterCharge(
+  metered: MeteredPricing,
+  maxAmount: string,
+  upstream: { body: Buffer; durationMs: number }
+): { units: number; amount: bigint } {
+  const units = metered.unit === "tokens" ? countTokens(upstream.body) : Math.ceil(upstream.durationMs);
+  const amount = BigInt(metered.basePrice ?? "0") + BigInt(units) * BigInt(metered.pricePerUnit);
+  const max = BigInt(maxAmount);
+  return { units, amount: amount > max ? max : amount };
+}
+
+// ---------------------------------------------------------------------------
+// Verify / settle
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify an `upto` permit payload against a requirement and reserve it for
+ * this call. The reservation is released by `settleUpto` or `releaseUpto`.
+ */
+export async function verifyUpto(
+  decodedPayload: PaymentPayload,
+  requirement: PaymentRequirementsAccept
+): Promise<FacilitatorVerifyResult> {
+  return observeFacilitator(
+    "verify",
+    "upto",
+    () => verifyPermit(decodedPayload, requirement),
+    (result) => (result.valid ? undefined : result.invalidReason ?? "unknown")
+  );
+}
+
+async function verifyPermit(
+  decodedPayload: PaymentPayload,
+  requirement: PaymentRequirementsAccept
+): Promise<FacilitatorVerifyResult> {
+  try {
+    if (decodedPayload.scheme !== "upto" || requirement.scheme !== "upto") {
+      return { valid: false, invalidReason: "invalid_scheme" };
+    }
+    const network = resolveNetwork(requirement.network);
+    if (decodedPayload.network !== requirement.network || !network) {
+      return { valid: false, invalidReason: "invalid_network" };
+    }
+    if (!isUptoPayload(decodedPayload.payload)) {
+      return { valid: false, invalidReason: "invalid_payload" };
+    }
+
+    const { permit, signature } = decodedPayload.payload;
+    const chainId = await getNetworkChainId(network);
+    let digest: string;
+    let signer: string;
+    try {
+      digest = permitDigest(chainId, requirement, permit);
+      signer = ethers.recoverAddress(digest, signature);
+    } catch {
+      return { valid: false, invalidReason: "invalid_upto_evm_payload_signature" };
+    }
+    if (signer.toLowerCase() !== permit.owner.toLowerCase()) {
+      return { valid: false, invalidReason: "invalid_upto_evm_payload_signature" };
+    }
+
+    if (!requirement.extra.spender || permit.spender.toLowerCase() !== requirement.extra.spender.toLowerCase()) {
+      return { valid: false, invalidReason: "invalid_upto_evm_payload_spender_mismatch" };
+    }
+    if (BigInt(permit.value) < BigInt(requirement.maxAmountRequired)) {
+      return { valid: false, invalidReason: "invalid_upto_evm_payload_permit_value" };
+    }
+    // The permit must outlive the upstream call plus settlement
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(permit.deadline) < now + BigInt(requirement.maxTimeoutSeconds)) {
+      return { valid: false, invalidReason: "invalid_upto_evm_payload_permit_deadline" };
+    }
+
+    const token = new ethers.Contract(requirement.asset, EIP2612_ABI, getNetworkProvider(network));
+    const [currentNonce, balance] = await Promise.all([
+      token.nonces(permit.owner) as Promise<bigint>,
+      token.balanceOf(permit.owner) as Promise<bigint>,
+    ]);
+    const key = permitKey(permit.owner, permit.nonce);
+    if (BigInt(permit.nonce) !== currentNonce || inFlightPermits.has(key) || usedPermits.has(digest)) {
+      return { valid: false, invalidReason: "invalid_upto_evm_payload_permit_nonce" };
+    }
+    if (balance < BigInt(requirement.maxAmountRequired)) {
+      return { valid: false, invalidReason: "insufficient_funds" };
+    }
+
+    inFlightPermits.add(key);
+    return { valid: true };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown upto verification error";
+    log.error(`verify error: ${message}`);
+    return { valid: false, invalidReason: message };
+  }
+}
+
+/** Release a verified permit without charging (e.g. the request was aborted). */
+export function releaseUpto(decodedPayload: PaymentPayload): void {
+  if (!isUptoPayload(decodedPayload.payload)) return;
+  const { permit } = decodedPayload.payload;
+  inFlightPermits.delete(permitKey(permit.owner, permit.nonce));
+}
+
+/**
+ * Charge `amount` against a verified permit: submit the permit (unless an
+ * allowance already covers the charge), then `transferFrom` the payer to
+ * `payTo`.
+ */
+export async function settleUpto(
+  decodedPayload: PaymentPayload,
+  requirement: PaymentRequirementsAccept,
+  amount: bigint
+): Promise<FacilitatorSettleResult> {
+  return observeFacilitator(
+    "settle",
+    "upto",
+    () => chargePermit(decodedPayload, requirement, amount),
+    (result) => (result.success ? undefined : result.error ?? "unknown")
+  );
+}
+
+async function chargePermit(
+  decodedPayload: PaymentPayload,
+  requirement: PaymentRequirementsAccept,
+  amount: bigint
+): Promise<FacilitatorSettleResult> {
+  try {
+    // Shape and network already checked by verifyUpto
+    const { permit, signature } = decodedPayload.payload as UptoEvmPayload;
+    const network = resolveNetwork(requirement.network)!;
+
+    // The permit has paid for this call, whatever the charge or outcome
+    markPermitUsed(permitDigest(await getNetworkChainId(network), requirement, permit), Number(permit.deadline));
+
+    if (amount === 0n) return { success: true };
+    if (!config.proxySignerKey) {
+      return { success: false, error: "No PROXY_SIGNER_KEY configured for upto settlement" };
+    }
+
+    const signer = await getDeployerSigner(network);
+    const token = new ethers.Contract(requirement.asset, EIP2612_ABI, signer);
+
+    const allowance = (await token.allowance(permit.owner, signer.address)) as bigint;
+    if (allowance < amount) {
+      const { v, r, s } = ethers.Signature.from(signature);
+      const permitTx = await token.permit(
+        permit.owner,
+        permit.spender,
+        permit.value,
+        permit.deadline,
+        v,
+        r,
+        s
+      );
+      log.info(`permit sent on ${network.name}: ${permitTx.hash}`);
+      const permitReceipt = await permitTx.wait();
+      if (permitReceipt?.status !== 1) {
+        return { success: false, error: `Permit reverted (tx=${permitTx.hash})` };
+      }
+    }
+
+    const tx = await token.transferFrom(permit.owner, requirement.payTo, amount);
+    log.info(`transferFrom ${amount} sent on ${network.name}: ${tx.hash}`);
+    // The receipt may belong to a gas-bumped replacement of `tx`
+    const receipt = await tx.wait();
+    const txHash = receipt?.hash ?? tx.hash;
+    if (receipt?.status !== 1) {
+      return { success: false, txHash, error: `Settlement reverted (tx=${txHash})` };
+    }
+    return { success: true, txHash };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown upto settlement error";
+    log.error(`settle error: ${message}`);
+    return { success: false, error: message };
+  } finally {
+    releaseUpto(decodedPayload);
+  }
+}
@@ -0,0 +1,100 @@
+import { randomBytes } from "node:crypto";
+import { ethers } from "ethers";
+import { config } from "../config.js";
+import { dataPath, appendJsonLine, readJsonLines } from "./persistence.js";
+import {
+  USAGE_RECEIPT_TYPES,
+  usageReceiptDomain,
+  type SignedUsageReceipt,
+  type UsageReceipt,
+} from "../sdk/usageReceipt.js";
+import type { AttestedPayment, Resource } from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * EIP-712 usage receipts issued to payers after each paid call (format and
+ * client-side verification in sdk/usageReceipt.ts). Receipts are signed by
+ * the proxy signer and appended to `data/receipts.jsonl` so they can be
+ * looked up when a payer presents one.
+ */
+
+const log = createLogger("usageReceipts");
+
+const RECEIPTS_FILE = dataPath("receipts.jsonl");
+
+const receipts = new Map<string, SignedUsageReceipt>();
+let _signer: ethers.Wallet | null = null;
+
+function receiptSigner(): ethers.Wallet {
+  if (!_signer) _signer = new ethers.Wallet(config.proxySignerKey);
+  return _signer;
+}
+
+function loadFromDisk(): void {
+  for (const signed of readJsonLines<SignedUsageReceipt>(RECEIPTS_FILE)) {
+    receipts.set(signed.receipt.receiptId, signed);
+  }
+  if (receipts.size > 0) {
+    log.info(`Loaded ${receipts.size} receipts from disk`);
+  }
+}
+
+/** Chain id of the receipt domain (the home network). */
+export function receiptChainId(): number {
+  return config.networks[config.homeNetwork].chainId;
+}
+
+/** Address receipts are signed by, if receipts are enabled. */
+export function receiptSignerAddress(): string | undefined {
+  return config.usageReceipts && config.proxySignerKey ? receiptSigner().address : undefined;
+}
+
+/**
+ * Sign and store a receipt for a paid call. Returns undefined when receipts
+ * are disabled or the payer is not an address (an x402 payload without
+ * one); never throws, since the call itself has already been paid for.
+ */
+export async function issueUsageReceipt(
+  resource: Resource,
+  payment: AttestedPayment,
+  requestHash: string,
+  upstreamStatus: number
+): Promise<SignedUsageReceipt | undefined> {
+  if (!receiptSignerAddress() || !ethers.isAddress(payment.payer)) return undefined;
+
+  const receipt: UsageReceipt = {
+    receiptId: ethers.hexlify(randomBytes(32)),
+    resourceId: resource.id,
+    payer: ethers.getAddress(payment.payer),
+    amount: payment.amount,
+    network: payment.network,
+    method: payment.method,
+    paymentRef: payment.paymentRef,
+    txHash: payment.txHash ?? ethers.ZeroHash,
+    requestHash,
+    upstreamStatus,
+    timestamp: Math.floor(Date.now() / 1000),
+  };
+
+  try {
+    const signature = await receiptSigner().signTypedData(
+      usageReceiptDomain(receiptChainId()),
+      USAGE_RECEIPT_TYPES,
+      receipt
+    );
+    const signed: SignedUsageReceipt = { receipt, signature };
+    appendJsonLine(RECEIPTS_FILE, signed);
+    receipts.set(receipt.receiptId, signed);
+    return signed;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error(`Failed to issue receipt for ${resource.id}: ${message}`);
+    return undefined;
+  }
+}
+
+export function getUsageReceipt(receiptId: string): SignedUsageReceipt | undefined {
+  return receipts.get(receiptId.toLowerCase());
+}
+
+loadFromDisk();
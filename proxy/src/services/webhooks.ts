@@ -0,0 +1,319 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import fetch from "node-fetch";
+import { config } from "../config.js";
+import { dataPath, readJsonFile, writeJsonFile } from "./persistence.js";
+import { decryptSecret, encryptSecret } from "./secretVault.js";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from "../sdk/verifyWebhook.js";
+import type {
+  PublicWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookEventType,
+} from "../types/x402.js";
+import { createLogger } from "./logger.js";
+
+/**
+ * Payment webhooks for service owners.
+ *
+ * Owners register URLs per resource (see routes/webhooks.ts). Each payment
+ * event the gate emits becomes one delivery per matching webhook, persisted
+ * in `data/webhook-deliveries.json` and POSTed by a background worker with
+ * an HMAC signature (sdk/verifyWebhook.ts). Non-2xx answers and network
+ * errors are retried with exponential backoff until
+ * `config.webhookMaxAttempts`, after which the delivery is marked failed and
+ * can be redelivered by the owner.
+ */
+
+const log = createLogger("webhooks");
+
+const WEBHOOKS_FILE = dataPath("webhooks.json");
+const DELIVERIES_FILE = dataPath("webhook-deliveries.json");
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ["payment.settled", "payment.verified"];
+
+/** Webhooks one resource may register. */
+export const MAX_WEBHOOKS_PER_RESOURCE = 10;
+/** Finished deliveries kept in the log; the oldest are dropped first. */
+const MAX_FINISHED_DELIVERIES = 5_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+/** Response body kept in `lastError` for a non-2xx answer. */
+const MAX_ERROR_BODY = 200;
+
+const webhooks = new Map<string, Webhook>();
+const deliveries = new Map<string, WebhookDelivery>();
+
+// ---------------------------------------------------------------------------
+// Persistence helpers
+// ---------------------------------------------------------------------------
+
+function persistWebhooks(): void {
+  writeJsonFile(WEBHOOKS_FILE, Array.from(webhooks.values()));
+}
+
+function persistDeliveries(): void {
+  const finished = Array.from(deliveries.values()).filter((d) => d.status !== "pending");
+  if (finished.length > MAX_FINISHED_DELIVERIES) {
+    finished
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(0, finished.length - MAX_FINISHED_DELIVERIES)
+      .forEach((d) => deliveries.delete(d.id));
+  }
+  writeJsonFile(DELIVERIES_FILE, Array.from(deliveries.values()));
+}
+
+function loadFromDisk(): void {
+  try {
+    for (const webhook of readJsonFile<Webhook[]>(WEBHOOKS_FILE, [])) {
+      webhooks.set(webhook.id, webhook);
+    }
+    for (const delivery of readJsonFile<WebhookDelivery[]>(DELIVERIES_FILE, [])) {
+      deliveries.set(delivery.id, delivery);
+    }
+    if (webhooks.size > 0) {
+      log.info(`Loaded ${webhooks.size} webhooks and ${deliveries.size} deliveries from disk`);
+    }
+  } catch {
+    log.warn("Failed to load webhooks from disk, starting fresh");
+  }
+}
+
+export function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { encryptedSecret: _, ...rest } = webhook;
+  return rest;
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+async function attempt(delivery: WebhookDelivery): Promise<void> {
+  const webhook = webhooks.get(delivery.webhookId);
+  delivery.attempts += 1;
+  delivery.updatedAt = Date.now();
+
+  if (!webhook) {
+    delivery.status = "failed";
+    delivery.lastError = "Webhook was removed";
+    return;
+  }
+
+  try {
+    const body = JSON.stringify(delivery.event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const res = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "PragmaMoney-Webhooks/1",
+        [WEBHOOK_EVENT_HEADER]: delivery.event.type,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(body, decryptSecret(webhook.encryptedSecret), timestamp),
+      },
+      body,
+      redirect: "manual",
+      timeout: config.webhookTimeoutMs,
+    });
+    delivery.lastStatusCode = res.status;
+    if (res.status < 200 || res.status >= 300) {
+      const text = await res.text().catch(() => "");
+      throw new Error(`HTTP ${res.status}${text ? `: ${text.slice(0, MAX_ERROR_BODY)}` : ""}`);
+    }
+
+    delivery.status = "delivered";
+    delivery.deliveredAt = Date.now();
+    delivery.lastError = undefined;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    delivery.lastError = message;
+    if (delivery.attempts >= config.webhookMaxAttempts) {
+      delivery.status = "failed";
+      log.error(`${delivery.id} to ${webhook.url} failed after ${delivery.attempts} attempts: ${message}`);
+    } else {
+      const delay = Math.min(config.webhookRetryBaseMs * 2 ** (delivery.attempts - 1), MAX_RETRY_DELAY_MS);
+      delivery.nextAttemptAt = Date.now() + delay;
+      log.warn(`${delivery.id} attempt ${delivery.attempts} failed: ${message}; retrying in ${delay}ms`);
+    }
+  }
+  delivery.updatedAt = Date.now();
+}
+
+// ---------------------------------------------------------------------------
+// Worker
+// ---------------------------------------------------------------------------
+
+let _workerTimer: NodeJS.Timeout | null = null;
+let _running = false;
+
+/** Attempt every due delivery once. Endpoints are independent, so they run concurrently. */
+async function drain(): Promise<void> {
+  if (_running) return;
+  _running = true;
+  try {
+    const now = Date.now();
+    const due = Array.from(deliveries.values()).filter(
+      (d) => d.status === "pending" && d.nextAttemptAt <= now
+    );
+    if (due.length === 0) return;
+    await Promise.all(due.map(attempt));
+    persistDeliveries();
+  } finally {
+    _running = false;
+  }
+}
+
+function kick(): void {
+  if (_workerTimer) {
+    drain().catch((err) => log.error("worker error", { error: err }));
+  }
+}
+
+export function startWebhookWorker(): void {
+  if (_workerTimer) return;
+  _workerTimer = setInterval(() => {
+    drain().catch((err) => log.error("worker error", { error: err }));
+  }, config.webhookPollIntervalMs);
+}
+
+export function stopWebhookWorker(): void {
+  if (_workerTimer) clearInterval(_workerTimer);
+  _workerTimer = null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function listWebhooks(resourceId: string): Webhook[] {
+  return Array.from(webhooks.values())
+    .filter((w) => w.resourceId === resourceId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function getWebhook(resourceId: string, id: string): Webhook | undefined {
+  const webhook = webhooks.get(id);
+  return webhook?.resourceId === resourceId ? webhook : undefined;
+}
+
+/**
+ * Register a webhook. Returns the webhook and its signing secret, which is
+ * only ever returned here (and by `rotateWebhookSecret`).
+ */
+export function createWebhook(
+  resourceId: string,
+  url: string,
+  events: WebhookEventType[]
+): { webhook: Webhook; secret: string } {
+  const secret = `whsec_${randomBytes(32).toString("hex")}`;
+  const now = Date.now();
+  const webhook: Webhook = {
+    id: randomUUID(),
+    resourceId,
+    url,
+    events,
+    encryptedSecret: encryptSecret(secret),
+    createdAt: now,
+    updatedAt: now,
+  };
+  webhooks.set(webhook.id, webhook);
+  persistWebhooks();
+  return { webhook, secret };
+}
+
+export function rotateWebhookSecret(resourceId: string, id: string): { webhook: Webhook; secret: string } | undefined {
+  const webhook = getWebhook(resourceId, id);
+  if (!webhook) return undefined;
+  const secret = `whsec_${randomBytes(32).toString("hex")}`;
+  webhook.encryptedSecret = encryptSecret(secret);
+  webhook.updatedAt = Date.now();
+  persistWebhooks();
+  return { webhook, secret };
+}
+
+/** Remove a webhook. Its pending deliveries fail on their next attempt. */
+export function deleteWebhook(resourceId: string, id: string): boolean {
+  if (!getWebhook(resourceId, id)) return false;
+  webhooks.delete(id);
+  persistWebhooks();
+  return true;
+}
+
+/**
+ * Queue an event for every webhook of its resource subscribed to its type.
+ * Never throws: a notification problem must not fail the paid call.
+ */
+export function emitWebhookEvent(
+  type: WebhookEventType,
+  resourceId: string,
+  data: WebhookEvent["data"]
+): void {
+  const targets = listWebhooks(resourceId).filter((w) => w.events.includes(type));
+  if (targets.length === 0) return;
+
+  try {
+    const now = Date.now();
+    const event: WebhookEvent = { id: randomUUID(), type, resourceId, createdAt: now, data };
+    for (const webhook of targets) {
+      const delivery: WebhookDelivery = {
+        id: randomUUID(),
+        webhookId: webhook.id,
+        resourceId,
+        event,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+      deliveries.set(delivery.id, delivery);
+    }
+    persistDeliveries();
+    kick();
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error(`Failed to queue ${type} for ${resourceId}: ${message}`);
+  }
+}
+
+/** A resource's delivery log, newest first. */
+export function listWebhookDeliveries(
+  resourceId: string,
+  filter: { webhookId?: string; status?: WebhookDeliveryStatus }
+): WebhookDelivery[] {
+  return Array.from(deliveries.values())
+    .filter((d) =>
+      d.resourceId === resourceId &&
+      (filter.webhookId === undefined || d.webhookId === filter.webhookId) &&
+      (filter.status === undefined || d.status === filter.status)
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getWebhookDelivery(resourceId: string, id: string): WebhookDelivery | undefined {
+  const delivery = deliveries.get(id);
+  return delivery?.resourceId === resourceId ? delivery : undefined;
+}
+
+/**
+ * Send a delivery again with a fresh attempt budget (same event id, so the
+ * receiver can de-duplicate). Returns undefined if its webhook is gone.
+ */
+export function redeliverWebhook(resourceId: string, id: string): WebhookDelivery | undefined {
+  const delivery = getWebhookDelivery(resourceId, id);
+  if (!delivery || !webhooks.has(delivery.webhookId)) return undefined;
+  delivery.status = "pending";
+  delivery.attempts = 0;
+  delivery.nextAttemptAt = Date.now();
+  delivery.updatedAt = Date.now();
+  persistDeliveries();
+  kick();
+  return delivery;
+}
+
+loadFromDisk();
@@ -0,0 +1,185 @@
+import type { Request } from "express";
+import { config, type NetworkConfig } from "../config.js";
+import type {
+  Caip2Network,
+  DecodedPayment,
+  PaymentPayload,
+  PaymentPayloadV2,
+  PaymentRequiredV2,
+  PaymentRequirementsAccept,
+  PaymentRequirementsV2,
+  SettlementResponseV1,
+  SettlementResponseV2,
+  X402Version,
+} from "../types/x402.js";
+
+/**
+ * x402 protocol version handling.
+ *
+ * The gate speaks v1 and v2 side by side and negotiates per request:
+ *
+ * - 402 responses carry the v1 requirements in the JSON body (legacy
+ *   clients such as x402-axios 1.x) and the v2 `PaymentRequired` in the
+ *   base64 `PAYMENT-REQUIRED` header (v2 clients read the header first).
+ * - A paying request is v2 if it sends `PAYMENT-SIGNATURE` (or an
+ *   `X-PAYMENT` header whose payload declares `x402Version: 2`), else v1.
+ * - The settlement result is returned in the matching header:
+ *   `PAYMENT-RESPONSE` for v2, `X-PAYMENT-RESPONSE` for v1, both as
+ *   base64-encoded JSON.
+ *
+ * Internally requirements are built in the v1 shape; this module converts
+ * them, and v2 payloads, at the edges.
+ */
+
+/** v1 network names ↔ CAIP-2 chain ids, covering every configured network. */
+const NETWORK_CAIP2: Record<string, Caip2Network> = {
+  base: "eip155:8453",
+  ...Object.fromEntries(
+    Object.values(config.networks).map((n) => [n.name, `eip155:${n.chainId}` as Caip2Network])
+  ),
+};
+
+export function toCaip2(network: string): Caip2Network {
+  if (network.includes(":")) return network as Caip2Network;
+  const caip2 = NETWORK_CAIP2[network];
+  if (!caip2) throw new Error(`No CAIP-2 id known for network '${network}'`);
+  return caip2;
+}
+
+export function fromCaip2(network: string): string {
+  if (!network.includes(":")) return network;
+  const entry = Object.entries(NETWORK_CAIP2).find(([, caip2]) => caip2 === network);
+  return entry ? entry[0] : network;
+}
+
+/** Look up a configured network by v1 name or CAIP-2 id. */
+export function resolveNetwork(network: string): NetworkConfig | undefined {
+  return config.networks[fromCaip2(network)];
+}
+
+// ---------------------------------------------------------------------------
+// Requirements
+// ---------------------------------------------------------------------------
+
+export function toRequirementV2(accept: PaymentRequirementsAccept): PaymentRequirementsV2 {
+  return {
+    scheme: accept.scheme,
+    network: toCaip2(accept.network),
+    asset: accept.asset,
+    amount: accept.maxAmountRequired,
+    payTo: accept.payTo,
+    maxTimeoutSeconds: accept.maxTimeoutSeconds,
+    extra: { ...accept.extra },
+  };
+}
+
+/**
+ * Build the v2 `PaymentRequired` object for the `PAYMENT-REQUIRED` header.
+ * All accepts describe the same resource, so resource info is taken from
+ * the first one.
+ */
+export function buildPaymentRequiredV2(
+  accepts: PaymentRequirementsAccept[],
+  error: string,
+  extensions?: Record<string, unknown>
+): PaymentRequiredV2 {
+  const [first] = accepts;
+  return {
+    x402Version: 2,
+    error,
+    resource: {
+      url: first.resource,
+      description: first.description,
+      mimeType: first.mimeType,
+    },
+    accepts: accepts.map(toRequirementV2),
+    extensions,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Payment headers
+// ---------------------------------------------------------------------------
+
+function decodeBase64Json<T>(value: string): T {
+  return JSON.parse(Buffer.from(value, "base64").toString("utf-8")) as T;
+}
+
+function encodeBase64Json(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+/**
+ * Read the payment header from a request, if any, and decode it.
+ * Throws if a header is present but not valid base64 JSON.
+ */
+export function extractPayment(req: Request): DecodedPayment | null {
+  const header =
+    (req.headers["payment-signature"] as string | undefined) ??
+    (req.headers["x-payment"] as string | undefined);
+  if (!header) return null;
+
+  const decoded = decodeBase64Json<{ x402Version?: number }>(header);
+  if (decoded.x402Version === 2) {
+    return { version: 2, payload: decoded as PaymentPayloadV2 };
+  }
+  return { version: 1, payload: decoded as PaymentPayload };
+}
+
+/**
+ * View any decoded payment in the v1 shape (scheme + v1 network name +
+ * EVM payload), which is what logging and the local facilitator use.
+ */
+export function toPaymentPayloadV1(payment: DecodedPayment): PaymentPayload {
+  if (payment.version === 1) return payment.payload;
+  return {
+    x402Version: 2,
+    scheme: payment.payload.accepted?.scheme,
+    network: fromCaip2(payment.payload.accepted?.network ?? ""),
+    payload: payment.payload.payload,
+  };
+}
+
+/** The paying address of a decoded payload, for either EVM scheme. */
+export function payerOf(payload: PaymentPayload): string | undefined {
+  const inner = payload.payload;
+  if (!inner) return undefined;
+  return "permit" in inner ? inner.permit?.owner : inner.authorization?.from;
+}
+
+/**
+ * A stable reference for a payment before it settles: the EIP-3009
+ * authorization nonce (`exact`), or `<owner>:<permit nonce>` (`upto`).
+ */
+export function paymentRefOf(payload: PaymentPayload): string {
+  const inner = payload.payload;
+  if (!inner) return "";
+  return "permit" in inner ? `${inner.permit.owner}:${inner.permit.nonce}` : inner.authorization.nonce;
+}
+
+/**
+ * Encode the settlement result into the response header matching the
+ * request's protocol version. Returns [headerName, headerValue].
+ */
+export function encodeSettlementHeader(
+  version: X402Version,
+  result: {
+    success: boolean;
+    transaction: string;
+    network: string;
+    payer?: string;
+    errorReason?: string;
+    amount?: string;
+  }
+): [string, string] {
+  if (version === 2) {
+    const body: SettlementResponseV2 = { ...result, network: toCaip2(result.network) };
+    return ["PAYMENT-RESPONSE", encodeBase64Json(body)];
+  }
+  const body: SettlementResponseV1 = { ...result, network: fromCaip2(result.network) };
+  return ["X-PAYMENT-RESPONSE", encodeBase64Json(body)];
+}
+
+export function encodePaymentRequiredHeader(paymentRequired: PaymentRequiredV2): string {
+  return encodeBase64Json(paymentRequired);
+}
@@ -23,14 +23,48 @@ export interface PaymentRequirementsAccept {
   extra: {
     name: string;
     version: string;
+    /** `upto` only: address the EIP-2612 permit must approve. */
+    spender?: string;
   };
 }
 
+export type FacilitatorMode = "remote" | "local";
+
 export interface PaymentRequirements {
   x402Version: number;
   accepts: PaymentRequirementsAccept[];
 }
 
+/** Signed EIP-3009 authorization carried by `exact` EVM payloads (v1 and v2). */
+export interface ExactEvmPayload {
+  authorization: {
+    from: string;
+    to: string;
+    value: string;
+    validAfter: string;
+    validBefore: string;
+    nonce: string;
+  };
+  signature: string;
+}
+
+/**
+ * Signed EIP-2612 permit carried by `upto` EVM payloads: the payer approves
+ * up to `value` and the proxy pulls only the metered charge.
+ */
+export interface UptoEvmPayload {
+  permit: {
+    owner: string;
+    spender: string;
+    value: string;
+    nonce: string;
+    deadline: string;
+  };
+  signature: string;
+}
+
+export type EvmPayload = ExactEvmPayload | UptoEvmPayload;
+
 /**
  * Decoded content of the `x-payment` header sent by end-user clients
  * following the x402 specification.
@@ -39,19 +73,82 @@ export interface PaymentPayload {
   x402Version: number;
   scheme: string;
   network: string;
-  payload: {
-    authorization: {
-      from: string;
-      to: string;
-      value: string;
-      validAfter: string;
-      validBefore: string;
-      nonce: string;
-    };
-    signature: string;
-  };
+  payload: EvmPayload;
+}
+
+/**
+ * x402 v1 settlement response, base64-encoded into `X-PAYMENT-RESPONSE`.
+ */
+export interface SettlementResponseV1 {
+  success: boolean;
+  errorReason?: string;
+  payer?: string;
+  transaction: string;
+  network: string;
+  /** Amount actually charged (atomic units); set for the `upto` scheme. */
+  amount?: string;
 }
 
+// ---------------------------------------------------------------------------
+// x402 v2 Types (PAYMENT-SIGNATURE / PAYMENT-REQUIRED / PAYMENT-RESPONSE)
+// ---------------------------------------------------------------------------
+
+export type X402Version = 1 | 2;
+
+/** CAIP-2 chain id, e.g. "eip155:84532". */
+export type Caip2Network = `${string}:${string}`;
+
+export interface ResourceInfo {
+  url: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface PaymentRequirementsV2 {
+  scheme: string;
+  network: Caip2Network;
+  asset: string;
+  /** Atomic token units. */
+  amount: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  extra: Record<string, unknown>;
+}
+
+/** Body of the base64 `PAYMENT-REQUIRED` response header. */
+export interface PaymentRequiredV2 {
+  x402Version: 2;
+  error?: string;
+  resource: ResourceInfo;
+  accepts: PaymentRequirementsV2[];
+  extensions?: Record<string, unknown>;
+}
+
+/** Decoded content of the `PAYMENT-SIGNATURE` request header. */
+export interface PaymentPayloadV2 {
+  x402Version: 2;
+  resource?: ResourceInfo;
+  accepted: PaymentRequirementsV2;
+  payload: EvmPayload;
+  extensions?: Record<string, unknown>;
+}
+
+/** Body of the base64 `PAYMENT-RESPONSE` response header. */
+export interface SettlementResponseV2 {
+  success: boolean;
+  errorReason?: string;
+  payer?: string;
+  transaction: string;
+  network: Caip2Network;
+  /** Amount actually charged (atomic units); set for the `upto` scheme. */
+  amount?: string;
+}
+
+/** A payment header decoded from either protocol version. */
+export type DecodedPayment =
+  | { version: 1; payload: PaymentPayload }
+  | { version: 2; payload: PaymentPayloadV2 };
+
 // ---------------------------------------------------------------------------
 // On-chain Gateway Types (agent path)
 // ---------------------------------------------------------------------------
@@ -61,6 +158,8 @@ export interface GatewayPayment {
   payer: string;
   amount: bigint;
   serviceId: string;
+  /** Number of calls paid for; `amount` covers all of them. */
+  calls: bigint;
   valid: boolean;
 }
 
@@ -76,12 +175,98 @@ export interface VerifyResult {
 
 export type ServiceType = "COMPUTE" | "STORAGE" | "API" | "AGENT" | "OTHER";
 
+/**
+ * One way to pay for a resource: a network plus the token and price
+ * accepted there. Becomes one entry of the 402 `accepts` list.
+ */
+export interface PaymentOption {
+  /** x402 v1 network name, a key of `config.networks`. */
+  network: string;
+  /** Token contract; defaults to the network's USDC. */
+  asset?: string;
+  /** Price per call in the asset's atomic units; defaults to `pricing.pricePerCall`. */
+  pricePerCall?: string;
+  /** EIP-712 domain of `asset`; defaults to the network's USDC domain. */
+  extra?: { name: string; version: string };
+}
+
+export type MeteringUnit = "tokens" | "ms";
+
+/**
+ * Usage-metered pricing (`upto` scheme): the payer authorizes `maxPerCall`
+ * and is charged `basePrice + units * pricePerUnit`, capped at the maximum,
+ * where units are tokens reported by the upstream (OpenAI / Ollama usage
+ * fields) or upstream response time in milliseconds.
+ */
+export interface MeteredPricing {
+  unit: MeteringUnit;
+  /** Atomic USDC per unit. */
+  pricePerUnit: string;
+  /** Flat atomic USDC added to every successful call. */
+  basePrice?: string;
+  /** Maximum charge per call; the amount the payer authorizes. */
+  maxPerCall: string;
+}
+
+/**
+ * Price for requests matching an HTTP method and a path below the resource
+ * (e.g. `POST /v1/images/*`). See services/pricing.ts for pattern syntax.
+ */
+export interface PricingRule {
+  /** HTTP method, or "*" / omitted for any method. */
+  method?: string;
+  /** Path pattern relative to the resource, starting with "/". */
+  path: string;
+  /** Price per call in atomic units; "0" makes the route free. */
+  pricePerCall: string;
+}
+
 export interface ResourcePricing {
   /** Price per call in atomic USDC units (6 decimals). E.g. "1000" = 0.001 USDC */
   pricePerCall: string;
   currency: "USDC";
+  /**
+   * Payment options advertised in the 402 response. Defaults to USDC at
+   * `pricePerCall` on each of `config.paymentNetworks`.
+   */
+  accepts?: PaymentOption[];
+  /**
+   * Per-route prices, first match wins. A matched rule's price applies on
+   * every network; unmatched requests pay the defaults above.
+   */
+  rules?: PricingRule[];
+  /** Usage-metered pricing; when set, x402 payments use the `upto` scheme. */
+  metered?: MeteredPricing;
+}
+
+export interface RateLimit {
+  /** Requests allowed per window; 0 means unlimited. */
+  requests: number;
+  windowMs: number;
+}
+
+/** Rate limits a resource owner can set on their resource. */
+export interface ResourceRateLimits {
+  /** Paid calls per payer address. */
+  perPayer?: RateLimit;
+  /** Paid calls per client IP. */
+  perIp?: RateLimit;
+  /** Paid calls across all callers, protecting the upstream. */
+  total?: RateLimit;
 }
 
+/**
+ * How a resource's x402 payments relate to the upstream call:
+ * - "settle-first": settle, then forward (the caller pays even if upstream fails)
+ * - "settle-after": verify, forward, and settle only if upstream succeeded
+ * - "refund-on-failure": settle, forward, and refund from the proxy signer
+ *   if upstream failed (only where the proxy signer is paid: on-chain
+ *   services with split targets, on the home network)
+ * Upstream failure means a 5xx status or no response at all. For gateway
+ * payments, both non-default policies give the paid call back on failure.
+ */
+export type SettlementPolicy = "settle-first" | "settle-after" | "refund-on-failure";
+
 export interface Resource {
   id: string;
   name: string;
@@ -90,8 +275,257 @@ export interface Resource {
   originalUrl: string;
   proxyUrl: string;
   pricing: ResourcePricing;
-  apiKey?: string;
+  /**
+   * Full bytes32 ServiceRegistry id when the resource wraps an on-chain
+   * service. Omitted when `id` itself is the bytes32 id, or for off-chain
+   * resources.
+   */
+  serviceId?: string;
+  /** False once the bound on-chain service has been deactivated (see registrySync). */
+  active?: boolean;
+  /** When x402 payments are settled relative to the upstream call (default "settle-first"). */
+  settlementPolicy?: SettlementPolicy;
+  /** URL probed by the health checker; defaults to `originalUrl`. */
+  healthCheckUrl?: string;
+  /** Owner-set rate limits; unset scopes use the proxy defaults. */
+  rateLimits?: ResourceRateLimits;
+  /**
+   * Upstream secret, sealed by secretVault: the API key, password, bearer
+   * token, OAuth2 client secret or HMAC key, depending on `upstreamAuth`.
+   * Never leaves the proxy.
+   */
+  encryptedApiKey?: string;
+  /** Header the API key is sent in (default "Authorization"). Used when `upstreamAuth` is unset. */
   apiKeyHeader?: string;
+  /** How the proxy authenticates to the upstream; defaults to the `apiKeyHeader` header. */
+  upstreamAuth?: UpstreamAuth;
+  /** How paid requests are attested to the upstream; defaults to `config.attestationMode`. */
+  attestation?: AttestationMode;
+  /** Secret for "hmac" attestations, sealed by secretVault. */
+  encryptedAttestationSecret?: string;
+}
+
+/**
+ * Fields supplied when registering a resource (proxyUrl is derived). The API
+ * key is given in plaintext and encrypted by the store.
+ */
+export type ResourceInput = Omit<Resource, "proxyUrl" | "encryptedApiKey" | "encryptedAttestationSecret"> & {
+  apiKey?: string;
+};
+
+/** A resource as returned by public and admin APIs: secrets removed. */
+export type PublicResource = Omit<Resource, "encryptedApiKey" | "encryptedAttestationSecret"> & {
+  hasApiKey: boolean;
+};
+
+// ---------------------------------------------------------------------------
+// Upstream Auth Types
+// ---------------------------------------------------------------------------
+
+/** Secret sent verbatim (or after `prefix`, e.g. "Bearer ") in a header. */
+export interface HeaderUpstreamAuth {
+  type: "header";
+  header: string;
+  prefix?: string;
+}
+
+/** Secret sent as a query parameter, e.g. `?api_key=...`. */
+export interface QueryUpstreamAuth {
+  type: "query";
+  param: string;
+}
+
+/** HTTP Basic with `username`; the secret is the password. */
+export interface BasicUpstreamAuth {
+  type: "basic";
+  username: string;
+}
+
+/** Static bearer token; the secret is the token. */
+export interface BearerUpstreamAuth {
+  type: "bearer";
+}
+
+/**
+ * OAuth2 client-credentials grant; the secret is the client secret. Access
+ * tokens are cached until shortly before they expire and refreshed after an
+ * upstream 401.
+ */
+export interface OAuth2UpstreamAuth {
+  type: "oauth2-client-credentials";
+  tokenUrl: string;
+  clientId: string;
+  scope?: string;
+  audience?: string;
+  /** Send client credentials as HTTP Basic ("basic") or in the form body ("body", default). */
+  clientAuth?: "basic" | "body";
+}
+
+/**
+ * HMAC-signed requests; the secret is the signing key. The signature covers
+ * `<timestamp>\n<METHOD>\n<path?query>\n<hex sha256(body)>`.
+ */
+export interface HmacUpstreamAuth {
+  type: "hmac";
+  algorithm?: "sha256" | "sha512";
+  /** Header carrying the signature (default "X-Signature"). */
+  signatureHeader?: string;
+  /** Header carrying the unix timestamp in seconds (default "X-Timestamp"). */
+  timestampHeader?: string;
+  signatureEncoding?: "hex" | "base64";
+  /** Optional key identifier, sent in `keyIdHeader` (default "X-Key-Id"). */
+  keyId?: string;
+  keyIdHeader?: string;
+}
+
+export type UpstreamAuth =
+  | HeaderUpstreamAuth
+  | QueryUpstreamAuth
+  | BasicUpstreamAuth
+  | BearerUpstreamAuth
+  | OAuth2UpstreamAuth
+  | HmacUpstreamAuth;
+
+// ---------------------------------------------------------------------------
+// Registry Sync Types
+// ---------------------------------------------------------------------------
+
+/** An on-chain ServiceRegistry service that no proxy resource is bound to yet. */
+export interface UnmappedService {
+  serviceId: string;
+  name: string;
+  owner: string;
+  pricePerCall: string;
+  endpoint: string;
+  active: boolean;
+}
+
+export interface RegistrySyncStatus {
+  /** Last completed full walk of the registry (ms since epoch). */
+  lastFullSyncAt?: number;
+  /** Last block whose registry events have been applied. */
+  lastBlock?: number;
+  servicesOnChain: number;
+  unmapped: UnmappedService[];
+  lastError?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Chain Index Types (chainIndexer)
+// ---------------------------------------------------------------------------
+
+/** Where an indexed event was emitted. */
+export interface IndexedEventRef {
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface IndexedService {
+  serviceId: string;
+  agentId: string;
+  owner: string;
+  name: string;
+  pricePerCall: string;
+  endpoint: string;
+  serviceType: number;
+  active: boolean;
+  totalCalls: string;
+  totalRevenue: string;
+}
+
+export interface IndexedAgent {
+  agentId: string;
+  agentAccount: string;
+  agentURI?: string;
+  pool?: string;
+  /** NewFeedback events received (ReputationRegistry). */
+  feedbackCount: number;
+  /** FeedbackRevoked events received. */
+  revokedFeedbackCount: number;
+}
+
+/** A gateway `payForService` payment (x402Gateway ServicePaid). */
+export interface IndexedPayment extends IndexedEventRef {
+  paymentId: string;
+  payer: string;
+  serviceId: string;
+  calls: string;
+  amount: string;
+}
+
+/** AgentPool events: ERC-4626 flows, agent pulls and admin changes. */
+export type PoolActivityKind =
+  | "deposit"
+  | "withdraw"
+  | "pull"
+  | "daily-cap-updated"
+  | "agent-revoked"
+  | "vesting-updated"
+  | "pull-target-updated"
+  | "metadata-updated";
+
+export interface PoolActivity extends IndexedEventRef {
+  pool: string;
+  kind: PoolActivityKind;
+  /** Event arguments, bigints as decimal strings. */
+  data: Record<string, string | boolean>;
+}
+
+export interface ChainIndexStatus {
+  /** Last block whose events have been indexed. */
+  lastBlock?: number;
+  services: number;
+  agents: number;
+  payments: number;
+  poolEvents: number;
+  lastError?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Attestation Types
+// ---------------------------------------------------------------------------
+
+/**
+ * How the proxy proves to an upstream that a request was paid:
+ * - "eip191": signed by the proxy signer (verifiable with its address)
+ * - "hmac": HMAC-SHA256 with a per-resource secret shared with the owner
+ * - "off": no attestation headers
+ */
+export type AttestationMode = "eip191" | "hmac" | "off";
+
+/**
+ * The payment behind a forwarded call, as set by the gate on
+ * `res.locals.attestedPayment`. A deferred settlement updates `amount` and
+ * `txHash` with what was finally charged, which the usage receipt reports.
+ */
+export interface AttestedPayment {
+  method: "x402" | "gateway";
+  payer: string;
+  paymentRef: string;
+  txHash?: string;
+  amount: string;
+  network: string;
+}
+
+// ---------------------------------------------------------------------------
+// Upstream Health Types
+// ---------------------------------------------------------------------------
+
+/** closed: traffic flows; open: upstream refused; half-open: trial traffic allowed. */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type ResourceHealthStatus = "healthy" | "unhealthy" | "unknown";
+
+export interface ResourceHealth {
+  status: ResourceHealthStatus;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  /** Unix milliseconds of the last probe or forwarded call. */
+  lastCheckedAt?: number;
+  lastError?: string;
+  /** Unix milliseconds at which an open circuit lets trial traffic through. */
+  retryAt?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -99,7 +533,7 @@ export interface Resource {
 // ---------------------------------------------------------------------------
 
 export type PaymentMethod = "x402" | "gateway";
-export type TransactionStatus = "pending" | "verified" | "settled" | "failed";
+export type TransactionStatus = "pending" | "verified" | "settled" | "failed" | "refunded";
 
 export interface Transaction {
   id: string;
@@ -110,6 +544,235 @@ export interface Transaction {
   timestamp: number;
   status: TransactionStatus;
   paymentId?: string;
+  /** Settlement transaction hash (Path A only). */
+  txHash?: string;
+  /** x402 v1 network name the payment was made on. */
+  network?: string;
+  /** Why the call was not charged or was refunded (upstream failure). */
+  failureReason?: string;
+}
+
+/** Filters accepted by the transaction ledger query API. */
+export interface TransactionQuery {
+  resourceId?: string;
+  payer?: string;
+  method?: PaymentMethod;
+  status?: TransactionStatus;
+  /** Inclusive lower bound, unix milliseconds. */
+  from?: number;
+  /** Inclusive upper bound, unix milliseconds. */
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TransactionPage {
+  total: number;
+  limit: number;
+  offset: number;
+  transactions: Transaction[];
+}
+
+// ---------------------------------------------------------------------------
+// Settlement Types (revenue distribution from the proxy signer)
+// ---------------------------------------------------------------------------
+
+export type SettlementStatus = "pending" | "processing" | "completed" | "dead";
+
+interface SettlementStepBase {
+  /** Hash of the last transaction broadcast for this step, if any. */
+  txHash?: string;
+  /** Nonce used for `txHash`; lets a retry tell a dropped tx from a pending one. */
+  nonce?: number;
+  done: boolean;
+}
+
+export interface TransferStep extends SettlementStepBase {
+  kind: "transfer";
+  /** Human-readable label for logs, e.g. "pool", "agentWallet" or "refund". */
+  label: string;
+  to: string;
+  /** Atomic units of `asset`. */
+  amount: string;
+  /** Network to send on; defaults to the home network. */
+  network?: string;
+  /** Token to send; defaults to the network's USDC. */
+  asset?: string;
+}
+
+export interface RecordUsageStep extends SettlementStepBase {
+  kind: "recordUsage";
+  serviceId: string;
+  calls: number;
+  /** Atomic USDC units. */
+  revenue: string;
+}
+
+export type SettlementStep = TransferStep | RecordUsageStep;
+
+/** A step as supplied when enqueueing, before any execution state exists. */
+export type SettlementStepInput =
+  | Omit<TransferStep, keyof SettlementStepBase>
+  | Omit<RecordUsageStep, keyof SettlementStepBase>;
+
+export interface Settlement {
+  id: string;
+  /** Idempotency key: enqueueing the same key twice yields one settlement. */
+  key: string;
+  /** Resource whose payment is distributed; omitted for batched flushes. */
+  resourceId?: string;
+  /** Agent whose accrued revenue is distributed (batched flushes only). */
+  agentId?: string;
+  /** Ledger transaction this settlement distributes, if any. */
+  transactionId?: string;
+  /** Correlation id of the request that enqueued it; the worker logs under it. */
+  requestId?: string;
+  steps: SettlementStep[];
+  status: SettlementStatus;
+  attempts: number;
+  /** Unix milliseconds before which the worker will not pick the job up. */
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SettlementMode = "immediate" | "batched";
+
+/** Usage accrued for one on-chain service since the last flush. */
+export interface ServiceUsageAccrual {
+  calls: number;
+  /** Atomic USDC units. */
+  revenue: string;
+}
+
+/**
+ * Revenue accrued for an agent but not yet distributed (batched mode).
+ * Amounts are atomic USDC units held by the proxy signer.
+ */
+export interface AgentAccrual {
+  agentId: string;
+  /** Split targets; absent when the agent has no wallet/pool (usage only). */
+  agentWallet?: string;
+  pool?: string;
+  poolAmount: string;
+  walletAmount: string;
+  services: Record<string, ServiceUsageAccrual>;
+  /** Unix milliseconds of the first accrual since the last flush. */
+  since: number;
+  updatedAt: number;
+}
+
+// ---------------------------------------------------------------------------
+// Deployer Transaction Types (nonceManager)
+// ---------------------------------------------------------------------------
+
+/**
+ * pending: nonce not yet confirmed; mined: one of `hashes` was mined;
+ * dropped: the nonce was consumed by another tx (a gap filler or an
+ * external sender).
+ */
+export type DeployerTxStatus = "pending" | "mined" | "dropped";
+
+/** A transaction sent by the deployer / proxy signer, tracked per nonce. */
+export interface DeployerTx {
+  network: string;
+  from: string;
+  nonce: number;
+  /** Every hash broadcast for this tx, oldest first; each gas bump adds one. */
+  hashes: string[];
+  /** Latest signed transaction, rebroadcast if the node forgets it. */
+  raw: string;
+  /** False when the broadcast failed ambiguously (the tx may or may not have reached the node). */
+  acked: boolean;
+  /** Gas-bumped replacements sent so far. */
+  bumps: number;
+  /** Zero-value self-transfer that took this nonce in place of the tx. */
+  cancelHash?: string;
+  status: DeployerTxStatus;
+  /** Hash mined at this nonce, when it is one of ours. */
+  minedHash?: string;
+  sentAt: number;
+  updatedAt: number;
+}
+
+/** Nonce bookkeeping of the deployer on one network. */
+export interface DeployerNonceStatus {
+  network: string;
+  address: string;
+  /** Nonce the next transaction will get. */
+  nextNonce: number;
+  /** Nonces handed out and not yet broadcast. */
+  inFlight: number[];
+  pending: number;
+}
+
+// ---------------------------------------------------------------------------
+// Webhook Types (payment notifications to service owners)
+// ---------------------------------------------------------------------------
+
+/**
+ * "payment.settled": a Path A (x402) payment was settled on-chain.
+ * "payment.verified": a Path B gateway payment was verified and one of its
+ * calls consumed.
+ */
+export type WebhookEventType = "payment.settled" | "payment.verified";
+
+export interface Webhook {
+  id: string;
+  resourceId: string;
+  url: string;
+  events: WebhookEventType[];
+  /** Signing secret, sealed by the secret vault. */
+  encryptedSecret: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** Webhook as returned by the API (secret stripped). */
+export type PublicWebhook = Omit<Webhook, "encryptedSecret">;
+
+/** JSON body POSTed to a webhook URL. */
+export interface WebhookEvent {
+  /** Stable across retries of the same delivery; use it to de-duplicate. */
+  id: string;
+  type: WebhookEventType;
+  resourceId: string;
+  /** Unix milliseconds. */
+  createdAt: number;
+  data: {
+    transactionId: string;
+    payer: string;
+    /** Atomic USDC units. */
+    amount: string;
+    method: PaymentMethod;
+    network?: string;
+    /** Settlement transaction (payment.settled). */
+    txHash?: string;
+    /** Gateway paymentId (payment.verified). */
+    paymentId?: string;
+    /** On-chain ServiceRegistry id, when the resource is bound to one. */
+    serviceId?: string;
+  };
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  resourceId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** Unix milliseconds before which the worker will not retry. */
+  nextAttemptAt: number;
+  /** HTTP status of the last attempt, if the endpoint answered. */
+  lastStatusCode?: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  deliveredAt?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -120,6 +783,9 @@ export interface X402ErrorResponse {
   x402Version: number;
   error: string;
   accepts: PaymentRequirementsAccept[];
+  /** Gateway on the home network. */
   gatewayContract: string;
+  /** Gateway per network name; select one with the `x-payment-network` header. */
+  gatewayContracts: Record<string, string>;
   serviceId: string;
 }
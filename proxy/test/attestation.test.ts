@@ -0,0 +1,195 @@
+import { TEST_ADMIN_TOKEN } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { IncomingHttpHeaders } from "node:http";
+import express from "express";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import {
+  ATTESTATION_HEADER,
+  ATTESTATION_SIGNATURE_HEADER,
+  encodeAttestation,
+  hmacAttestationSignature,
+  requirePragmaPayment,
+  verifyAttestation,
+  type AttestationClaims,
+} from "../src/sdk/verifyAttestation.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const SERVICE_ID = ethers.id("weather-service");
+const PAYER = "0x00000000000000000000000000000000000A11cE";
+const PROXY_SIGNER = new ethers.Wallet(config.proxySignerKey).address;
+
+const gatewayIface = new ethers.Interface([
+  "function getPayment(bytes32 paymentId) view returns (tuple(address payer, bytes32 serviceId, uint256 calls, uint256 amount, bool valid))",
+]);
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+/** Headers of the upstream's last request. */
+let upstreamHeaders: IncomingHttpHeaders = {};
+let nextPayment = 1;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  chain.mockCall(config.gatewayAddress, gatewayIface, "getPayment", () => [
+    { payer: PAYER, serviceId: SERVICE_ID, calls: 1n, amount: 1000n, valid: true },
+  ]);
+
+  upstream = await listen((req, res) => {
+    upstreamHeaders = req.headers;
+    res.end("{}");
+  });
+  proxy = await listen(app);
+  registerResource({
+    id: "weather",
+    name: "Weather",
+    type: "API",
+    creatorAddress: PAYER,
+    originalUrl: `${upstream.url}/v1/`,
+    serviceId: SERVICE_ID,
+    pricing: { pricePerCall: "1000", currency: "USDC", rules: [{ path: "/docs", pricePerCall: "0" }] },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+/** Make a paid gateway call to /proxy/weather/forecast; returns the paymentId. */
+async function paidCall(): Promise<string> {
+  const paymentId = ethers.zeroPadValue(ethers.toBeHex(nextPayment++), 32);
+  const res = await fetch(`${proxy.url}/proxy/weather/forecast`, { headers: { "x-payment-id": paymentId } });
+  assert.equal(res.status, 200);
+  return paymentId;
+}
+
+function setMode(mode: string, rotateSecret?: boolean): Promise<Response> {
+  return fetch(`${proxy.url}/services/weather/attestation`, {
+    method: "PUT",
+    headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}`, "content-type": "application/json" },
+    body: JSON.stringify({ mode, rotateSecret }),
+  });
+}
+
+const forecast = { method: "GET", path: "/v1/forecast" };
+
+test("paid calls are attested by the proxy signer by default", async () => {
+  const info = await (await fetch(`${proxy.url}/services/weather/attestation`)).json();
+  assert.deepEqual(info, { resourceId: "weather", mode: "eip191", signer: PROXY_SIGNER, hasSecret: false });
+
+  const paymentId = await paidCall();
+  const result = verifyAttestation(upstreamHeaders, forecast, { proxySigner: PROXY_SIGNER, resourceId: "weather" });
+  assert.ok(result.valid);
+  const { claims } = result;
+  assert.deepEqual(
+    [claims.resourceId, claims.payer, claims.method, claims.paymentRef, claims.amount, claims.network],
+    ["weather", PAYER, "gateway", paymentId, "1000", "base-sepolia"]
+  );
+
+  const stranger = ethers.Wallet.createRandom().address;
+  assert.deepEqual(verifyAttestation(upstreamHeaders, forecast, { proxySigner: stranger }), { valid: false, reason: "invalid_signature" });
+  assert.deepEqual(
+    verifyAttestation(upstreamHeaders, { method: "POST", path: "/v1/forecast" }, { proxySigner: PROXY_SIGNER }),
+    { valid: false, reason: "request_mismatch" }
+  );
+});
+
+test("client-sent attestation headers never reach the upstream", async () => {
+  await fetch(`${proxy.url}/proxy/weather/docs`, {
+    headers: { [ATTESTATION_HEADER]: "forged", [ATTESTATION_SIGNATURE_HEADER]: "eip191:0x" },
+  });
+  assert.equal(upstreamHeaders[ATTESTATION_HEADER], undefined);
+  assert.equal(upstreamHeaders[ATTESTATION_SIGNATURE_HEADER], undefined);
+});
+
+test("hmac attestation uses a per-resource secret shown once", async () => {
+  const res = await setMode("hmac");
+  const { secret } = (await res.json()) as { secret: string };
+  assert.match(secret, /^[0-9a-f]{64}$/);
+  assert.deepEqual(await (await fetch(`${proxy.url}/services/weather/attestation`)).json(), {
+    resourceId: "weather",
+    mode: "hmac",
+    hasSecret: true,
+  });
+
+  await paidCall();
+  assert.ok(verifyAttestation(upstreamHeaders, forecast, { hmacSecret: secret }).valid);
+  assert.deepEqual(verifyAttestation(upstreamHeaders, forecast, { hmacSecret: "wrong" }), { valid: false, reason: "invalid_signature" });
+
+  // Setting the mode again keeps the secret unless asked to rotate it
+  assert.equal(((await (await setMode("hmac")).json()) as { secret?: string }).secret, undefined);
+  const rotated = ((await (await setMode("hmac", true)).json()) as { secret: string }).secret;
+  assert.notEqual(rotated, secret);
+});
+
+test("with attestation off paid calls carry no headers", async () => {
+  await setMode("off");
+  await paidCall();
+  assert.equal(upstreamHeaders[ATTESTATION_HEADER], undefined);
+  assert.equal((await setMode("sometimes")).status, 400);
+});
+
+test("stale, foreign and malformed attestations are rejected", () => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AttestationClaims = {
+    v: 1,
+    resourceId: "weather",
+    payer: PAYER,
+    method: "x402",
+    paymentRef: "0x01",
+    amount: "1000",
+    network: "base-sepolia",
+    httpMethod: "GET",
+    path: "/v1/forecast",
+    timestamp: now,
+    nonce: "n",
+  };
+  const signed = (c: AttestationClaims | string) => {
+    const attestation = typeof c === "string" ? c : encodeAttestation(c);
+    return { [ATTESTATION_HEADER]: attestation, [ATTESTATION_SIGNATURE_HEADER]: hmacAttestationSignature(attestation, "k") };
+  };
+  const reason = (headers: IncomingHttpHeaders, options: object = {}) => {
+    const result = verifyAttestation(headers, forecast, { hmacSecret: "k", ...options });
+    return result.valid ? undefined : result.reason;
+  };
+
+  assert.equal(reason(signed(claims)), undefined);
+  assert.equal(reason(signed({ ...claims, timestamp: now - 301 })), "expired");
+  assert.equal(reason(signed(claims), { resourceId: "other" }), "resource_mismatch");
+  assert.equal(reason(signed("not-json")), "malformed_attestation");
+  assert.equal(reason({}), "missing_attestation");
+  assert.equal(reason({ ...signed(claims), [ATTESTATION_SIGNATURE_HEADER]: "rsa:abc" }), "unsupported_signature_scheme");
+  assert.equal(reason(signed(claims), { hmacSecret: undefined }), "hmac_not_configured");
+});
+
+test("the service middleware accepts an attestation once", async () => {
+  await setMode("eip191");
+  await paidCall();
+  const attested = {
+    [ATTESTATION_HEADER]: upstreamHeaders[ATTESTATION_HEADER] as string,
+    [ATTESTATION_SIGNATURE_HEADER]: upstreamHeaders[ATTESTATION_SIGNATURE_HEADER] as string,
+  };
+
+  const service = express();
+  service.get("/v1/forecast", requirePragmaPayment({ proxySigner: PROXY_SIGNER }), (_req, res) => {
+    res.json({ payer: (res.locals.pragmaPayment as AttestationClaims).payer });
+  });
+  const server = await listen(service);
+  try {
+    const url = `${server.url}/v1/forecast`;
+    assert.equal((await fetch(url)).status, 401);
+    const first = await fetch(url, { headers: attested });
+    assert.deepEqual(await first.json(), { payer: PAYER });
+    assert.equal((await fetch(url, { headers: attested })).status, 409);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,46 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { getNetworkChainId, getNetworkProvider } from "../src/services/chainClient.js";
+import { DeployerWallet } from "../src/services/nonceManager.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+
+// A local fork (anvil) serving under the base-sepolia network name
+let chain: FakeChain;
+
+before(async () => {
+  chain = await startFakeChain(31337);
+});
+
+after(() => chain.close());
+
+test("uses the chain id reported by the RPC, not the network's usual one", async () => {
+  const network = chain.network({ name: "anvil-fork" });
+  assert.equal(network.chainId, 84532);
+
+  assert.equal(await getNetworkChainId(network), 31337n);
+  assert.equal((await getNetworkProvider(network).getNetwork()).chainId, 31337n);
+});
+
+test("detects the chain id once and pins it", async () => {
+  const network = chain.network({ name: "anvil-pinned" });
+  const provider = getNetworkProvider(network);
+  await provider.getBlockNumber();
+  await provider.getTransactionCount("0x0000000000000000000000000000000000000001");
+  await getNetworkChainId(network);
+  await provider.getFeeData();
+
+  const detections = chain.requests.filter((r) => r.method === "eth_chainId").length;
+  await provider.getBlockNumber();
+  await getNetworkChainId(network);
+  assert.equal(chain.requests.filter((r) => r.method === "eth_chainId").length, detections);
+});
+
+test("deployer transactions are signed for the detected chain", async () => {
+  const wallet = new DeployerWallet(chain.network({ name: "anvil-deployer" }));
+  const response = await wallet.sendTransaction({ to: wallet.address, value: 0n });
+
+  const [tx] = chain.sent;
+  assert.equal(tx.hash, response.hash);
+  assert.equal(tx.chainId, 31337n);
+});
@@ -0,0 +1,195 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { getIndexStatus, runIndexer } from "../src/services/chainIndexer.js";
+import type { IndexedPayment, IndexedService, PoolActivity } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { requireModule, runFresh } from "./support/restart.js";
+
+const OWNER = "0x000000000000000000000000000000000000bEEF";
+const PAYER = "0x00000000000000000000000000000000000A11cE";
+const AGENT_WALLET = ethers.getAddress("0x000000000000000000000000000000000000a9e7");
+const POOL = ethers.getAddress("0x00000000000000000000000000000000000000f1");
+
+const registryIface = new ethers.Interface([
+  "function getServiceCount() view returns (uint256)",
+  "function getServiceIdAt(uint256 index) view returns (bytes32)",
+  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
+  "event ServiceRegistered(bytes32 indexed serviceId, uint256 indexed agentId, address indexed owner, string name, uint256 pricePerCall, uint8 serviceType)",
+  "event ServiceUsageRecorded(bytes32 indexed serviceId, uint256 calls, uint256 revenue)",
+]);
+const gatewayIface = new ethers.Interface([
+  "event ServicePaid(address indexed payer, bytes32 indexed serviceId, uint256 calls, uint256 amount, bytes32 indexed paymentId)",
+]);
+const factoryIface = new ethers.Interface([
+  "function agentCount() view returns (uint256)",
+  "function getAgentIdAt(uint256 index) view returns (uint256)",
+  "function poolByAgentId(uint256 agentId) view returns (address)",
+]);
+const identityIface = new ethers.Interface(["function getAgentWallet(uint256 agentId) view returns (address)"]);
+const poolIface = new ethers.Interface([
+  "event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)",
+  "event DailyCapUpdated(uint256 oldCap, uint256 newCap)",
+]);
+
+const WEATHER = ethers.id("weather");
+const MAPS = ethers.id("maps");
+const PAYMENT_ID = ethers.id("payment-1");
+
+let chain: FakeChain;
+let proxy: TestServer;
+let blockNumber = 102;
+/** eth_getLogs results for the core contracts and for pools. */
+let coreLogs: ethers.Log[] = [];
+let poolLogs: ethers.Log[] = [];
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.indexerConfirmations = 2;
+  chain.handlers.set("eth_blockNumber", () => ethers.toQuantity(blockNumber));
+  chain.handlers.set("eth_getLogs", (params) => {
+    const { address } = params[0] as { address: string | string[] };
+    const addresses = [address].flat().map((a) => a.toLowerCase());
+    return addresses.includes(POOL.toLowerCase()) ? poolLogs : coreLogs;
+  });
+
+  const services = [WEATHER];
+  chain.mockCall(config.serviceRegistryAddress, registryIface, "getServiceCount", () => [BigInt(services.length)]);
+  chain.mockCall(config.serviceRegistryAddress, registryIface, "getServiceIdAt", (index: bigint) => [services[Number(index)]]);
+  chain.mockCall(config.serviceRegistryAddress, registryIface, "getService", (serviceId: string) => [
+    [1n, OWNER, serviceId === WEATHER ? "Weather" : "Maps", 1000n, "https://api.example", 0, true, 5n, 5000n],
+  ]);
+  chain.mockCall(config.agentPoolFactoryAddress, factoryIface, "agentCount", () => [1n]);
+  chain.mockCall(config.agentPoolFactoryAddress, factoryIface, "getAgentIdAt", () => [1n]);
+  chain.mockCall(config.agentPoolFactoryAddress, factoryIface, "poolByAgentId", () => [POOL]);
+  chain.mockCall(config.identityRegistryAddress, identityIface, "getAgentWallet", () => [AGENT_WALLET]);
+
+  proxy = await listen(app);
+});
+
+after(async () => {
+  await proxy.close();
+  await chain.close();
+});
+
+/** An encoded event of `iface` emitted by `address`, as eth_getLogs returns it. */
+function eventLog(
+  iface: ethers.Interface,
+  address: string,
+  event: string,
+  args: unknown[],
+  block: number,
+  logIndex = 0
+): ethers.Log {
+  const { topics, data } = iface.encodeEventLog(event, args);
+  return {
+    address,
+    topics,
+    data,
+    blockNumber: ethers.toQuantity(block),
+    blockHash: ethers.zeroPadValue(ethers.toQuantity(block + 1), 32),
+    transactionHash: ethers.id(`tx-${block}`),
+    transactionIndex: "0x0",
+    logIndex: ethers.toQuantity(logIndex),
+    removed: false,
+  } as unknown as ethers.Log;
+}
+
+/** Let ethers' short-lived request cache expire after the chain changed. */
+const chainChanged = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 300));
+
+async function get<T>(route: string): Promise<T> {
+  const res = await fetch(`${proxy.url}/index${route}`);
+  assert.equal(res.status, 200);
+  return (await res.json()) as T;
+}
+
+test("a fresh index snapshots services and agents behind the head", async () => {
+  await runIndexer();
+  assert.deepEqual(getIndexStatus(), { lastBlock: 100, services: 1, agents: 1, payments: 0, poolEvents: 0, lastError: undefined });
+
+  const weather = await get<IndexedService>(`/services/${WEATHER}`);
+  assert.deepEqual([weather.name, weather.owner, weather.totalCalls], ["Weather", OWNER, "5"]);
+  assert.deepEqual(await get("/agents/1"), {
+    agentId: "1",
+    agentAccount: AGENT_WALLET,
+    pool: POOL,
+    feedbackCount: 0,
+    revokedFeedbackCount: 0,
+  });
+  assert.equal((await fetch(`${proxy.url}/index/agents/2`)).status, 404);
+});
+
+test("new blocks add payments, services and pool activity", async () => {
+  blockNumber = 105;
+  coreLogs = [
+    eventLog(registryIface, config.serviceRegistryAddress, "ServiceRegistered", [MAPS, 1n, OWNER, "Maps", 300n, 0], 102),
+    eventLog(gatewayIface, config.gatewayAddress, "ServicePaid", [PAYER, WEATHER, 2n, 2000n, PAYMENT_ID], 101),
+    eventLog(registryIface, config.serviceRegistryAddress, "ServiceUsageRecorded", [WEATHER, 2n, 2000n], 101, 1),
+  ];
+  poolLogs = [
+    eventLog(poolIface, POOL, "Deposit", [PAYER, PAYER, 10_000n, 10_000n], 103),
+    eventLog(poolIface, POOL, "DailyCapUpdated", [0n, 500n], 103, 1),
+  ];
+  await chainChanged();
+  await runIndexer();
+  assert.equal(getIndexStatus().lastBlock, 103);
+
+  const weather = await get<IndexedService>(`/services/${WEATHER}`);
+  assert.deepEqual([weather.totalCalls, weather.totalRevenue], ["7", "7000"]);
+  const maps = await get<IndexedService>(`/services/${MAPS}`);
+  assert.deepEqual([maps.pricePerCall, maps.active, maps.totalCalls], ["300", true, "0"]);
+  assert.equal((await get<{ total: number }>(`/services?owner=${OWNER.toLowerCase()}&active=true`)).total, 2);
+
+  const { payments } = await get<{ payments: IndexedPayment[] }>(`/payments?payer=${PAYER}`);
+  assert.deepEqual(payments, [
+    { blockNumber: 101, txHash: ethers.id("tx-101"), logIndex: 0, paymentId: PAYMENT_ID, payer: PAYER, serviceId: WEATHER, calls: "2", amount: "2000" },
+  ]);
+
+  const { activity } = await get<{ activity: PoolActivity[] }>(`/pools/${POOL}/activity`);
+  assert.deepEqual(activity.map((a) => a.kind), ["daily-cap-updated", "deposit"]);
+  assert.deepEqual(activity[1].data, { sender: PAYER, owner: PAYER, assets: "10000", shares: "10000" });
+  const deposits = await get<{ total: number }>(`/pools/${POOL}/activity?kind=deposit`);
+  assert.equal(deposits.total, 1);
+});
+
+test("events seen again in a later range are not recorded twice", async () => {
+  blockNumber = 106;
+  coreLogs = coreLogs.filter((log) => log.address === config.gatewayAddress);
+  await chainChanged();
+  await runIndexer();
+  assert.deepEqual(getIndexStatus(), { lastBlock: 104, services: 2, agents: 1, payments: 1, poolEvents: 2, lastError: undefined });
+});
+
+test("a restarted indexer resumes from its files", async () => {
+  const script = `process.stdout.write(JSON.stringify(${requireModule("src/services/chainIndexer.ts")}.getIndexStatus()))`;
+  assert.deepEqual(JSON.parse(await runFresh(script, {})), { lastBlock: 104, services: 2, agents: 1, payments: 1, poolEvents: 2 });
+});
+
+test("filters must be single, valid values", async () => {
+  const status = async (route: string) => (await fetch(`${proxy.url}/index${route}`)).status;
+  assert.equal(await status(`/payments?payer=${PAYER}&payer=${OWNER}`), 400);
+  assert.equal(await status("/payments?limit=-1"), 400);
+  assert.equal(await status("/services?active=yes"), 400);
+  assert.equal(await status("/pools/not-a-pool/activity"), 400);
+  assert.equal(await status(`/pools/${POOL}/activity?kind=mint`), 400);
+
+  const page = await get<{ total: number; limit: number; offset: number; payments: unknown[] }>("/payments?limit=1&offset=1");
+  assert.deepEqual([page.total, page.limit, page.offset, page.payments.length], [1, 1, 1, 0]);
+});
+
+test("a failing RPC is reported in the status", async () => {
+  chain.handlers.set("eth_getLogs", () => {
+    throw new Error("getLogs unavailable");
+  });
+  blockNumber = 107;
+  await chainChanged();
+  await assert.rejects(runIndexer());
+  assert.ok(getIndexStatus().lastError);
+  assert.equal((await get<{ lastBlock: number }>("/status")).lastBlock, 104);
+});
@@ -0,0 +1,124 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const SERVICE_ID = ethers.id("weather-service");
+const PAYER = "0x00000000000000000000000000000000000A11cE";
+
+const gatewayIface = new ethers.Interface([
+  "function getPayment(bytes32 paymentId) view returns (tuple(address payer, bytes32 serviceId, uint256 calls, uint256 amount, bool valid))",
+]);
+
+interface Payment {
+  serviceId?: string;
+  calls: bigint;
+  amount: bigint;
+  valid?: boolean;
+}
+
+/** Gateway payments known to the fake chain, by paymentId. */
+const payments = new Map<string, Payment>();
+let nextPayment = 1;
+
+function pay(payment: Payment): string {
+  const paymentId = ethers.zeroPadValue(ethers.toBeHex(nextPayment++), 32);
+  payments.set(paymentId, payment);
+  return paymentId;
+}
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  chain.mockCall(config.gatewayAddress, gatewayIface, "getPayment", (paymentId: string) => {
+    const payment = payments.get(paymentId);
+    return [
+      {
+        payer: PAYER,
+        serviceId: payment?.serviceId ?? SERVICE_ID,
+        calls: payment?.calls ?? 0n,
+        amount: payment?.amount ?? 0n,
+        valid: payment ? payment.valid ?? true : false,
+      },
+    ];
+  });
+
+  upstream = await listen((_req, res) => {
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ forecast: "sunny" }));
+  });
+  proxy = await listen(app);
+
+  const common = { type: "API", creatorAddress: PAYER, originalUrl: upstream.url } as const;
+  registerResource({ ...common, id: "weather", name: "Weather", serviceId: SERVICE_ID, pricing: { pricePerCall: "1000", currency: "USDC" } });
+  registerResource({ ...common, id: "offchain", name: "Off-chain", pricing: { pricePerCall: "1000", currency: "USDC" } });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+function call(paymentId: string, resourceId = "weather"): Promise<Response> {
+  return fetch(`${proxy.url}/proxy/${resourceId}`, { headers: { "x-payment-id": paymentId } });
+}
+
+async function errorOf(res: Response): Promise<string> {
+  return ((await res.json()) as { error: string }).error;
+}
+
+test("a multi-call payment is honored once per call, then rejected", async () => {
+  const paymentId = pay({ calls: 3n, amount: 3_000n });
+
+  for (const remaining of ["2", "1", "0"]) {
+    const res = await call(paymentId);
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("x-payment-calls-remaining"), remaining);
+    assert.deepEqual(await res.json(), { forecast: "sunny" });
+  }
+
+  const replay = await call(paymentId);
+  assert.equal(replay.status, 402);
+  assert.equal(await errorOf(replay), "Payment already used");
+});
+
+test("a payment made for another service is rejected", async () => {
+  const res = await call(pay({ serviceId: ethers.id("other-service"), calls: 1n, amount: 1_000n }));
+  assert.equal(res.status, 402);
+  assert.equal(await errorOf(res), "Payment was made for a different service");
+});
+
+test("payments covering no calls or too many are rejected before pricing", async () => {
+  for (const calls of [0n, 1_000_001n]) {
+    const res = await call(pay({ calls, amount: 10n ** 12n }));
+    assert.equal(res.status, 402);
+    assert.match(await errorOf(res), /between 1 and 1000000 calls/);
+  }
+});
+
+test("the amount per call must cover the price", async () => {
+  const res = await call(pay({ calls: 4n, amount: 3_999n }));
+  assert.equal(res.status, 402);
+  assert.equal(await errorOf(res), "Insufficient payment amount");
+});
+
+test("unknown or invalid payments are rejected", async () => {
+  const res = await call(pay({ calls: 1n, amount: 1_000n, valid: false }));
+  assert.equal(res.status, 402);
+  assert.equal((await call(ethers.ZeroHash)).status, 402);
+});
+
+test("malformed paymentIds and off-chain resources get a 400", async () => {
+  assert.equal((await call("0x1234")).status, 400);
+  assert.equal((await call(pay({ calls: 1n, amount: 1_000n }), "offchain")).status, 400);
+});
@@ -0,0 +1,105 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { config } from "../src/config.js";
+import { settleLocally, verifyLocally } from "../src/services/localFacilitator.js";
+import type { ExactEvmPayload } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { exactRequirement, mockUsdc, signExactPayment, usdcIface } from "./support/payments.js";
+
+const payer = ethers.Wallet.createRandom();
+const balances = new Map<string, bigint>();
+const usedNonces = new Set<string>();
+
+let chain: FakeChain;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  mockUsdc(chain, balances, usedNonces);
+});
+
+after(() => chain.close());
+
+const requirement = exactRequirement();
+
+async function reasonFor(payment: Parameters<typeof verifyLocally>[0], accept = requirement): Promise<string | undefined> {
+  const result = await verifyLocally(payment, accept);
+  return result.valid ? undefined : result.invalidReason;
+}
+
+test("a correctly signed authorization verifies", async () => {
+  assert.deepEqual(await verifyLocally(await signExactPayment(payer, requirement), requirement), { valid: true });
+});
+
+test("authorizations not matching the requirement are rejected", async () => {
+  const stranger = ethers.Wallet.createRandom();
+  const forged = await signExactPayment(stranger, requirement, { from: payer.address });
+  assert.equal(await reasonFor(forged), "invalid_exact_evm_payload_signature");
+
+  const elsewhere = await signExactPayment(payer, { ...requirement, payTo: stranger.address });
+  assert.equal(await reasonFor(elsewhere), "invalid_exact_evm_payload_recipient_mismatch");
+
+  const short = await signExactPayment(payer, requirement, { value: "999" });
+  assert.equal(await reasonFor(short), "invalid_exact_evm_payload_authorization_value");
+
+  const other = await signExactPayment(payer, requirement);
+  assert.equal(await reasonFor({ ...other, network: "arc-testnet" }), "invalid_network");
+  assert.equal(await reasonFor(other, { ...requirement, scheme: "upto" }), "invalid_scheme");
+});
+
+test("the validity window is enforced, with a margin for settlement", async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const early = await signExactPayment(payer, requirement, { validAfter: String(now + 60) });
+  assert.equal(await reasonFor(early), "invalid_exact_evm_payload_authorization_valid_after");
+
+  const expiring = await signExactPayment(payer, requirement, { validBefore: String(now + 2) });
+  assert.equal(await reasonFor(expiring), "invalid_exact_evm_payload_authorization_valid_before");
+});
+
+test("used nonces and missing funds are rejected", async () => {
+  const used = await signExactPayment(payer, requirement);
+  usedNonces.add((used.payload as ExactEvmPayload).authorization.nonce);
+  assert.equal(await reasonFor(used), "invalid_exact_evm_payload_authorization_nonce");
+
+  const broke = ethers.Wallet.createRandom();
+  balances.set(broke.address.toLowerCase(), 999n);
+  assert.equal(await reasonFor(await signExactPayment(broke, requirement)), "insufficient_funds");
+});
+
+test("settling submits transferWithAuthorization from the proxy signer", async () => {
+  const payment = await signExactPayment(payer, requirement);
+  const result = await settleLocally(payment, requirement);
+
+  const tx = chain.sent[chain.sent.length - 1];
+  assert.deepEqual(result, { success: true, txHash: tx.hash });
+  assert.equal(tx.to, config.usdcAddress);
+  assert.equal(tx.from, new ethers.Wallet(config.proxySignerKey).address);
+
+  const { authorization, signature } = payment.payload as ExactEvmPayload;
+  const args = usdcIface.decodeFunctionData("transferWithAuthorization", tx.data);
+  const { v, r, s } = ethers.Signature.from(signature);
+  assert.deepEqual(Array.from(args), [
+    authorization.from,
+    ethers.getAddress(authorization.to),
+    BigInt(authorization.value),
+    BigInt(authorization.validAfter),
+    BigInt(authorization.validBefore),
+    authorization.nonce,
+    BigInt(v),
+    r,
+    s,
+  ]);
+});
+
+test("a reverted settlement is reported as failed", async () => {
+  chain.outcome = () => 0;
+  try {
+    const result = await settleLocally(await signExactPayment(payer, requirement), requirement);
+    assert.equal(result.success, false);
+    assert.match(result.error ?? "", /reverted/);
+  } finally {
+    chain.outcome = () => 1;
+  }
+});
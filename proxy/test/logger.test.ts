@@ -0,0 +1,160 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { IncomingHttpHeaders } from "node:http";
+import { buffer } from "node:stream/consumers";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { createLogger, runWithRequestId } from "../src/services/logger.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { enqueueSettlement } from "../src/services/settlementQueue.js";
+import type { X402ErrorResponse } from "../src/types/x402.js";
+import { listen, type TestServer } from "./support/http.js";
+import { encodeHeader, signExactPayment } from "./support/payments.js";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+let upstream: TestServer;
+let facilitator: TestServer;
+let proxy: TestServer;
+let upstreamHeaders: IncomingHttpHeaders = {};
+/** Headers of the facilitator's requests, by path. */
+const facilitatorHeaders = new Map<string, IncomingHttpHeaders>();
+
+before(async () => {
+  upstream = await listen((req, res) => {
+    upstreamHeaders = req.headers;
+    res.end("{}");
+  });
+  facilitator = await listen(async (req, res) => {
+    await buffer(req);
+    facilitatorHeaders.set(req.url!, req.headers);
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify(req.url === "/verify" ? { isValid: true } : { success: true, transaction: ethers.id("settled") }));
+  });
+  config.facilitatorMode = "remote";
+  config.facilitatorUrl = facilitator.url;
+
+  proxy = await listen(app);
+  registerResource({
+    id: "weather",
+    name: "Weather",
+    type: "API",
+    creatorAddress: "0x000000000000000000000000000000000000bEEF",
+    originalUrl: `${upstream.url}/`,
+    pricing: { pricePerCall: "1000", currency: "USDC", rules: [{ path: "/docs", pricePerCall: "0" }] },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await facilitator.close();
+  await upstream.close();
+});
+
+interface Captured {
+  stream: "stdout" | "stderr";
+  line: string;
+}
+
+/**
+ * Collect what the logger writes while `fn` runs, at `level` and above.
+ * The logger writes strings; anything else (the test runner's own output)
+ * passes through. The streams are restored before returning.
+ */
+async function captureLogs(fn: () => unknown, level = config.logLevel): Promise<Captured[]> {
+  const captured: Captured[] = [];
+  const originals = { stdout: process.stdout.write, stderr: process.stderr.write };
+  const previousLevel = config.logLevel;
+  for (const stream of ["stdout", "stderr"] as const) {
+    const original = originals[stream];
+    process[stream].write = ((chunk: string | Uint8Array, ...rest: unknown[]) => {
+      if (typeof chunk !== "string") return (original as (...args: unknown[]) => boolean).call(process[stream], chunk, ...rest);
+      captured.push({ stream, line: chunk.trimEnd() });
+      return true;
+    }) as typeof process.stdout.write;
+  }
+  config.logLevel = level;
+  try {
+    await fn();
+  } finally {
+    process.stdout.write = originals.stdout;
+    process.stderr.write = originals.stderr;
+    config.logLevel = previousLevel;
+  }
+  return captured;
+}
+
+const parsed = (captured: Captured[]): Record<string, unknown>[] => captured.map((c) => JSON.parse(c.line));
+
+test("log lines are JSON objects carrying the module, level and fields", async () => {
+  const log = createLogger("test");
+  const captured = await captureLogs(() => {
+    log.debug("hidden");
+    log.info("settled", { amount: 5n, error: new Error("boom"), skipped: undefined });
+    runWithRequestId("req-1", () => log.warn("retrying"));
+  }, "info");
+
+  assert.deepEqual(captured.map((c) => c.stream), ["stdout", "stderr"]);
+  const [info, warn] = parsed(captured);
+  const { time, ...fields } = info;
+  assert.match(time as string, /^\d{4}-\d{2}-\d{2}T/);
+  assert.deepEqual(fields, { level: "info", module: "test", msg: "settled", amount: "5", error: "boom" });
+  assert.deepEqual([warn.level, warn.msg, warn.requestId], ["warn", "retrying", "req-1"]);
+});
+
+test("LOG_FORMAT=text writes one readable line per entry", async () => {
+  config.logFormat = "text";
+  try {
+    const captured = await captureLogs(() => {
+      runWithRequestId("req-2", () => createLogger("test").error("failed", { status: 502, reason: "timeout" }));
+    });
+    assert.deepEqual(captured.map((c) => c.line), ["[test] failed status=502 reason=timeout requestId=req-2"]);
+  } finally {
+    config.logFormat = "json";
+  }
+});
+
+test("a request's id is echoed, logged and forwarded to the upstream", async () => {
+  let res: Response | undefined;
+  const captured = await captureLogs(async () => {
+    res = await fetch(`${proxy.url}/proxy/weather/docs`, { headers: { "x-request-id": "trace-42" } });
+    await res.arrayBuffer();
+  }, "info");
+
+  assert.equal(res!.headers.get("x-request-id"), "trace-42");
+  assert.equal(upstreamHeaders["x-request-id"], "trace-42");
+  const completed = parsed(captured).find((l) => l.msg === "request completed");
+  assert.deepEqual(
+    [completed?.requestId, completed?.module, completed?.path, completed?.status],
+    ["trace-42", "http", "/proxy/weather/docs", 200]
+  );
+});
+
+test("unusable client ids are replaced with a fresh one", async () => {
+  const spaced = await fetch(`${proxy.url}/health`, { headers: { "x-request-id": "has spaces" } });
+  assert.match(spaced.headers.get("x-request-id") ?? "", UUID_PATTERN);
+  const long = await fetch(`${proxy.url}/health`, { headers: { "x-request-id": "x".repeat(129) } });
+  assert.match(long.headers.get("x-request-id") ?? "", UUID_PATTERN);
+  const none = await fetch(`${proxy.url}/health`);
+  assert.match(none.headers.get("x-request-id") ?? "", UUID_PATTERN);
+});
+
+test("the facilitator sees the id of the request being paid for", async () => {
+  const res402 = await fetch(`${proxy.url}/proxy/weather`);
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const payment = encodeHeader(await signExactPayment(ethers.Wallet.createRandom(), accepts[0]));
+  const res = await fetch(`${proxy.url}/proxy/weather`, { headers: { "x-payment": payment, "x-request-id": "pay-7" } });
+  assert.equal(res.status, 200);
+
+  assert.equal(facilitatorHeaders.get("/verify")?.["x-request-id"], "pay-7");
+  assert.equal(facilitatorHeaders.get("/settle")?.["x-request-id"], "pay-7");
+});
+
+test("settlement jobs keep the id of the request that queued them", () => {
+  const job = runWithRequestId("job-1", () =>
+    enqueueSettlement({ key: "logger-test", steps: [{ kind: "transfer", label: "pool", to: ethers.ZeroAddress, amount: "1" }] })
+  );
+  assert.equal(job.requestId, "job-1");
+});
@@ -0,0 +1,163 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { addCollector, counter, failureReasonLabel, gauge, histogram, renderMetrics } from "../src/services/metrics.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import type { X402ErrorResponse } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { encodeHeader, mockUsdc, signExactPayment } from "./support/payments.js";
+
+const PROXY_SIGNER = new ethers.Wallet(config.proxySignerKey).address;
+const payer = ethers.Wallet.createRandom();
+const brokePayer = ethers.Wallet.createRandom();
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  // Every network's signer balances are read from the fake chain
+  const balances = new Map([
+    [PROXY_SIGNER.toLowerCase(), 2_500_000n],
+    [brokePayer.address.toLowerCase(), 0n],
+  ]);
+  for (const network of Object.values(config.networks)) {
+    network.rpcUrl = chain.url;
+    mockUsdc(chain, balances, undefined, network.usdcAddress);
+  }
+  chain.handlers.set("eth_getBalance", () => ethers.toQuantity(ethers.parseEther("1.5")));
+  config.facilitatorMode = "local";
+
+  upstream = await listen((req, res) => {
+    res.statusCode = req.url === "/broken" ? 500 : 200;
+    res.end("{}");
+  });
+  proxy = await listen(app);
+  registerResource({
+    id: "weather",
+    name: "Weather",
+    type: "API",
+    creatorAddress: "0x000000000000000000000000000000000000bEEF",
+    originalUrl: `${upstream.url}/`,
+    pricing: { pricePerCall: "1000", currency: "USDC", rules: [{ path: "/broken", pricePerCall: "0" }] },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+async function scrape(): Promise<string> {
+  const res = await fetch(`${proxy.url}/metrics`);
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get("content-type") ?? "", /^text\/plain;.*version=0\.0\.4/);
+  return res.text();
+}
+
+/** Value of one series (name and labels exactly as rendered), or undefined. */
+function sample(metrics: string, series: string): number | undefined {
+  const line = metrics.split("\n").find((l) => l.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+async function pay(wallet: ethers.BaseWallet): Promise<Response> {
+  const res402 = await fetch(`${proxy.url}/proxy/weather`);
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  return fetch(`${proxy.url}/proxy/weather`, { headers: { "x-payment": encodeHeader(await signExactPayment(wallet, accepts[0])) } });
+}
+
+test("metrics render in the Prometheus text format", async () => {
+  const calls = counter("test_calls_total", "Calls.");
+  const depth = gauge("test_depth", "Depth.");
+  const latency = histogram("test_latency_seconds", "Latency.", [0.1, 1]);
+  calls.inc({ route: 'say "hi"\n' });
+  calls.inc({ route: 'say "hi"\n' }, 2);
+  depth.set({}, 4);
+  latency.observe({ op: "a" }, 0.5);
+  latency.observe({ op: "a" }, 0.05);
+  let collectorDown = true;
+  addCollector(() => {
+    if (collectorDown) throw new Error("collector down");
+    depth.set({ from: "collector" }, 1);
+  });
+
+  // A failing collector does not stop the others or the scrape
+  const metrics = await renderMetrics();
+  assert.match(metrics, /# HELP test_calls_total Calls\.\n# TYPE test_calls_total counter\n/);
+  assert.equal(sample(metrics, 'test_calls_total{route="say \\"hi\\"\\n"}'), 3);
+  assert.equal(sample(metrics, "test_depth"), 4);
+  assert.deepEqual(
+    ['le="0.1"', 'le="1"', 'le="+Inf"'].map((le) => sample(metrics, `test_latency_seconds_bucket{op="a",${le}}`)),
+    [1, 2, 2]
+  );
+  assert.equal(sample(metrics, 'test_latency_seconds_sum{op="a"}'), 0.55);
+  assert.equal(sample(metrics, 'test_latency_seconds_count{op="a"}'), 2);
+
+  collectorDown = false;
+  depth.reset();
+  const refreshed = await renderMetrics();
+  assert.equal(sample(refreshed, "test_depth"), undefined);
+  assert.equal(sample(refreshed, 'test_depth{from="collector"}'), 1);
+  assert.throws(() => counter("test_calls_total", "Again."), /already registered/);
+});
+
+test("free-text failure reasons are bucketed", () => {
+  assert.equal(failureReasonLabel("insufficient_funds"), "insufficient_funds");
+  assert.equal(failureReasonLabel("Facilitator HTTP 503: busy"), "facilitator_http_error");
+  assert.equal(failureReasonLabel("Facilitator returned non-JSON response"), "facilitator_invalid_response");
+  assert.equal(failureReasonLabel("execution reverted: 0x1234"), "other");
+  assert.equal(failureReasonLabel(undefined), "unknown");
+});
+
+test("proxy requests are counted by resource, payment path and status", async () => {
+  assert.equal((await pay(payer)).status, 200);
+  assert.equal((await pay(brokePayer)).status, 402);
+  assert.equal((await fetch(`${proxy.url}/proxy/weather/broken`)).status, 500);
+  assert.equal((await fetch(`${proxy.url}/proxy/nope`)).status, 404);
+
+  const metrics = await scrape();
+  const requests = (labels: string) => sample(metrics, `pragma_proxy_requests_total{${labels}}`);
+  assert.equal(requests('resource="weather",path="none",status="402"'), 3);
+  assert.equal(requests('resource="weather",path="x402",status="200"'), 1);
+  assert.equal(requests('resource="weather",path="none",status="500"'), 1);
+  assert.equal(requests('resource="unknown",path="none",status="404"'), 1);
+  assert.equal(sample(metrics, 'pragma_proxy_request_duration_seconds_count{resource="weather",path="x402"}'), 1);
+
+  assert.equal(sample(metrics, 'pragma_upstream_responses_total{resource="weather",class="2xx"}'), 1);
+  assert.equal(sample(metrics, 'pragma_upstream_responses_total{resource="weather",class="5xx"}'), 1);
+
+  assert.equal(sample(metrics, 'pragma_facilitator_duration_seconds_count{operation="verify",facilitator="local"}'), 2);
+  assert.equal(sample(metrics, 'pragma_facilitator_duration_seconds_count{operation="settle",facilitator="local"}'), 1);
+  assert.equal(
+    sample(metrics, 'pragma_facilitator_failures_total{operation="verify",facilitator="local",reason="insufficient_funds"}'),
+    1
+  );
+});
+
+test("scrapes report the settlement backlog and signer balances", async () => {
+  const metrics = await scrape();
+  assert.equal(sample(metrics, 'pragma_settlements{status="pending"}'), 0);
+  assert.equal(sample(metrics, "pragma_settlement_oldest_pending_seconds"), 0);
+  for (const network of Object.keys(config.networks)) {
+    assert.equal(sample(metrics, `pragma_signer_native_balance{network="${network}"}`), 1.5);
+    assert.equal(sample(metrics, `pragma_signer_usdc_balance{network="${network}"}`), 2.5);
+  }
+});
+
+test("a metrics token guards the endpoint", async () => {
+  config.metricsToken = "scrape-me";
+  try {
+    assert.equal((await fetch(`${proxy.url}/metrics`)).status, 401);
+    const res = await fetch(`${proxy.url}/metrics`, { headers: { authorization: "Bearer scrape-me" } });
+    assert.equal(res.status, 200);
+  } finally {
+    config.metricsToken = "";
+  }
+});
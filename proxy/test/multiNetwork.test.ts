@@ -0,0 +1,127 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { IncomingHttpHeaders } from "node:http";
+import path from "node:path";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { validatePricing } from "../src/services/pricing.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import type { PaymentRequiredV2, X402ErrorResponse } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { decodeHeader, encodeHeader, mockUsdc, signExactPayment } from "./support/payments.js";
+import { requireModule, runFresh } from "./support/restart.js";
+
+const PAYEE = "0x000000000000000000000000000000000000bEEF";
+const EURC = "0x808456652fdb597867f38412077A9182bf77359F";
+const payer = ethers.Wallet.createRandom();
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+let upstreamHeaders: IncomingHttpHeaders = {};
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.facilitatorMode = "local";
+  mockUsdc(chain);
+  mockUsdc(chain, undefined, undefined, EURC);
+
+  upstream = await listen((req, res) => {
+    upstreamHeaders = req.headers;
+    res.end("{}");
+  });
+  proxy = await listen(app);
+  registerResource({
+    id: "weather",
+    name: "Weather",
+    type: "API",
+    creatorAddress: PAYEE,
+    originalUrl: upstream.url,
+    pricing: {
+      pricePerCall: "1000",
+      currency: "USDC",
+      accepts: [
+        { network: "base-sepolia" },
+        { network: "base-sepolia", asset: EURC, pricePerCall: "900", extra: { name: "EURC", version: "2" } },
+        { network: "arc-testnet", pricePerCall: "2000" },
+      ],
+    },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+function call(headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${proxy.url}/proxy/weather`, { headers });
+}
+
+test("a 402 offers every payment option with its own network, asset and price", async () => {
+  const res = await call();
+  const { accepts } = (await res.json()) as X402ErrorResponse;
+  assert.deepEqual(
+    accepts.map((a) => [a.network, a.asset, a.maxAmountRequired, a.extra.name]),
+    [
+      ["base-sepolia", config.networks["base-sepolia"].usdcAddress, "1000", "USDC"],
+      ["base-sepolia", EURC, "900", "EURC"],
+      ["arc-testnet", config.networks["arc-testnet"].usdcAddress, "2000", "USDC"],
+    ]
+  );
+
+  const v2 = decodeHeader<PaymentRequiredV2>(res.headers.get("payment-required"));
+  assert.deepEqual(v2.accepts.map((a) => a.network), ["eip155:84532", "eip155:84532", "eip155:5042002"]);
+});
+
+test("a v2 payment settles on the asset it accepted", async () => {
+  const res402 = await call();
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const { accepts: acceptsV2 } = decodeHeader<PaymentRequiredV2>(res402.headers.get("payment-required"));
+  const { payload } = await signExactPayment(payer, accepts[1]);
+
+  const res = await call({ "payment-signature": encodeHeader({ x402Version: 2, accepted: acceptsV2[1], payload }) });
+  assert.equal(res.status, 200);
+  assert.equal(chain.sent[chain.sent.length - 1].to, EURC);
+});
+
+test("a v1 payment gets the first option on its network", async () => {
+  const { accepts } = (await (await call()).json()) as X402ErrorResponse;
+  const res = await call({ "x-payment": encodeHeader(await signExactPayment(payer, accepts[0])) });
+  assert.equal(res.status, 200);
+  assert.equal(chain.sent[chain.sent.length - 1].to, config.networks["base-sepolia"].usdcAddress);
+});
+
+test("payment headers, including x-payment-network, are not forwarded upstream", async () => {
+  const { accepts } = (await (await call()).json()) as X402ErrorResponse;
+  const res = await call({
+    "x-payment": encodeHeader(await signExactPayment(payer, accepts[0])),
+    "x-payment-network": "base-sepolia",
+    "x-custom": "kept",
+  });
+  assert.equal(res.status, 200);
+  assert.equal(upstreamHeaders["x-custom"], "kept");
+  for (const header of ["x-payment", "x-payment-network", "payment-signature"]) {
+    assert.equal(upstreamHeaders[header], undefined, header);
+  }
+});
+
+test("pricing options must name a configured network", () => {
+  assert.match(validatePricing({ pricePerCall: "1", accepts: [{ network: "atlantis" }] }) ?? "", /need a network/);
+  assert.match(validatePricing({ pricePerCall: "1", accepts: [{ network: "arc-testnet", pricePerCall: "1.5" }] }) ?? "", /integer/);
+  assert.equal(validatePricing({ pricePerCall: "1", accepts: [{ network: "arc-testnet" }] }), null);
+});
+
+test("unknown PAYMENT_NETWORKS are dropped with a startup warning", async () => {
+  const script = `
+    const { config, configWarnings } = ${requireModule(path.join("src", "config.ts"))};
+    console.log(JSON.stringify({ networks: config.paymentNetworks, warnings: configWarnings }));
+  `;
+  const out = JSON.parse(await runFresh(script, { PAYMENT_NETWORKS: "arc-testnet,atlantis" }));
+  assert.deepEqual(out, { networks: ["arc-testnet"], warnings: ["Ignoring unknown payment network 'atlantis'"] });
+});
@@ -0,0 +1,154 @@
+import { TEST_ADMIN_TOKEN } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import {
+  getDeployerSigner,
+  getDeployerTxReceipt,
+  getNonceStatus,
+  listDeployerTxs,
+  resyncNonce,
+  type DeployerWallet,
+} from "../src/services/nonceManager.js";
+import type { DeployerTx } from "../src/types/x402.js";
+import { rpcError, startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { requireModule, runFresh } from "./support/restart.js";
+
+const RECIPIENT = "0x000000000000000000000000000000000000bEEF";
+const REVERTING = "0x000000000000000000000000000000000000dEaD";
+
+const home = config.networks["base-sepolia"];
+
+let chain: FakeChain;
+let proxy: TestServer;
+let wallet: DeployerWallet;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  home.rpcUrl = chain.url;
+  config.nonceStuckAfterMs = 0;
+  config.nonceMaxGasBumps = 1;
+  chain.nonces.latest = chain.nonces.pending = 3;
+  chain.handlers.set("eth_estimateGas", (params) => {
+    if ((params[0] as { to: string }).to.toLowerCase() === REVERTING.toLowerCase()) rpcError("execution reverted", 3);
+    return ethers.toQuantity(21_000);
+  });
+
+  proxy = await listen(app);
+  wallet = await getDeployerSigner(home);
+});
+
+after(async () => {
+  await proxy.close();
+  await chain.close();
+});
+
+/** Let ethers' short-lived request cache expire after the chain changed. */
+const chainChanged = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 300));
+
+const tracked = (status: DeployerTx["status"]): number[] =>
+  listDeployerTxs({ network: home.name, status }).map((tx) => tx.nonce).sort((a, b) => a - b);
+
+const lastSent = (): ethers.Transaction => chain.sent[chain.sent.length - 1];
+
+test("nonces are handed out in order from the chain's pending count", async () => {
+  const [first, second] = await Promise.all([
+    wallet.sendTransaction({ to: RECIPIENT, value: 1n }),
+    wallet.sendTransaction({ to: RECIPIENT, value: 2n }),
+  ]);
+  assert.deepEqual([first.nonce, second.nonce], [3, 4]);
+  assert.deepEqual(tracked("pending"), [3, 4]);
+
+  await chainChanged();
+  assert.equal(await resyncNonce(home), 5);
+  assert.deepEqual(tracked("mined"), [3, 4]);
+  assert.deepEqual(getNonceStatus(), [{ network: home.name, address: wallet.address, nextNonce: 5, inFlight: [], pending: 0 }]);
+});
+
+test("a nonce used elsewhere is resynced and the send retried", async () => {
+  // Nonces 5 and 6 went out from another process using the same key
+  chain.nonces.latest = chain.nonces.pending = 7;
+  await chainChanged();
+  const response = await wallet.sendTransaction({ to: RECIPIENT, value: 1n });
+  assert.equal(response.nonce, 7);
+  assert.ok(!chain.sent.some((tx) => tx.nonce === 5));
+});
+
+test("a nonce left unused below later ones is filled with a self-transfer", async () => {
+  chain.outcome = () => null;
+  const [failed, sent] = await Promise.allSettled([
+    wallet.sendTransaction({ to: REVERTING, value: 1n }),
+    wallet.sendTransaction({ to: RECIPIENT, value: 1n }),
+  ]);
+  assert.equal(failed.status, "rejected");
+  assert.equal(sent.status === "fulfilled" && sent.value.nonce, 9);
+
+  // The node's pending count stops at the gap
+  chain.nonces.pending = 8;
+  await chainChanged();
+  const res = await fetch(`${proxy.url}/admin/deployer-txs/${home.name}/resync`, {
+    method: "POST",
+    headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+  });
+  assert.deepEqual(await res.json(), { network: home.name, nextNonce: 10 });
+
+  const filler = lastSent();
+  assert.deepEqual([filler.nonce, filler.to, filler.value, filler.data], [8, wallet.address, 0n, "0x"]);
+  assert.deepEqual(tracked("pending"), [8, 9]);
+
+  chain.mine(filler);
+  chain.mine(chain.sent.find((tx) => tx.nonce === 9)!);
+  await chainChanged();
+  await resyncNonce(home);
+  assert.deepEqual(tracked("pending"), []);
+});
+
+test("a stuck transaction is replaced with bumped fees, up to the bump limit", async () => {
+  const stuck = await wallet.sendTransaction({ to: RECIPIENT, value: 1n });
+  assert.equal(stuck.nonce, 10);
+
+  await chainChanged();
+  await resyncNonce(home);
+  const replacement = lastSent();
+  assert.equal(replacement.nonce, 10);
+  assert.notEqual(replacement.hash, stuck.hash);
+  assert.ok(replacement.maxFeePerGas! >= (stuck.maxFeePerGas! * 120n) / 100n);
+  assert.ok(replacement.maxPriorityFeePerGas! > stuck.maxPriorityFeePerGas!);
+
+  // Past config.nonceMaxGasBumps the tx is only reported
+  const sentBefore = chain.sent.length;
+  await chainChanged();
+  await resyncNonce(home);
+  assert.equal(chain.sent.length, sentBefore);
+
+  // The original hash leads to the replacement's receipt
+  chain.mine(replacement);
+  assert.equal((await getDeployerTxReceipt(home, stuck.hash))?.hash, replacement.hash);
+  await chainChanged();
+  await resyncNonce(home);
+  const [mined] = listDeployerTxs({ network: home.name, status: "mined" }).filter((tx) => tx.nonce === 10);
+  assert.deepEqual([mined.bumps, mined.hashes, mined.minedHash], [1, [stuck.hash, replacement.hash], replacement.hash]);
+});
+
+test("a transaction the node forgot is broadcast again", async () => {
+  const forgotten = await wallet.sendTransaction({ to: RECIPIENT, value: 1n });
+  chain.sent.splice(chain.sent.findIndex((tx) => tx.hash === forgotten.hash), 1);
+
+  await chainChanged();
+  await resyncNonce(home);
+  assert.equal(lastSent().hash, forgotten.hash);
+});
+
+test("after a restart the counter starts past the pending transactions", async () => {
+  // A stale RPC still reports the pending transaction's nonce as free
+  chain.nonces.pending = 11;
+  const script = `
+    const nonceManager = ${requireModule("src/services/nonceManager.ts")};
+    nonceManager.getDeployerSigner().then(() => process.stdout.write(JSON.stringify(nonceManager.getNonceStatus())));
+  `;
+  const [status] = JSON.parse(await runFresh(script, { GATEWAY_RPC_URL: chain.url }));
+  assert.deepEqual([status.nextNonce, status.pending], [12, 1]);
+});
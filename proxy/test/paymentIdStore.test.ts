@@ -0,0 +1,92 @@
+import { dataDir } from "./support/env.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import { claimPaymentCall, getRemainingCalls, releasePaymentCall } from "../src/services/paymentIdStore.js";
+
+const run = promisify(execFile);
+
+const paymentId = (n: number): string => `0x${n.toString(16).padStart(64, "0")}`;
+
+/** Claim calls from another process sharing this one's PAYMENT_IDS_DIR. */
+async function claimElsewhere(id: string, totalCalls: number, attempts: number): Promise<number> {
+  const { stdout } = await run(
+    process.execPath,
+    ["--import", "tsx", path.join(__dirname, "support/claimCalls.ts"), "base-sepolia", id, String(totalCalls), String(attempts)],
+    {
+      env: {
+        ...process.env,
+        DATA_DIR: fs.mkdtempSync(path.join(dataDir, "instance-")),
+        PAYMENT_IDS_DIR: path.join(dataDir, "payment-ids"),
+      },
+    }
+  );
+  return Number(stdout.trim());
+}
+
+test("a payment covers exactly its number of calls", async () => {
+  const id = paymentId(1);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 3), 2);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 3), 1);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 3), 0);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 3), null);
+  assert.equal(getRemainingCalls("base-sepolia", id, 3), 0);
+});
+
+test("a released call can be claimed again", async () => {
+  const id = paymentId(2);
+  await claimPaymentCall("base-sepolia", id, 1);
+  await releasePaymentCall("base-sepolia", id);
+  assert.equal(getRemainingCalls("base-sepolia", id, 1), 1);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 1), 0);
+});
+
+test("counters are kept per network", async () => {
+  const id = paymentId(3);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 1), 0);
+  assert.equal(await claimPaymentCall("arc-testnet", id, 1), 0);
+});
+
+test("paymentIds are matched case-insensitively", async () => {
+  const id = `0x${"ab".repeat(32)}`;
+  await claimPaymentCall("base-sepolia", id, 1);
+  assert.equal(await claimPaymentCall("base-sepolia", id.toUpperCase().replace("0X", "0x"), 1), null);
+});
+
+test("remaining calls do not depend on the number of calls covered", () => {
+  assert.equal(getRemainingCalls("base-sepolia", paymentId(4), 1_000_000), 1_000_000);
+});
+
+test("a lock left by a crashed process is broken", async () => {
+  const id = paymentId(5);
+  const lock = path.join(dataDir, "payment-ids", "base-sepolia", `${id}.json.lock`);
+  fs.mkdirSync(path.dirname(lock), { recursive: true });
+  fs.writeFileSync(lock, "12345");
+  const stale = new Date(Date.now() - 60_000);
+  fs.utimesSync(lock, stale, stale);
+
+  assert.equal(await claimPaymentCall("base-sepolia", id, 1), 0);
+  assert.equal(fs.existsSync(lock), false);
+});
+
+test("claims survive a restart and are shared with other instances", async () => {
+  const id = paymentId(6);
+  await claimPaymentCall("base-sepolia", id, 3);
+  assert.equal(await claimElsewhere(id, 3, 5), 2);
+  assert.equal(await claimPaymentCall("base-sepolia", id, 3), null);
+});
+
+test("concurrent claims from several instances never exceed the payment", async () => {
+  const id = paymentId(7);
+  const [here, ...elsewhere] = await Promise.all([
+    Promise.all(Array.from({ length: 10 }, () => claimPaymentCall("base-sepolia", id, 12))),
+    claimElsewhere(id, 12, 10),
+    claimElsewhere(id, 12, 10),
+  ]);
+  const claimed = here.filter((remaining) => remaining !== null).length + elsewhere[0] + elsewhere[1];
+  assert.equal(claimed, 12);
+  assert.equal(getRemainingCalls("base-sepolia", id, 12), 0);
+});
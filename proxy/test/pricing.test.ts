@@ -0,0 +1,102 @@
+import { TEST_ADMIN_TOKEN } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { app } from "../src/app.js";
+import { matchPricingRule, priceFor, resourcePath, validatePricing } from "../src/services/pricing.js";
+import { getResource, registerResource } from "../src/services/resourceStore.js";
+import type { PricingRule, Resource, X402ErrorResponse } from "../src/types/x402.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const rules: PricingRule[] = [
+  { path: "/docs", pricePerCall: "0" },
+  { method: "POST", path: "/users/:id", pricePerCall: "5000" },
+  { path: "/users/:id", pricePerCall: "200" },
+  { method: "*", path: "/v1/images/*", pricePerCall: "9000" },
+];
+
+const resource = {
+  id: "api",
+  name: "API",
+  type: "API",
+  creatorAddress: "0x000000000000000000000000000000000000bEEF",
+  originalUrl: "http://127.0.0.1:9",
+  pricing: { pricePerCall: "1000", currency: "USDC", rules },
+} satisfies Omit<Resource, "proxyUrl">;
+
+let proxy: TestServer;
+
+before(async () => {
+  registerResource(resource);
+  proxy = await listen(app);
+});
+
+after(() => proxy.close());
+
+const ruleFor = (method: string, path: string): PricingRule | undefined =>
+  matchPricingRule(getResource("api")!, method, path);
+
+test("rules match by method and path pattern, first match wins", () => {
+  assert.equal(ruleFor("GET", "/docs")?.pricePerCall, "0");
+  assert.equal(ruleFor("GET", "/docs/")?.pricePerCall, "0");
+  assert.equal(ruleFor("post", "/users/42")?.pricePerCall, "5000");
+  assert.equal(ruleFor("GET", "/users/42")?.pricePerCall, "200");
+  assert.equal(ruleFor("GET", "/users/42/posts"), undefined);
+  assert.equal(ruleFor("DELETE", "/v1/images/a/b.png")?.pricePerCall, "9000");
+  assert.equal(ruleFor("GET", "/docs.json"), undefined);
+});
+
+test("a rule's price applies on every payment option; otherwise the option's or default price", () => {
+  const stored = getResource("api")!;
+  assert.equal(priceFor(stored, { network: "arc-testnet", pricePerCall: "3000" }, rules[2]), "200");
+  assert.equal(priceFor(stored, { network: "arc-testnet", pricePerCall: "3000" }, undefined), "3000");
+  assert.equal(priceFor(stored, undefined, undefined), "1000");
+});
+
+test("trailing paths are normalized to resource-relative paths", () => {
+  assert.equal(resourcePath(undefined), "/");
+  assert.equal(resourcePath("users/1"), "/users/1");
+  assert.equal(resourcePath("//users/1"), "/users/1");
+});
+
+test("invalid rules are rejected", () => {
+  const check = (rule: Partial<PricingRule>): string | null =>
+    validatePricing({ pricePerCall: "1", rules: [rule as PricingRule] });
+  assert.match(check({ path: "docs", pricePerCall: "1" }) ?? "", /path must be a path starting with/);
+  assert.match(check({ method: "FETCH", path: "/", pricePerCall: "1" }) ?? "", /method must be/);
+  assert.match(check({ path: "/", pricePerCall: "0.5" }) ?? "", /integer string/);
+  assert.equal(check({ method: "get", path: "/", pricePerCall: "0" }), null);
+});
+
+test("the 402 quotes the price of the matched route", async () => {
+  const priced = async (method: string, path: string): Promise<string> => {
+    const res = await fetch(`${proxy.url}/proxy/api${path}`, { method });
+    assert.equal(res.status, 402);
+    return ((await res.json()) as X402ErrorResponse).accepts[0].maxAmountRequired;
+  };
+  assert.equal(await priced("POST", "/users/7"), "5000");
+  assert.equal(await priced("GET", "/users/7"), "200");
+  assert.equal(await priced("GET", "/other"), "1000");
+});
+
+test("a route priced 0 is served without payment", async () => {
+  // The upstream is unreachable: getting past the gate is what counts
+  assert.equal((await fetch(`${proxy.url}/proxy/api/docs`)).status, 502);
+});
+
+test("pricing can be replaced through the admin API", async () => {
+  const res = await fetch(`${proxy.url}/admin/register/api/pricing`, {
+    method: "PUT",
+    headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}`, "content-type": "application/json" },
+    body: JSON.stringify({ rules: [{ path: "/docs", pricePerCall: "10" }] }),
+  });
+  assert.equal(res.status, 200);
+  assert.equal(getResource("api")!.pricing.pricePerCall, "1000");
+  assert.equal(ruleFor("GET", "/docs")?.pricePerCall, "10");
+
+  const invalid = await fetch(`${proxy.url}/admin/register/api/pricing`, {
+    method: "PUT",
+    headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}`, "content-type": "application/json" },
+    body: JSON.stringify({ rules: [{ path: "docs", pricePerCall: "10" }] }),
+  });
+  assert.equal(invalid.status, 400);
+});
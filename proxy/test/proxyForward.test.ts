@@ -0,0 +1,107 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { IncomingHttpHeaders } from "node:http";
+import { buffer } from "node:stream/consumers";
+import { gzipSync } from "node:zlib";
+import { app } from "../src/app.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const BINARY = Buffer.from([0, 1, 2, 253, 254, 255, 0x89, 0x50, 0x4e, 0x47]);
+
+let upstream: TestServer;
+let proxy: TestServer;
+/** What the upstream last received. */
+let received: { method?: string; url?: string; headers: IncomingHttpHeaders; body: Buffer } = { headers: {}, body: Buffer.alloc(0) };
+/** Lets the event stream finish once the client has seen its first event. */
+let finishStream: () => void = () => {};
+
+before(async () => {
+  upstream = await listen(async (req, res) => {
+    received = { method: req.method, url: req.url, headers: req.headers, body: await buffer(req) };
+    switch (req.url) {
+      case "/image":
+        res.setHeader("content-type", "image/png");
+        res.end(BINARY);
+        return;
+      case "/gzip":
+        res.setHeader("content-type", "text/plain");
+        res.setHeader("content-encoding", "gzip");
+        res.end(gzipSync("unzipped"));
+        return;
+      case "/events":
+        res.setHeader("content-type", "text/event-stream");
+        res.write("data: first\n\n");
+        finishStream = () => res.end("data: last\n\n");
+        return;
+      default:
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ ok: true }));
+    }
+  });
+  proxy = await listen(app);
+
+  // Free routes: forwarding is tested without payments
+  const pricing = { pricePerCall: "1000", currency: "USDC" as const, rules: [{ path: "/*", pricePerCall: "0" }] };
+  registerResource({ id: "echo", name: "Echo", type: "API", creatorAddress: "0x000000000000000000000000000000000000bEEF", originalUrl: `${upstream.url}/`, pricing });
+  registerResource({ id: "down", name: "Down", type: "API", creatorAddress: "0x000000000000000000000000000000000000bEEF", originalUrl: "http://127.0.0.1:9/", pricing });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+});
+
+test("binary request bodies reach the upstream byte for byte", async () => {
+  const res = await fetch(`${proxy.url}/proxy/echo/upload`, {
+    method: "PUT",
+    headers: { "content-type": "application/octet-stream" },
+    body: BINARY,
+  });
+  assert.equal(res.status, 200);
+  assert.equal(received.method, "PUT");
+  assert.equal(received.url, "/upload");
+  assert.deepEqual(received.body, BINARY);
+  assert.equal(received.headers["content-type"], "application/octet-stream");
+});
+
+test("JSON bodies are forwarded exactly as sent", async () => {
+  const json = '{ "b": 1,\n  "a": [1.50, "x"] }';
+  await fetch(`${proxy.url}/proxy/echo/rpc`, { method: "POST", headers: { "content-type": "application/json" }, body: json });
+  assert.equal(received.body.toString("utf-8"), json);
+});
+
+test("binary responses come back unchanged with their content type", async () => {
+  const res = await fetch(`${proxy.url}/proxy/echo/image`);
+  assert.equal(res.headers.get("content-type"), "image/png");
+  assert.deepEqual(Buffer.from(await res.arrayBuffer()), BINARY);
+});
+
+test("compressed upstream bodies are relayed decoded, without a stale content-encoding", async () => {
+  const res = await fetch(`${proxy.url}/proxy/echo/gzip`);
+  assert.equal(res.headers.get("content-encoding"), null);
+  assert.equal(await res.text(), "unzipped");
+});
+
+test("event streams reach the client before the upstream has finished", async () => {
+  const res = await fetch(`${proxy.url}/proxy/echo/events`);
+  assert.equal(res.headers.get("content-type"), "text/event-stream");
+
+  const reader = res.body!.getReader();
+  const first = await reader.read();
+  assert.equal(Buffer.from(first.value!).toString("utf-8"), "data: first\n\n");
+
+  finishStream();
+  let rest = "";
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    rest += Buffer.from(chunk.value).toString("utf-8");
+  }
+  assert.equal(rest, "data: last\n\n");
+});
+
+test("an unreachable upstream is a 502 without internal details", async () => {
+  const res = await fetch(`${proxy.url}/proxy/down/anything`);
+  assert.equal(res.status, 502);
+  assert.deepEqual(await res.json(), { error: "Bad Gateway" });
+});
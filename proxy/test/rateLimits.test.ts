@@ -0,0 +1,146 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { ownerRequestMessage } from "../src/middleware/ownerAuth.js";
+import { consumeRateLimit } from "../src/services/rateLimiter.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import type { X402ErrorResponse } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { encodeHeader, mockUsdc, signExactPayment } from "./support/payments.js";
+
+const owner = ethers.Wallet.createRandom();
+const payer = ethers.Wallet.createRandom();
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.facilitatorMode = "local";
+  config.rateLimitFreeIp = 2;
+  mockUsdc(chain);
+
+  upstream = await listen((_req, res) => res.end("{}"));
+  proxy = await listen(app);
+  const common = { type: "API", creatorAddress: owner.address, originalUrl: `${upstream.url}/` } as const;
+  registerResource({ ...common, id: "weather", name: "Weather", pricing: { pricePerCall: "1000", currency: "USDC" } });
+  registerResource({
+    ...common,
+    id: "docs",
+    name: "Docs",
+    pricing: { pricePerCall: "1000", currency: "USDC", rules: [{ path: "/*", pricePerCall: "0" }] },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+/** PUT the resource's rate limits as an owner-signed request from `signer`. */
+async function putLimits(
+  body: unknown,
+  signer: ethers.BaseWallet = owner,
+  timestamp = String(Date.now())
+): Promise<Response> {
+  const path = "/services/weather/rate-limits";
+  const raw = JSON.stringify(body);
+  const signature = await signer.signMessage(ownerRequestMessage("PUT", path, timestamp, Buffer.from(raw)));
+  return fetch(`${proxy.url}${path}`, {
+    method: "PUT",
+    headers: { "content-type": "application/json", "x-owner-timestamp": timestamp, "x-owner-signature": signature },
+    body: raw,
+  });
+}
+
+async function paidCall(): Promise<Response> {
+  const res402 = await fetch(`${proxy.url}/proxy/weather`);
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const headers = { "x-payment": encodeHeader(await signExactPayment(payer, accepts[0])) };
+  return fetch(`${proxy.url}/proxy/weather`, { headers });
+}
+
+test("a fixed window counts requests per key and resets when it ends", async () => {
+  const limit = { requests: 2, windowMs: 50 };
+  assert.deepEqual(consumeRateLimit("test:a", limit), { allowed: true, remaining: 1 });
+  assert.deepEqual(consumeRateLimit("test:a", limit), { allowed: true, remaining: 0 });
+  assert.deepEqual(consumeRateLimit("test:a", limit), { allowed: false, retryAfterSeconds: 1 });
+  assert.deepEqual(consumeRateLimit("test:b", limit), { allowed: true, remaining: 1 });
+  assert.deepEqual(consumeRateLimit("test:c", { requests: 0, windowMs: 50 }), { allowed: true, remaining: Infinity });
+
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.deepEqual(consumeRateLimit("test:a", limit), { allowed: true, remaining: 1 });
+});
+
+test("free calls are limited per client IP", async () => {
+  assert.equal((await fetch(`${proxy.url}/proxy/docs/a`)).status, 200);
+  assert.equal((await fetch(`${proxy.url}/proxy/docs/b`)).status, 200);
+  const limited = await fetch(`${proxy.url}/proxy/docs/c`);
+  assert.equal(limited.status, 429);
+  assert.equal(limited.headers.get("retry-after"), "60");
+  assert.deepEqual(await limited.json(), { error: "Rate limit exceeded", scope: "free", retryAfter: 60 });
+});
+
+test("owners change their resource's limits with a signed request", async () => {
+  const unsigned = await fetch(`${proxy.url}/services/weather/rate-limits`, { method: "PUT" });
+  assert.equal(unsigned.status, 401);
+
+  const limits = { perPayer: { requests: 1, windowMs: 60_000 } };
+  assert.equal((await putLimits(limits, ethers.Wallet.createRandom())).status, 403);
+  assert.equal((await putLimits(limits, owner, String(Date.now() - 10 * 60 * 1000))).status, 401);
+
+  const res = await putLimits(limits);
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { resourceId: "weather", rateLimits: limits });
+
+  const effective = (await (await fetch(`${proxy.url}/services/weather/rate-limits`)).json()) as Record<string, unknown>;
+  assert.deepEqual(effective.perPayer, limits.perPayer);
+  assert.deepEqual(effective.total, { requests: config.rateLimitResource, windowMs: config.rateLimitWindowMs });
+});
+
+test("a signature covers the body it was made for", async () => {
+  const timestamp = String(Date.now());
+  const signature = await owner.signMessage(
+    ownerRequestMessage("PUT", "/services/weather/rate-limits", timestamp, Buffer.from("{}"))
+  );
+  const res = await fetch(`${proxy.url}/services/weather/rate-limits`, {
+    method: "PUT",
+    headers: { "content-type": "application/json", "x-owner-timestamp": timestamp, "x-owner-signature": signature },
+    body: JSON.stringify({ total: { requests: 0, windowMs: 60_000 } }),
+  });
+  assert.equal(res.status, 403);
+});
+
+test("invalid limits are rejected", async () => {
+  const error = async (body: unknown) => ((await (await putLimits(body)).json()) as { error: string }).error;
+  assert.equal(await error({ perMonth: { requests: 1, windowMs: 60_000 } }), "Unknown rate limit scope(s): perMonth");
+  assert.match(await error({ total: { requests: -1, windowMs: 60_000 } }), /total\.requests must be a non-negative integer/);
+  assert.match(await error({ perIp: { requests: 1, windowMs: 10 } }), /perIp\.windowMs must be an integer between/);
+});
+
+test("a payer over its limit is refused before any payment is settled", async () => {
+  assert.equal((await paidCall()).status, 200);
+  const sentBefore = chain.sent.length;
+
+  const limited = await paidCall();
+  assert.equal(limited.status, 429);
+  assert.equal(((await limited.json()) as { scope: string }).scope, "payer");
+  assert.equal(chain.sent.length, sentBefore);
+});
+
+test("every client IP is limited across the whole proxy", async () => {
+  // A new window length starts a fresh window
+  config.rateLimitIp = 1;
+  config.rateLimitWindowMs = 30_000;
+  assert.equal((await fetch(`${proxy.url}/health`)).status, 200);
+  const limited = await fetch(`${proxy.url}/health`);
+  assert.equal(limited.status, 429);
+  assert.equal(((await limited.json()) as { scope: string }).scope, "ip");
+});
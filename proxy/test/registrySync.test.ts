@@ -0,0 +1,147 @@
+import { TEST_ADMIN_TOKEN } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { getResource, registerResource } from "../src/services/resourceStore.js";
+import { getRegistrySyncStatus, syncRegistry } from "../src/services/registrySync.js";
+import type { RegistrySyncStatus } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const OWNER = "0x000000000000000000000000000000000000bEEF";
+const REGISTRY = config.networks["base-sepolia"].serviceRegistryAddress;
+
+const registryIface = new ethers.Interface([
+  "function getServiceCount() view returns (uint256)",
+  "function getServiceIdAt(uint256 index) view returns (bytes32)",
+  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
+  "event ServicePriceUpdated(bytes32 indexed serviceId, uint256 oldPrice, uint256 newPrice)",
+]);
+
+interface Service {
+  serviceId: string;
+  name: string;
+  pricePerCall: bigint;
+  active: boolean;
+}
+
+const WEATHER = ethers.id("weather");
+const RETIRED = ethers.id("retired");
+const NEW = ethers.id("new");
+
+/** The registry's services, in index order. */
+const services: Service[] = [
+  { serviceId: WEATHER, name: "Weather", pricePerCall: 2000n, active: true },
+  { serviceId: RETIRED, name: "Retired", pricePerCall: 1000n, active: false },
+  { serviceId: NEW, name: "New", pricePerCall: 500n, active: true },
+];
+
+let chain: FakeChain;
+let proxy: TestServer;
+let blockNumber = 100;
+let logs: ethers.Log[] = [];
+let registryDown = false;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  chain.handlers.set("eth_blockNumber", () => ethers.toQuantity(blockNumber));
+  chain.handlers.set("eth_getLogs", () => logs);
+  chain.mockCall(REGISTRY, registryIface, "getServiceCount", () => {
+    if (registryDown) throw new Error("registry unavailable");
+    return [BigInt(services.length)];
+  });
+  chain.mockCall(REGISTRY, registryIface, "getServiceIdAt", (index: bigint) => [services[Number(index)].serviceId]);
+  chain.mockCall(REGISTRY, registryIface, "getService", (serviceId: string) => {
+    const s = services.find((service) => service.serviceId === serviceId)!;
+    return [[1n, OWNER, s.name, s.pricePerCall, `https://${s.name.toLowerCase()}.example`, 0, s.active, 0n, 0n]];
+  });
+
+  proxy = await listen(app);
+  const common = { type: "API", creatorAddress: OWNER, originalUrl: "http://127.0.0.1:9/", pricing: { pricePerCall: "1000", currency: "USDC" } } as const;
+  registerResource({ ...common, id: "weather", name: "Weather", serviceId: WEATHER });
+  registerResource({ ...common, id: "retired", name: "Retired", serviceId: RETIRED });
+});
+
+after(async () => {
+  await proxy.close();
+  await chain.close();
+});
+
+function adminSync(method: "GET" | "POST"): Promise<Response> {
+  return fetch(`${proxy.url}/admin/registry-sync`, { method, headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}` } });
+}
+
+/** A ServicePriceUpdated log in `block`, as eth_getLogs returns it. */
+function priceUpdated(serviceId: string, oldPrice: bigint, newPrice: bigint, block: number): ethers.Log {
+  const { topics, data } = registryIface.encodeEventLog("ServicePriceUpdated", [serviceId, oldPrice, newPrice]);
+  return {
+    address: REGISTRY,
+    topics,
+    data,
+    blockNumber: ethers.toQuantity(block),
+    blockHash: ethers.zeroPadValue(ethers.toQuantity(block + 1), 32),
+    transactionHash: ethers.id(`tx-${block}`),
+    transactionIndex: "0x0",
+    logIndex: "0x0",
+    removed: false,
+  } as unknown as ethers.Log;
+}
+
+/** Let ethers' short-lived request cache expire after the chain changed. */
+const chainChanged = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 300));
+
+test("a full walk applies on-chain prices and deactivations and lists unmapped services", async () => {
+  const res = await adminSync("POST");
+  assert.equal(res.status, 200);
+  const status = (await res.json()) as RegistrySyncStatus;
+  assert.deepEqual([status.servicesOnChain, status.lastBlock], [3, 100]);
+  assert.deepEqual(status.unmapped, [
+    { serviceId: NEW, name: "New", owner: OWNER, pricePerCall: "500", endpoint: "https://new.example", active: true },
+  ]);
+
+  assert.equal(getResource("weather")?.pricing.pricePerCall, "2000");
+  assert.equal(getResource("retired")?.active, false);
+  assert.equal((await fetch(`${proxy.url}/proxy/retired`)).status, 410);
+});
+
+test("between walks only services named in registry events are re-read", async () => {
+  services[0].pricePerCall = 3000n;
+  services[1].active = true;
+  blockNumber = 101;
+  logs = [priceUpdated(WEATHER, 2000n, 3000n, 101)];
+  await chainChanged();
+
+  await syncRegistry();
+  assert.equal(getResource("weather")?.pricing.pricePerCall, "3000");
+  assert.equal(getResource("retired")?.active, false);
+  assert.equal(getRegistrySyncStatus().lastBlock, 101);
+});
+
+test("an unmapped service is dropped once a resource is bound to it", async () => {
+  registerResource({
+    id: "new",
+    name: "New",
+    type: "API",
+    creatorAddress: OWNER,
+    originalUrl: "http://127.0.0.1:9/",
+    serviceId: NEW,
+    pricing: { pricePerCall: "500", currency: "USDC" },
+  });
+  assert.deepEqual(((await (await adminSync("GET")).json()) as RegistrySyncStatus).unmapped, []);
+});
+
+test("a failed walk is reported and recorded", async () => {
+  registryDown = true;
+  await chainChanged();
+  try {
+    const res = await adminSync("POST");
+    assert.equal(res.status, 502);
+    assert.equal(((await res.json()) as { error: string }).error, "Registry sync failed");
+    assert.ok(getRegistrySyncStatus().lastError);
+  } finally {
+    registryDown = false;
+  }
+});
@@ -0,0 +1,92 @@
+import { dataDir } from "./support/env.js";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "../src/config.js";
+import { accrueRevenue, flushAgent, getAccrual } from "../src/services/revenueAccrual.js";
+import { getSettlement, listSettlements } from "../src/services/settlementQueue.js";
+
+const WALLET = "0x000000000000000000000000000000000000a11e";
+const POOL = "0x000000000000000000000000000000000000b001";
+const OTHER_POOL = "0x000000000000000000000000000000000000b002";
+
+function call(agentId: string, serviceId: string, overrides: Partial<Parameters<typeof accrueRevenue>[0]> = {}): void {
+  accrueRevenue({
+    agentId,
+    serviceId,
+    revenue: "1000",
+    calls: 1,
+    agentWallet: WALLET,
+    pool: POOL,
+    poolAmount: "400",
+    walletAmount: "600",
+    ...overrides,
+  });
+}
+
+test("paid calls accrue per agent and per service", () => {
+  call("1", "svc-a");
+  call("1", "svc-a");
+  call("1", "svc-b");
+
+  const accrual = getAccrual("1")!;
+  assert.equal(accrual.poolAmount, "1200");
+  assert.equal(accrual.walletAmount, "1800");
+  assert.deepEqual(accrual.services, {
+    "svc-a": { calls: 2, revenue: "2000" },
+    "svc-b": { calls: 1, revenue: "1000" },
+  });
+
+  const saved = JSON.parse(fs.readFileSync(path.join(dataDir, "accruals.json"), "utf-8"));
+  assert.deepEqual(saved, [accrual]);
+});
+
+test("a flush becomes one settlement: a transfer per target and a recordUsage per service", () => {
+  const job = getSettlement(flushAgent("1")!)!;
+  assert.equal(job.agentId, "1");
+  assert.deepEqual(
+    job.steps.map(({ done: _, ...step }) => step),
+    [
+      { kind: "transfer", label: "pool", to: POOL, amount: "1200" },
+      { kind: "transfer", label: "agentWallet", to: WALLET, amount: "1800" },
+      { kind: "recordUsage", serviceId: "svc-a", calls: 2, revenue: "2000" },
+      { kind: "recordUsage", serviceId: "svc-b", calls: 1, revenue: "1000" },
+    ]
+  );
+  assert.equal(getAccrual("1"), undefined);
+  assert.equal(flushAgent("1"), undefined);
+});
+
+test("agents without split targets only record usage", () => {
+  call("2", "svc-c", { agentWallet: undefined, pool: undefined, poolAmount: "0", walletAmount: "0" });
+  const job = getSettlement(flushAgent("2")!)!;
+  assert.deepEqual(job.steps.map((step) => step.kind), ["recordUsage"]);
+});
+
+test("reaching the threshold flushes early", () => {
+  const threshold = config.accrualFlushThreshold;
+  config.accrualFlushThreshold = "2500";
+  try {
+    call("3", "svc-a");
+    call("3", "svc-a");
+    assert.ok(getAccrual("3"));
+    call("3", "svc-a");
+    assert.equal(getAccrual("3"), undefined);
+  } finally {
+    config.accrualFlushThreshold = threshold;
+  }
+});
+
+test("a change of split targets pays out the old targets first", () => {
+  call("4", "svc-a");
+  call("4", "svc-a", { pool: OTHER_POOL });
+
+  const accrual = getAccrual("4")!;
+  assert.equal(accrual.pool, OTHER_POOL);
+  assert.equal(accrual.poolAmount, "400");
+  assert.deepEqual(accrual.services, { "svc-a": { calls: 1, revenue: "1000" } });
+
+  const [flushed] = listSettlements().filter((job) => job.agentId === "4");
+  assert.deepEqual(flushed.steps[0], { kind: "transfer", label: "pool", to: POOL, amount: "400", done: false });
+});
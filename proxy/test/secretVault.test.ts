@@ -0,0 +1,125 @@
+import { TEST_ADMIN_TOKEN, dataDir } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import type { IncomingHttpHeaders } from "node:http";
+import path from "node:path";
+import { app } from "../src/app.js";
+import { decryptSecret, encryptSecret, isEncryptedSecret } from "../src/services/secretVault.js";
+import type { Resource } from "../src/types/x402.js";
+import { listen, type TestServer } from "./support/http.js";
+import { restartWith } from "./support/restart.js";
+
+const SECRET = "sk-live-0123456789";
+
+let upstream: TestServer;
+let proxy: TestServer;
+let upstreamHeaders: IncomingHttpHeaders = {};
+
+before(async () => {
+  upstream = await listen((req, res) => {
+    upstreamHeaders = req.headers;
+    res.end("{}");
+  });
+  proxy = await listen(app);
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+});
+
+function admin(method: string, route: string, body: unknown): Promise<Response> {
+  return fetch(`${proxy.url}${route}`, {
+    method,
+    headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}`, "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Register a resource with an upstream key, free so calls reach the upstream unpaid. */
+function registerWithKey(id: string, extra: Record<string, unknown> = {}): Promise<Response> {
+  return admin("POST", "/admin/register", {
+    id,
+    name: id,
+    type: "API",
+    creatorAddress: "0x000000000000000000000000000000000000bEEF",
+    originalUrl: `${upstream.url}/`,
+    pricing: { pricePerCall: "1000", rules: [{ path: "/*", pricePerCall: "0" }] },
+    apiKey: SECRET,
+    ...extra,
+  });
+}
+
+test("secrets are sealed with a fresh IV and open only untampered", () => {
+  const sealed = encryptSecret(SECRET);
+  assert.ok(isEncryptedSecret(sealed));
+  assert.ok(!sealed.includes(SECRET));
+  assert.notEqual(encryptSecret(SECRET), sealed);
+  assert.equal(decryptSecret(sealed), SECRET);
+
+  const [iv, tag, ciphertext] = sealed.slice("enc:v1:".length).split(":");
+  const flipped = Buffer.from(ciphertext, "base64");
+  flipped[0] ^= 1;
+  assert.throws(() => decryptSecret(`enc:v1:${iv}:${tag}:${flipped.toString("base64")}`));
+  assert.throws(() => decryptSecret(`enc:v1:${iv}`), /Malformed encrypted secret/);
+  assert.throws(() => decryptSecret(SECRET), /Not an encrypted secret/);
+});
+
+test("an API key is stored encrypted and never returned", async () => {
+  const res = await registerWithKey("keyed");
+  assert.equal(res.status, 201);
+  const body = JSON.stringify(await res.json());
+  assert.match(body, /"hasApiKey":true/);
+  assert.doesNotMatch(body, /apiKey"|encryptedApiKey|enc:v1:/);
+
+  const stored = fs.readFileSync(path.join(dataDir, "resources.json"), "utf-8");
+  assert.ok(!stored.includes(SECRET));
+  const resource = (JSON.parse(stored) as Resource[]).find((r) => r.id === "keyed")!;
+  assert.equal(decryptSecret(resource.encryptedApiKey!), SECRET);
+
+  const services = await (await fetch(`${proxy.url}/services`)).text();
+  assert.ok(!services.includes(SECRET));
+  assert.doesNotMatch(services, /encryptedApiKey|enc:v1:/);
+});
+
+test("the key reaches the upstream in its configured header", async () => {
+  await registerWithKey("custom-header", { apiKeyHeader: "X-Api-Key" });
+  await fetch(`${proxy.url}/proxy/keyed/call`);
+  assert.equal(upstreamHeaders.authorization, SECRET);
+  await fetch(`${proxy.url}/proxy/custom-header/call`);
+  assert.equal(upstreamHeaders["x-api-key"], SECRET);
+});
+
+test("admins rotate and remove the key", async () => {
+  const rotated = await admin("PUT", "/admin/register/keyed/api-key", { apiKey: "sk-live-rotated" });
+  assert.equal(rotated.status, 200);
+  await fetch(`${proxy.url}/proxy/keyed/call`);
+  assert.equal(upstreamHeaders.authorization, "sk-live-rotated");
+
+  const removed = await admin("PUT", "/admin/register/keyed/api-key", { apiKey: null });
+  assert.equal(((await removed.json()) as { hasApiKey: boolean }).hasApiKey, false);
+  await fetch(`${proxy.url}/proxy/keyed/call`);
+  assert.equal(upstreamHeaders.authorization, undefined);
+
+  assert.equal((await admin("PUT", "/admin/register/keyed/api-key", { apiKey: 42 })).status, 400);
+  assert.equal((await admin("PUT", "/admin/register/missing/api-key", { apiKey: "k" })).status, 404);
+});
+
+test("plaintext keys from older stores are encrypted on start, if a master key is set", async () => {
+  const legacy = [{ id: "legacy", name: "Legacy", type: "API", creatorAddress: "0x0", originalUrl: "http://x", apiKey: SECRET }];
+  const load = async (env: Record<string, string>): Promise<(Resource & { apiKey?: string })[]> => {
+    const dir = fs.mkdtempSync(path.join(dataDir, "legacy-"));
+    fs.writeFileSync(path.join(dir, "resources.json"), JSON.stringify(legacy));
+    await restartWith(["src/services/resourceStore.ts"], { DATA_DIR: dir, ...env });
+    return JSON.parse(fs.readFileSync(path.join(dir, "resources.json"), "utf-8"));
+  };
+
+  const [sealed] = await load({});
+  assert.equal(sealed.apiKey, undefined);
+  assert.equal(decryptSecret(sealed.encryptedApiKey!), SECRET);
+
+  // Without a master key the plaintext is kept rather than lost
+  const [kept] = await load({ SECRETS_MASTER_KEY: "" });
+  assert.deepEqual([kept.apiKey, kept.encryptedApiKey], [SECRET, undefined]);
+});
@@ -0,0 +1,145 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { config } from "../src/config.js";
+import { renderMetrics } from "../src/services/metrics.js";
+import { invalidateAgentInfo, invalidateServiceInfo, resolveServiceInfo } from "../src/services/serviceInfo.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+
+const SERVICE_ID = ethers.id("weather-service");
+const OWNER = "0x000000000000000000000000000000000000bEEF";
+const AGENT_WALLET = ethers.getAddress("0x000000000000000000000000000000000000a9e7");
+
+const registryIface = new ethers.Interface([
+  "function getService(bytes32 serviceId) view returns (tuple(uint256 agentId, address owner, string name, uint256 pricePerCall, string endpoint, uint8 serviceType, bool active, uint256 totalCalls, uint256 totalRevenue))",
+]);
+const identityIface = new ethers.Interface(["function getAgentWallet(uint256 agentId) view returns (address)"]);
+const factoryIface = new ethers.Interface(["function poolByAgentId(uint256 agentId) view returns (address)"]);
+const multicallIface = new ethers.Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+]);
+
+const home = config.networks["base-sepolia"];
+
+let chain: FakeChain;
+let owner = OWNER;
+let pool = ethers.getAddress("0x00000000000000000000000000000000000000f1");
+let registryDown = false;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  home.rpcUrl = chain.url;
+  chain.mockCall(config.serviceRegistryAddress, registryIface, "getService", () => {
+    if (registryDown) throw new Error("registry unavailable");
+    return [[7n, owner, "Weather", 1000n, "https://weather.example", 0, true, 0n, 0n]];
+  });
+  chain.mockCall(config.identityRegistryAddress, identityIface, "getAgentWallet", () => [AGENT_WALLET]);
+  chain.mockCall(config.agentPoolFactoryAddress, factoryIface, "poolByAgentId", () => [pool]);
+
+  // Multicall3 answers each aggregated call like the contracts above
+  const answers: Record<string, () => string> = {
+    [config.identityRegistryAddress.toLowerCase()]: () => identityIface.encodeFunctionResult("getAgentWallet", [AGENT_WALLET]),
+    [config.agentPoolFactoryAddress.toLowerCase()]: () => factoryIface.encodeFunctionResult("poolByAgentId", [pool]),
+  };
+  chain.mockCall(home.multicallAddress, multicallIface, "aggregate3", (calls: { target: string }[]) => [
+    calls.map(({ target }) => ({ success: true, returnData: answers[target.toLowerCase()]() })),
+  ]);
+});
+
+after(() => chain.close());
+
+/** eth_calls sent since `from` (an index into chain.requests), by target. */
+function callsSince(from: number): string[] {
+  return chain.requests
+    .slice(from)
+    .filter((r) => r.method === "eth_call")
+    .map((r) => ((r.params[0] as { to: string }).to).toLowerCase());
+}
+
+/** Let ethers' short-lived request cache expire, so only our cache can hide reads. */
+const settle = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 300));
+
+test("a service is resolved with one registry read and one multicall", async () => {
+  const from = chain.requests.length;
+  assert.deepEqual(await resolveServiceInfo(SERVICE_ID), {
+    owner: OWNER,
+    agentId: "7",
+    splitTargets: { agentWallet: AGENT_WALLET, pool },
+  });
+  assert.deepEqual(callsSince(from), [config.serviceRegistryAddress.toLowerCase(), home.multicallAddress.toLowerCase()]);
+});
+
+test("cached lookups are served without RPC reads", async () => {
+  await settle();
+  const from = chain.requests.length;
+  await resolveServiceInfo(SERVICE_ID);
+  await resolveServiceInfo(SERVICE_ID.toUpperCase().replace("0X", "0x"));
+  assert.deepEqual(callsSince(from), []);
+
+  const metrics = await renderMetrics();
+  assert.match(metrics, /pragma_chain_cache_lookups_total\{cache="service",result="hit"\} 2/);
+  assert.match(metrics, /pragma_chain_cache_lookups_total\{cache="service",result="miss"\} 1/);
+});
+
+test("registry events drop the cached service or agent", async () => {
+  owner = "0x000000000000000000000000000000000000dEaD";
+  pool = ethers.getAddress("0x00000000000000000000000000000000000000f2");
+  await settle();
+  assert.equal((await resolveServiceInfo(SERVICE_ID))?.owner, OWNER);
+
+  invalidateServiceInfo(SERVICE_ID);
+  const info = await resolveServiceInfo(SERVICE_ID);
+  assert.equal(info?.owner, owner);
+  assert.equal(info?.splitTargets?.pool, ethers.getAddress("0x00000000000000000000000000000000000000f1"));
+
+  invalidateAgentInfo("7");
+  assert.equal((await resolveServiceInfo(SERVICE_ID))?.splitTargets?.pool, pool);
+});
+
+test("concurrent misses share one lookup", async () => {
+  invalidateServiceInfo(SERVICE_ID);
+  invalidateAgentInfo("7");
+  await settle();
+  const from = chain.requests.length;
+  await Promise.all([resolveServiceInfo(SERVICE_ID), resolveServiceInfo(SERVICE_ID), resolveServiceInfo(SERVICE_ID)]);
+  assert.equal(callsSince(from).length, 2);
+});
+
+test("entries expire after the TTL and failed lookups are not cached", async () => {
+  config.chainCacheTtlMs = 50;
+  invalidateServiceInfo(SERVICE_ID);
+  registryDown = true;
+  await settle();
+  assert.equal(await resolveServiceInfo(SERVICE_ID), null);
+
+  registryDown = false;
+  await settle();
+  assert.equal((await resolveServiceInfo(SERVICE_ID))?.owner, owner);
+
+  await settle();
+  const from = chain.requests.length;
+  await resolveServiceInfo(SERVICE_ID);
+  assert.ok(callsSince(from).includes(config.serviceRegistryAddress.toLowerCase()));
+});
+
+test("without a multicall contract the agent reads go out individually", async () => {
+  const multicallAddress = home.multicallAddress;
+  home.multicallAddress = "";
+  try {
+    invalidateAgentInfo("7");
+    await settle();
+    const from = chain.requests.length;
+    assert.equal((await resolveServiceInfo(SERVICE_ID))?.splitTargets?.agentWallet, AGENT_WALLET);
+    assert.ok(!callsSince(from).includes(multicallAddress.toLowerCase()));
+    assert.ok(callsSince(from).includes(config.identityRegistryAddress.toLowerCase()));
+  } finally {
+    home.multicallAddress = multicallAddress;
+  }
+});
+
+test("ids that are not bytes32 are not looked up", async () => {
+  const from = chain.requests.length;
+  assert.equal(await resolveServiceInfo("weather"), null);
+  assert.deepEqual(callsSince(from), []);
+});
@@ -0,0 +1,178 @@
+import { TEST_ADMIN_TOKEN, dataDir } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { startSettlementWorker, stopSettlementWorker } from "../src/services/settlementQueue.js";
+import { queryTransactions } from "../src/services/transactionStore.js";
+import type { SettlementPolicy, Transaction, X402ErrorResponse } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { encodeHeader, mockUsdc, signExactPayment, usdcIface } from "./support/payments.js";
+import { waitFor } from "./support/wait.js";
+
+const PAYEE = "0x000000000000000000000000000000000000bEEF";
+const SERVICE_ID = ethers.id("weather-service");
+const PROXY_SIGNER = new ethers.Wallet(config.proxySignerKey).address;
+
+const erc20 = new ethers.Interface(["function transfer(address to, uint256 amount) returns (bool)"]);
+const gatewayIface = new ethers.Interface([
+  "function getPayment(bytes32 paymentId) view returns (tuple(address payer, bytes32 serviceId, uint256 calls, uint256 amount, bool valid))",
+]);
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.facilitatorMode = "local";
+  config.settlementPollIntervalMs = 10;
+  mockUsdc(chain);
+  chain.mockCall(config.gatewayAddress, gatewayIface, "getPayment", () => [
+    { payer: PAYEE, serviceId: SERVICE_ID, calls: 1n, amount: 1000n, valid: true },
+  ]);
+  startSettlementWorker();
+
+  upstream = await listen((req, res) => {
+    res.statusCode = req.url === "/fail" ? 500 : 200;
+    res.setHeader("content-type", "application/json");
+    res.end("{}");
+  });
+  proxy = await listen(app);
+
+  const register = (id: string, settlementPolicy: SettlementPolicy, creatorAddress = PAYEE, serviceId?: string) =>
+    registerResource({
+      id,
+      name: id,
+      type: "API",
+      creatorAddress,
+      originalUrl: `${upstream.url}/`,
+      pricing: { pricePerCall: "1000", currency: "USDC" },
+      settlementPolicy,
+      serviceId,
+    });
+  register("settle-after", "settle-after");
+  // Paid to the proxy signer, as on-chain services with split targets are
+  register("refund", "refund-on-failure", PROXY_SIGNER);
+  register("refund-to-owner", "refund-on-failure");
+  register("gateway", "settle-after", PAYEE, SERVICE_ID);
+});
+
+after(async () => {
+  stopSettlementWorker();
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+/** Call `resourceId` at `route`, paying with a fresh wallet; returns the response and the payer. */
+async function paidCall(resourceId: string, route: string): Promise<{ res: Response; payer: string }> {
+  const res402 = await fetch(`${proxy.url}/proxy/${resourceId}${route}`);
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const payer = ethers.Wallet.createRandom();
+  const headers = { "x-payment": encodeHeader(await signExactPayment(payer, accepts[0])) };
+  return { res: await fetch(`${proxy.url}/proxy/${resourceId}${route}`, { headers }), payer: payer.address };
+}
+
+function ledgerEntry(payer: string): Transaction {
+  const { transactions } = queryTransactions({ payer });
+  assert.equal(transactions.length, 1);
+  return transactions[0];
+}
+
+test("settle-after does not settle when the upstream fails", async () => {
+  const sentBefore = chain.sent.length;
+  const { res, payer } = await paidCall("settle-after", "/fail");
+  assert.equal(res.status, 500);
+  assert.equal(res.headers.get("x-payment-response"), null);
+  assert.equal(chain.sent.length, sentBefore);
+  const entry = ledgerEntry(payer);
+  assert.deepEqual([entry.status, entry.failureReason, entry.txHash], ["failed", "Upstream HTTP 500", undefined]);
+});
+
+test("settle-after settles once the upstream has answered", async () => {
+  const { res, payer } = await paidCall("settle-after", "/ok");
+  assert.equal(res.status, 200);
+  assert.ok(res.headers.get("x-payment-response"));
+
+  const settleTx = chain.sent[chain.sent.length - 1];
+  assert.equal(usdcIface.parseTransaction(settleTx)?.name, "transferWithAuthorization");
+  const entry = ledgerEntry(payer);
+  assert.deepEqual([entry.status, entry.txHash], ["settled", settleTx.hash]);
+});
+
+test("refund-on-failure refunds the payer from the proxy signer when the upstream fails", async () => {
+  const { res, payer } = await paidCall("refund", "/fail");
+  assert.equal(res.status, 500);
+  assert.ok(res.headers.get("x-payment-response"));
+  const entry = ledgerEntry(payer);
+  assert.deepEqual([entry.status, entry.failureReason], ["refunded", "Upstream HTTP 500"]);
+
+  const refund = await waitFor(() =>
+    chain.sent.find((tx) => erc20.parseTransaction(tx)?.name === "transfer" && erc20.decodeFunctionData("transfer", tx.data)[0] === payer)
+  );
+  assert.equal(refund.from, PROXY_SIGNER);
+  assert.equal(refund.to, config.usdcAddress);
+  assert.equal(erc20.decodeFunctionData("transfer", refund.data)[1], 1000n);
+});
+
+test("refund-on-failure keeps the payment when the upstream succeeds", async () => {
+  const { res, payer } = await paidCall("refund", "/ok");
+  assert.equal(res.status, 200);
+  assert.equal(ledgerEntry(payer).status, "settled");
+});
+
+test("refund-on-failure is refused for payments that would not reach the proxy signer", async () => {
+  const res = await fetch(`${proxy.url}/proxy/refund-to-owner`);
+  assert.equal(res.status, 500);
+  assert.match(((await res.json()) as { error: string }).error, /cannot take refundable payments/);
+});
+
+test("a gateway call is given back when the upstream fails", async () => {
+  const paymentId = ethers.id("gateway-payment");
+  const headers = { "x-payment-id": paymentId };
+  const failed = await fetch(`${proxy.url}/proxy/gateway/fail`, { headers });
+  assert.equal(failed.status, 500);
+  assert.equal(failed.headers.get("x-payment-calls-remaining"), "1");
+
+  const retried = await fetch(`${proxy.url}/proxy/gateway/ok`, { headers });
+  assert.equal(retried.status, 200);
+  assert.equal(retried.headers.get("x-payment-calls-remaining"), "0");
+
+  const { transactions } = queryTransactions({ resourceId: "gateway" });
+  assert.deepEqual(transactions.map((tx) => tx.status).sort(), ["failed", "verified"]);
+});
+
+test("an admin registration that cannot be stored is reported with its cause", async () => {
+  // Stand a directory where the resource store renames its file to
+  const storeFile = path.join(dataDir, "resources.json");
+  const saved = fs.readFileSync(storeFile);
+  fs.rmSync(storeFile);
+  fs.mkdirSync(path.join(storeFile, "blocked"), { recursive: true });
+  try {
+    const res = await fetch(`${proxy.url}/admin/register`, {
+      method: "POST",
+      headers: { "content-type": "application/json", authorization: `Bearer ${TEST_ADMIN_TOKEN}` },
+      body: JSON.stringify({
+        name: "Unstored",
+        type: "API",
+        creatorAddress: PAYEE,
+        originalUrl: upstream.url,
+        pricing: { pricePerCall: "1000" },
+      }),
+    });
+    assert.equal(res.status, 500);
+    const body = (await res.json()) as { error: string; details: string };
+    assert.equal(body.error, "Resource registration failed");
+    assert.ok(body.details);
+  } finally {
+    fs.rmSync(storeFile, { recursive: true });
+    fs.writeFileSync(storeFile, saved);
+  }
+});
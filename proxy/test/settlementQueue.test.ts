@@ -0,0 +1,165 @@
+import { dataDir } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { ethers } from "ethers";
+import { config } from "../src/config.js";
+import {
+  enqueueSettlement,
+  getSettlement,
+  replaySettlement,
+  startSettlementWorker,
+  stopSettlementWorker,
+} from "../src/services/settlementQueue.js";
+import type { Settlement, SettlementStepInput } from "../src/types/x402.js";
+import { rpcError, startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { restartWith } from "./support/restart.js";
+import { waitFor } from "./support/wait.js";
+
+const POOL = "0x000000000000000000000000000000000000a001";
+const SERVICE_ID = ethers.id("weather-service");
+
+const erc20 = new ethers.Interface(["function transfer(address to, uint256 amount) returns (bool)"]);
+
+let chain: FakeChain;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.settlementPollIntervalMs = 10;
+  config.settlementRetryBaseMs = 10;
+  config.settlementMaxAttempts = 3;
+  startSettlementWorker();
+});
+
+after(async () => {
+  stopSettlementWorker();
+  await chain.close();
+});
+
+/** Make gas estimation of calls to `to` revert, as a failing transfer would. */
+function failCallsTo(to: string | null): void {
+  chain.handlers.set("eth_estimateGas", (params) => {
+    if (to && (params[0] as { to: string }).to.toLowerCase() === to.toLowerCase()) rpcError("execution reverted", 3);
+    return ethers.toQuantity(60_000);
+  });
+}
+
+const transfer = (amount: string): SettlementStepInput => ({ kind: "transfer", label: "pool", to: POOL, amount });
+const usage: SettlementStepInput = { kind: "recordUsage", serviceId: SERVICE_ID, calls: 1, revenue: "1000" };
+
+const settled = (id: string): Promise<Settlement> =>
+  waitFor(() => {
+    const job = getSettlement(id);
+    return job && (job.status === "completed" || job.status === "dead") && job;
+  });
+
+test("a settlement runs its steps in order and completes", async () => {
+  failCallsTo(null);
+  const sentBefore = chain.sent.length;
+  const job = await settled(enqueueSettlement({ key: "pay-1", steps: [transfer("600"), usage] }).id);
+
+  assert.equal(job.status, "completed");
+  assert.equal(job.attempts, 1);
+  assert.ok(job.steps.every((step) => step.done && step.txHash));
+
+  const [paid, recorded] = chain.sent.slice(sentBefore);
+  assert.equal(paid.to, config.usdcAddress);
+  assert.deepEqual(Array.from(erc20.decodeFunctionData("transfer", paid.data)), [ethers.getAddress(POOL), 600n]);
+  assert.equal(recorded.to, config.serviceRegistryAddress);
+});
+
+test("enqueueing the same key again is a no-op", () => {
+  const first = enqueueSettlement({ key: "pay-1", steps: [transfer("1")] });
+  assert.equal(enqueueSettlement({ key: "pay-1", steps: [transfer("2")] }).id, first.id);
+});
+
+test("a failing settlement is retried with backoff, then dead-lettered", async () => {
+  failCallsTo(config.serviceRegistryAddress);
+  const sentBefore = chain.sent.length;
+  const job = await settled(enqueueSettlement({ key: "pay-2", steps: [transfer("600"), usage] }).id);
+
+  assert.equal(job.status, "dead");
+  assert.equal(job.attempts, 3);
+  assert.match(job.lastError ?? "", /revert/);
+  // The transfer went out once; retries only re-ran the failing step
+  assert.equal(chain.sent.length - sentBefore, 1);
+  assert.deepEqual(job.steps.map((step) => step.done), [true, false]);
+});
+
+test("a replayed dead settlement resumes where it stopped", async () => {
+  const dead = enqueueSettlement({ key: "pay-2", steps: [] });
+  failCallsTo(null);
+  // Let the provider's request cache forget the failed estimates
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  const sentBefore = chain.sent.length;
+
+  assert.ok(replaySettlement(dead.id));
+  const job = await settled(dead.id);
+  assert.equal(job.status, "completed");
+  assert.equal(chain.sent.length - sentBefore, 1);
+  assert.equal(chain.sent[chain.sent.length - 1].to, config.serviceRegistryAddress);
+
+  assert.equal(replaySettlement(dead.id), undefined);
+});
+
+test("a reverted transfer is forgotten and sent again", async () => {
+  failCallsTo(null);
+  let reverts = 1;
+  chain.outcome = () => (reverts-- > 0 ? 0 : 1);
+  const sentBefore = chain.sent.length;
+  const job = await settled(enqueueSettlement({ key: "pay-3", steps: [transfer("5")] }).id);
+  chain.outcome = () => 1;
+
+  assert.equal(job.status, "completed");
+  assert.equal(chain.sent.length - sentBefore, 2);
+  assert.equal(job.steps[0].txHash, chain.sent[chain.sent.length - 1].hash);
+});
+
+test("every change is appended to the settlement log", () => {
+  const jobs = fs
+    .readFileSync(path.join(dataDir, "settlements.jsonl"), "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as Settlement);
+  const id = enqueueSettlement({ key: "pay-1", steps: [] }).id;
+  const history = jobs.filter((job) => job.id === id).map((job) => job.status);
+
+  assert.equal(history[0], "pending");
+  assert.equal(history[history.length - 1], "completed");
+  assert.ok(history.length > 2);
+});
+
+test("a restart compacts the log, keeps unfinished jobs and prunes old completed ones", async () => {
+  const dir = fs.mkdtempSync(path.join(dataDir, "restart-"));
+  const file = path.join(dir, "settlements.jsonl");
+  const job = (id: string, status: Settlement["status"], updatedAt: number): Settlement => ({
+    id,
+    key: id,
+    steps: [],
+    status,
+    attempts: 1,
+    nextAttemptAt: 0,
+    createdAt: 0,
+    updatedAt,
+  });
+  const lines: Settlement[] = [job("crashed", "processing", 0), job("dead", "dead", 0)];
+  for (let i = 0; i < 1_050; i++) lines.push(job(`done-${i}`, "pending", i), job(`done-${i}`, "completed", i));
+  fs.writeFileSync(file, lines.map((line) => JSON.stringify(line)).join("\n") + "\n{\"torn");
+
+  await restartWith(["src/services/settlementQueue.ts"], { DATA_DIR: dir });
+
+  const compacted = fs
+    .readFileSync(file, "utf-8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as Settlement);
+  const byId = new Map(compacted.map((j) => [j.id, j]));
+  assert.equal(byId.size, compacted.length);
+  assert.equal(byId.get("crashed")?.status, "pending");
+  assert.equal(byId.get("dead")?.status, "dead");
+  assert.equal(compacted.filter((j) => j.status === "completed").length, 1_000);
+  assert.equal(byId.has("done-49"), false);
+  assert.equal(byId.has("done-50"), true);
+});
@@ -0,0 +1,16 @@
+import { claimPaymentCall } from "../../src/services/paymentIdStore.js";
+
+/**
+ * Another proxy instance for the paymentId tests: claims calls of one
+ * gateway payment and prints how many it got.
+ *
+ *   claimCalls.ts <network> <paymentId> <totalCalls> <attempts>
+ */
+
+const [network, paymentId, totalCalls, attempts] = process.argv.slice(2);
+
+Promise.all(
+  Array.from({ length: Number(attempts) }, () => claimPaymentCall(network, paymentId, Number(totalCalls)))
+).then((results) => {
+  console.log(results.filter((remaining) => remaining !== null).length);
+});
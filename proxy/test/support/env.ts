@@ -0,0 +1,25 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Test environment. Every test file imports this first: the proxy reads its
+ * configuration when modules load, so it has to be in place before any
+ * `src/` import. Each test file runs in its own process with its own
+ * throwaway data directory.
+ */
+
+/** Anvil's first dev account; never holds real funds. */
+export const TEST_SIGNER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+export const TEST_ADMIN_TOKEN = "test-admin-token";
+
+export const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pragma-proxy-test-"));
+
+process.env.DATA_DIR = dataDir;
+process.env.LOG_LEVEL = "error";
+process.env.PROXY_SIGNER_KEY = TEST_SIGNER_KEY;
+process.env.ADMIN_TOKEN = TEST_ADMIN_TOKEN;
+process.env.SECRETS_MASTER_KEY = "11".repeat(32);
+process.env.NONCE_MONITOR_INTERVAL_MS = "0";
+
+process.on("exit", () => fs.rmSync(dataDir, { recursive: true, force: true }));
@@ -0,0 +1,218 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import { config, type NetworkConfig } from "../../src/config.js";
+
+/**
+ * Minimal JSON-RPC node for tests: answers what ethers needs to read the
+ * chain id, fees and nonces and to broadcast transactions, and records every
+ * request. Broadcast transactions are mined at once (see `outcome`).
+ * Individual methods can be overridden per test through `handlers`.
+ */
+
+type Handler = (params: unknown[]) => unknown;
+type CallHandler = (...args: any[]) => unknown[];
+
+export interface FakeChain {
+  url: string;
+  /** A network config pointing at this node (name and usual chain id are base-sepolia's unless given). */
+  network(overrides?: Partial<NetworkConfig>): NetworkConfig;
+  handlers: Map<string, Handler>;
+  /** Answer `eth_call`s to `method` of the contract at `address`; throwing reverts the call. */
+  mockCall(address: string, iface: ethers.Interface, method: string, handler: CallHandler): void;
+  /** Every request received, in order. */
+  requests: { method: string; params: unknown[] }[];
+  /** Raw transactions received through eth_sendRawTransaction. */
+  sent: ethers.Transaction[];
+  /** Nonce counts returned for "latest" and "pending". */
+  nonces: { latest: number; pending: number };
+  /** What happens to a broadcast tx: 1 mined, 0 mined but reverted, null left in the mempool. */
+  outcome: (tx: ethers.Transaction) => 1 | 0 | null;
+  /** Mine a tx left in the mempool, or a tx the node never saw (sent elsewhere). */
+  mine(tx: ethers.Transaction, status?: 1 | 0): void;
+  close(): Promise<void>;
+}
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/** Throw from a handler to answer with a JSON-RPC error. */
+export function rpcError(message: string, code = -32000): never {
+  throw new RpcError(code, message);
+}
+
+const hex = (value: number | bigint): string => ethers.toQuantity(value);
+
+const BLOCK_NUMBER = 100;
+
+function txResponse(tx: ethers.Transaction): Record<string, unknown> {
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    nonce: hex(tx.nonce),
+    gas: hex(tx.gasLimit),
+    gasPrice: tx.gasPrice === null ? undefined : hex(tx.gasPrice),
+    maxFeePerGas: tx.maxFeePerGas === null ? undefined : hex(tx.maxFeePerGas),
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas === null ? undefined : hex(tx.maxPriorityFeePerGas),
+    value: hex(tx.value),
+    input: tx.data,
+    type: hex(tx.type ?? 0),
+    chainId: hex(tx.chainId),
+    accessList: tx.type === 0 ? undefined : tx.accessList ?? [],
+    v: hex(tx.signature!.v),
+    r: tx.signature!.r,
+    s: tx.signature!.s,
+    blockHash: null,
+    blockNumber: null,
+    transactionIndex: null,
+  };
+}
+
+function receipt(tx: ethers.Transaction, status: 1 | 0): Record<string, unknown> {
+  return {
+    transactionHash: tx.hash,
+    transactionIndex: "0x0",
+    blockHash: ethers.zeroPadValue(hex(BLOCK_NUMBER + 1), 32),
+    blockNumber: hex(BLOCK_NUMBER),
+    from: tx.from,
+    to: tx.to,
+    contractAddress: null,
+    gasUsed: hex(21_000),
+    cumulativeGasUsed: hex(21_000),
+    effectiveGasPrice: hex(1_000_000_000),
+    logsBloom: `0x${"00".repeat(256)}`,
+    logs: [],
+    status: hex(status),
+    type: hex(tx.type ?? 0),
+  };
+}
+
+function block(number: number): Record<string, unknown> {
+  return {
+    hash: ethers.zeroPadValue(hex(number + 1), 32),
+    parentHash: ethers.ZeroHash,
+    number: hex(number),
+    timestamp: hex(1_700_000_000 + number),
+    nonce: "0x0000000000000000",
+    difficulty: "0x0",
+    gasLimit: hex(30_000_000),
+    gasUsed: "0x0",
+    miner: ethers.ZeroAddress,
+    extraData: "0x",
+    baseFeePerGas: hex(1_000_000_000),
+    transactions: [],
+  };
+}
+
+export async function startFakeChain(chainId: number): Promise<FakeChain> {
+  const requests: FakeChain["requests"] = [];
+  const sent: ethers.Transaction[] = [];
+  const nonces = { latest: 0, pending: 0 };
+  const calls = new Map<string, (data: string) => string>();
+  const receipts = new Map<string, Record<string, unknown>>();
+
+  function mine(tx: ethers.Transaction, status: 1 | 0 = 1): void {
+    receipts.set(tx.hash!, receipt(tx, status));
+    nonces.latest = Math.max(nonces.latest, tx.nonce + 1);
+    nonces.pending = Math.max(nonces.pending, nonces.latest);
+  }
+
+  function ethCall(params: unknown[]): string {
+    const { to, data } = params[0] as { to: string; data: string };
+    const handler = calls.get(`${to.toLowerCase()}:${data.slice(0, 10)}`);
+    if (!handler) rpcError("execution reverted", 3);
+    return handler(data);
+  }
+
+  const handlers = new Map<string, Handler>([
+    ["eth_chainId", () => hex(chainId)],
+    ["net_version", () => String(chainId)],
+    ["eth_blockNumber", () => hex(BLOCK_NUMBER)],
+    ["eth_getBlockByNumber", () => block(BLOCK_NUMBER)],
+    ["eth_gasPrice", () => hex(1_000_000_000)],
+    ["eth_maxPriorityFeePerGas", () => hex(1_000_000)],
+    ["eth_estimateGas", () => hex(21_000)],
+    ["eth_getTransactionCount", (params) => hex(params[1] === "pending" ? nonces.pending : nonces.latest)],
+    [
+      "eth_getTransactionByHash",
+      (params) => {
+        const tx = sent.find((t) => t.hash === params[0]);
+        return tx ? txResponse(tx) : null;
+      },
+    ],
+    ["eth_getTransactionReceipt", (params) => receipts.get(params[0] as string) ?? null],
+    ["eth_getLogs", () => []],
+    ["eth_call", ethCall],
+    [
+      "eth_sendRawTransaction",
+      (params) => {
+        const tx = ethers.Transaction.from(params[0] as string);
+        if (tx.nonce < nonces.latest) rpcError("nonce too low");
+        sent.push(tx);
+        nonces.pending = Math.max(nonces.pending, tx.nonce + 1);
+        const status = chain.outcome(tx);
+        if (status !== null) mine(tx, status);
+        return tx.hash;
+      },
+    ],
+  ]);
+
+  function answer(payload: { id: number; method: string; params?: unknown[] }): Record<string, unknown> {
+    const params = payload.params ?? [];
+    requests.push({ method: payload.method, params });
+    const handler = handlers.get(payload.method);
+    try {
+      if (!handler) rpcError(`method ${payload.method} not supported`, -32601);
+      return { jsonrpc: "2.0", id: payload.id, result: handler(params) };
+    } catch (err: unknown) {
+      const code = err instanceof RpcError ? err.code : -32000;
+      const message = err instanceof Error ? err.message : String(err);
+      return { jsonrpc: "2.0", id: payload.id, error: { code, message } };
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+      const result = Array.isArray(body) ? body.map(answer) : answer(body);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(result));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const chain: FakeChain = {
+    url,
+    network: (overrides = {}) => ({
+      ...config.networks["base-sepolia"],
+      multicallAddress: "",
+      ...overrides,
+      rpcUrl: url,
+    }),
+    handlers,
+    mockCall: (address, iface, method, handler) => {
+      const fragment = iface.getFunction(method)!;
+      calls.set(`${address.toLowerCase()}:${fragment.selector}`, (data) =>
+        iface.encodeFunctionResult(fragment, handler(...iface.decodeFunctionData(fragment, data)))
+      );
+    },
+    requests,
+    sent,
+    nonces,
+    outcome: () => 1,
+    mine,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+  return chain;
+}
@@ -0,0 +1,22 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { RequestListener } from "node:http";
+
+/** An HTTP server on a free local port, for the proxy app or a fake upstream. */
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+export async function listen(handler: RequestListener): Promise<TestServer> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
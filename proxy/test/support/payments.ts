@@ -0,0 +1,87 @@
+import { ethers } from "ethers";
+import { config } from "../../src/config.js";
+import type { ExactEvmPayload, PaymentPayload, PaymentRequirementsAccept } from "../../src/types/x402.js";
+import type { FakeChain } from "./fakeChain.js";
+
+/** x402 payments signed the way client wallets sign them. */
+
+export const usdcIface = new ethers.Interface([
+  "function balanceOf(address account) view returns (uint256)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+  "function nonces(address owner) view returns (uint256)",
+]);
+
+/**
+ * An EIP-3009 token (by default USDC) on the fake chain: balances (default:
+ * plenty) and used authorization nonces.
+ */
+export function mockUsdc(
+  chain: FakeChain,
+  balances = new Map<string, bigint>(),
+  usedNonces = new Set<string>(),
+  token = config.networks["base-sepolia"].usdcAddress
+): void {
+  chain.mockCall(token, usdcIface, "balanceOf", (account: string) => [balances.get(account.toLowerCase()) ?? 10n ** 12n]);
+  chain.mockCall(token, usdcIface, "authorizationState", (_from: string, nonce: string) => [usedNonces.has(nonce)]);
+  chain.mockCall(token, usdcIface, "nonces", () => [0n]);
+}
+
+export function exactRequirement(overrides: Partial<PaymentRequirementsAccept> = {}): PaymentRequirementsAccept {
+  const network = config.networks["base-sepolia"];
+  return {
+    scheme: "exact",
+    network: network.name,
+    maxAmountRequired: "1000",
+    resource: "http://localhost/proxy/weather",
+    description: "",
+    mimeType: "application/json",
+    payTo: "0x000000000000000000000000000000000000bEEF",
+    maxTimeoutSeconds: 60,
+    asset: network.usdcAddress,
+    extra: { name: network.usdcName, version: network.usdcVersion },
+    ...overrides,
+  };
+}
+
+/** An `exact` payload authorizing `requirement`, signed by `payer` for chain 84532. */
+export async function signExactPayment(
+  payer: ethers.BaseWallet,
+  requirement: PaymentRequirementsAccept,
+  overrides: Partial<ExactEvmPayload["authorization"]> = {}
+): Promise<PaymentPayload> {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization: ExactEvmPayload["authorization"] = {
+    from: payer.address,
+    to: requirement.payTo,
+    value: requirement.maxAmountRequired,
+    validAfter: String(now - 60),
+    validBefore: String(now + 300),
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+    ...overrides,
+  };
+  const signature = await payer.signTypedData(
+    { name: requirement.extra.name, version: requirement.extra.version, chainId: 84532, verifyingContract: requirement.asset },
+    {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    },
+    authorization
+  );
+  return { x402Version: 1, scheme: "exact", network: requirement.network, payload: { authorization, signature } };
+}
+
+export function encodeHeader(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+export function decodeHeader<T>(value: string | null): T {
+  if (value === null) throw new Error("Expected a payment header");
+  return JSON.parse(Buffer.from(value, "base64").toString("utf-8")) as T;
+}
@@ -0,0 +1,32 @@
+import { execFile } from "node:child_process";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const run = promisify(execFile);
+
+export const proxyRoot = path.resolve(__dirname, "../..");
+
+/** `require()` call for a proxy module, by path relative to `proxy/`. */
+export function requireModule(module: string): string {
+  return `require(${JSON.stringify(path.join(proxyRoot, module))})`;
+}
+
+/**
+ * Run a CommonJS `script` in a fresh process with the given environment, for
+ * what the proxy does when it starts. Resolves with its stdout.
+ */
+export async function runFresh(script: string, env: Record<string, string>): Promise<string> {
+  const { stdout } = await run(process.execPath, ["--import", "tsx", "--eval", script], {
+    cwd: proxyRoot,
+    env: { ...process.env, ...env },
+  });
+  return stdout;
+}
+
+/**
+ * Load proxy modules in a fresh process, as a restart of the proxy would,
+ * and wait for it to exit. Stores load and compact their files on import.
+ */
+export async function restartWith(modules: string[], env: Record<string, string>): Promise<void> {
+  await runFresh(modules.map((module) => `${requireModule(module)};`).join("\n"), env);
+}
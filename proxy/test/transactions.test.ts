@@ -0,0 +1,84 @@
+import { TEST_ADMIN_TOKEN, dataDir } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { app } from "../src/app.js";
+import { getTransaction, queryTransactions, recordTransaction } from "../src/services/transactionStore.js";
+import type { Transaction, TransactionPage } from "../src/types/x402.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const ALICE = "0x00000000000000000000000000000000000A11cE";
+const BOB = "0x0000000000000000000000000000000000000B0B";
+
+function tx(id: string, overrides: Partial<Transaction>): Transaction {
+  return {
+    id,
+    resourceId: "weather",
+    payer: ALICE,
+    amount: "1000",
+    method: "x402",
+    timestamp: 1_000,
+    status: "settled",
+    ...overrides,
+  };
+}
+
+let server: TestServer;
+
+before(async () => {
+  recordTransaction(tx("t1", { timestamp: 1_000 }));
+  recordTransaction(tx("t2", { timestamp: 2_000, payer: BOB, method: "gateway", status: "verified" }));
+  recordTransaction(tx("t3", { timestamp: 3_000, resourceId: "news" }));
+  server = await listen(app);
+});
+
+after(() => server.close());
+
+function get(query: string, token = TEST_ADMIN_TOKEN): Promise<Response> {
+  return fetch(`${server.url}/transactions${query}`, { headers: { authorization: `Bearer ${token}` } });
+}
+
+test("queries filter by payer case-insensitively and return newest first", () => {
+  const page = queryTransactions({ payer: ALICE.toLowerCase() });
+  assert.equal(page.total, 2);
+  assert.deepEqual(page.transactions.map((t) => t.id), ["t3", "t1"]);
+});
+
+test("queries combine filters, time bounds and pagination", () => {
+  assert.deepEqual(queryTransactions({ resourceId: "weather", method: "x402" }).transactions.map((t) => t.id), ["t1"]);
+  assert.deepEqual(queryTransactions({ from: 1_500, to: 3_000 }).transactions.map((t) => t.id), ["t3", "t2"]);
+
+  const page = queryTransactions({ limit: 1, offset: 1 });
+  assert.equal(page.total, 3);
+  assert.deepEqual(page.transactions.map((t) => t.id), ["t2"]);
+});
+
+test("a later record with the same id supersedes the earlier one, append-only", () => {
+  recordTransaction(tx("t4", { status: "verified" }));
+  recordTransaction(tx("t4", { status: "refunded", failureReason: "Upstream HTTP 503" }));
+
+  assert.equal(getTransaction("t4")?.status, "refunded");
+  const lines = fs.readFileSync(path.join(dataDir, "transactions.jsonl"), "utf-8").trim().split("\n");
+  assert.deepEqual(
+    lines.map((line) => JSON.parse(line)).filter((t) => t.id === "t4").map((t) => t.status),
+    ["verified", "refunded"]
+  );
+});
+
+test("GET /transactions requires the admin token", async () => {
+  assert.equal((await get("", "wrong")).status, 401);
+});
+
+test("GET /transactions parses filters from the query string", async () => {
+  const res = await get(`?payer=${BOB}&from=1970-01-01T00:00:01.500Z&status=verified`);
+  assert.equal(res.status, 200);
+  const page = (await res.json()) as TransactionPage;
+  assert.deepEqual(page.transactions.map((t) => t.id), ["t2"]);
+});
+
+test("GET /transactions rejects invalid filters with 400", async () => {
+  for (const query of ["?status=lost", "?method=card", "?from=yesterday", "?limit=-1", "?payer=a&payer=b", "?resourceId[x]=1"]) {
+    assert.equal((await get(query)).status, 400, query);
+  }
+});
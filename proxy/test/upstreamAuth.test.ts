@@ -0,0 +1,165 @@
+import { TEST_ADMIN_TOKEN } from "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, createHmac } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import { buffer } from "node:stream/consumers";
+import { app } from "../src/app.js";
+import { validateUpstreamAuth } from "../src/services/upstreamAuth.js";
+import { getResourceHealth } from "../src/services/upstreamHealth.js";
+import type { UpstreamAuth } from "../src/types/x402.js";
+import { listen, type TestServer } from "./support/http.js";
+
+const SECRET = "s3cr3t-value";
+
+let upstream: TestServer;
+let tokenServer: TestServer;
+let proxy: TestServer;
+/** What the upstream last received. */
+let received: { url?: string; headers: IncomingHttpHeaders; body: Buffer } = { headers: {}, body: Buffer.alloc(0) };
+/** Requests to the token endpoint, as form parameters plus the Authorization header. */
+const tokenRequests: { form: URLSearchParams; authorization?: string }[] = [];
+let tokenStatus = 200;
+
+before(async () => {
+  upstream = await listen(async (req, res) => {
+    received = { url: req.url, headers: req.headers, body: await buffer(req) };
+    res.statusCode = req.url === "/expired" ? 401 : 200;
+    res.end("{}");
+  });
+  tokenServer = await listen(async (req, res) => {
+    tokenRequests.push({ form: new URLSearchParams((await buffer(req)).toString()), authorization: req.headers.authorization });
+    res.statusCode = tokenStatus;
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ access_token: `token-${tokenRequests.length}`, token_type: "bearer", expires_in: 3600 }));
+  });
+  proxy = await listen(app);
+});
+
+after(async () => {
+  await proxy.close();
+  await tokenServer.close();
+  await upstream.close();
+});
+
+function admin(method: string, route: string, body: unknown): Promise<Response> {
+  return fetch(`${proxy.url}${route}`, {
+    method,
+    headers: { authorization: `Bearer ${TEST_ADMIN_TOKEN}`, "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Register a free resource authenticating to `originalUrl` with `upstreamAuth`. */
+async function register(id: string, upstreamAuth: UpstreamAuth, originalUrl = `${upstream.url}/`): Promise<void> {
+  const res = await admin("POST", "/admin/register", {
+    id,
+    name: id,
+    type: "API",
+    creatorAddress: "0x000000000000000000000000000000000000bEEF",
+    originalUrl,
+    pricing: { pricePerCall: "1000", rules: [{ path: "/*", pricePerCall: "0" }] },
+    upstreamAuth,
+    apiKey: SECRET,
+  });
+  assert.equal(res.status, 201);
+}
+
+const call = (resourceId: string, route = "/call", init?: RequestInit): Promise<Response> =>
+  fetch(`${proxy.url}/proxy/${resourceId}${route}`, init);
+
+test("header, query, basic and bearer modes present the secret", async () => {
+  await register("header", { type: "header", header: "X-Api-Key", prefix: "Key " });
+  await call("header", "/call", { headers: { "x-api-key": "client-sent" } });
+  assert.equal(received.headers["x-api-key"], `Key ${SECRET}`);
+
+  await register("query", { type: "query", param: "api_key" });
+  await call("query", "/call");
+  assert.equal(received.url, `/call?api_key=${SECRET}`);
+
+  await register("basic", { type: "basic", username: "user" });
+  await call("basic");
+  assert.equal(received.headers.authorization, `Basic ${Buffer.from(`user:${SECRET}`).toString("base64")}`);
+
+  await register("bearer", { type: "bearer" });
+  await call("bearer");
+  assert.equal(received.headers.authorization, `Bearer ${SECRET}`);
+});
+
+test("a query-mode secret stays out of upstream error reports", async () => {
+  await register("query-down", { type: "query", param: "api_key" }, "http://127.0.0.1:9/");
+  const res = await call("query-down");
+  assert.equal(res.status, 502);
+  assert.ok(!(await res.text()).includes(SECRET));
+  const { lastError } = getResourceHealth("query-down");
+  assert.match(lastError ?? "", /127\.0\.0\.1:9\/call/);
+  assert.ok(!lastError?.includes(SECRET));
+});
+
+test("OAuth2 client credentials are exchanged once and the token reused", async () => {
+  await register("oauth", { type: "oauth2-client-credentials", tokenUrl: tokenServer.url, clientId: "client", scope: "read", clientAuth: "basic" });
+  await call("oauth");
+  await call("oauth");
+  assert.equal(received.headers.authorization, "Bearer token-1");
+  assert.equal(tokenRequests.length, 1);
+
+  const [{ form, authorization }] = tokenRequests;
+  assert.deepEqual([form.get("grant_type"), form.get("scope"), form.get("client_secret")], ["client_credentials", "read", null]);
+  assert.equal(authorization, `Basic ${Buffer.from(`client:${SECRET}`).toString("base64")}`);
+});
+
+test("an upstream 401 makes the next call fetch a new token", async () => {
+  assert.equal((await call("oauth", "/expired")).status, 401);
+  await call("oauth");
+  assert.equal(received.headers.authorization, "Bearer token-2");
+});
+
+test("a failing token endpoint is reported without calling the upstream", async () => {
+  await register("oauth-down", { type: "oauth2-client-credentials", tokenUrl: tokenServer.url, clientId: "client" });
+  tokenStatus = 500;
+  received = { headers: {}, body: Buffer.alloc(0) };
+  try {
+    const res = await call("oauth-down");
+    assert.equal(res.status, 502);
+    assert.deepEqual(await res.json(), { error: "Upstream authentication failed" });
+    assert.equal(received.url, undefined);
+  } finally {
+    tokenStatus = 200;
+  }
+  // The client secret went in the form body
+  assert.equal(tokenRequests[tokenRequests.length - 1].form.get("client_secret"), SECRET);
+});
+
+test("HMAC mode signs the timestamp, method, path and body", async () => {
+  await register("hmac", { type: "hmac", keyId: "key-1", signatureEncoding: "base64" });
+  const body = JSON.stringify({ prompt: "hi" });
+  await call("hmac", "/v1/run", { method: "POST", headers: { "content-type": "application/json" }, body });
+
+  const timestamp = received.headers["x-timestamp"] as string;
+  const canonical = [timestamp, "POST", "/v1/run", createHash("sha256").update(body).digest("hex")].join("\n");
+  assert.equal(received.headers["x-signature"], createHmac("sha256", SECRET).update(canonical).digest("base64"));
+  assert.equal(received.headers["x-key-id"], "key-1");
+  assert.equal(received.body.toString(), body);
+});
+
+test("admins switch a resource's auth mode, keeping its secret", async () => {
+  const res = await admin("PUT", "/admin/register/bearer/upstream-auth", { upstreamAuth: { type: "basic", username: "other" } });
+  assert.equal(res.status, 200);
+  await call("bearer");
+  assert.equal(received.headers.authorization, `Basic ${Buffer.from(`other:${SECRET}`).toString("base64")}`);
+
+  const restored = await admin("PUT", "/admin/register/bearer/upstream-auth", { upstreamAuth: null });
+  assert.equal(restored.status, 200);
+  await call("bearer");
+  assert.equal(received.headers.authorization, SECRET);
+});
+
+test("unusable auth configurations are rejected", () => {
+  const invalid = (auth: unknown) => validateUpstreamAuth(auth as UpstreamAuth);
+  assert.equal(invalid({ type: "header", header: "Bad Header" }), "upstreamAuth.header must be a header name");
+  assert.equal(invalid({ type: "query" }), "upstreamAuth.param is required");
+  assert.equal(invalid({ type: "oauth2-client-credentials", tokenUrl: "ftp://x", clientId: "c" }), "upstreamAuth.tokenUrl must be an http(s) URL");
+  assert.equal(invalid({ type: "hmac", algorithm: "md5" }), 'upstreamAuth.algorithm must be "sha256" or "sha512"');
+  assert.match(invalid({ type: "digest" }) ?? "", /^upstreamAuth\.type must be one of/);
+  assert.equal(invalid({ type: "bearer" }), null);
+});
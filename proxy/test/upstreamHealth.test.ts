@@ -0,0 +1,89 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { getResourceHealth, startHealthChecks, stopHealthChecks } from "../src/services/upstreamHealth.js";
+import type { ResourceHealth } from "../src/types/x402.js";
+import { listen, type TestServer } from "./support/http.js";
+import { waitFor } from "./support/wait.js";
+
+const PAYEE = "0x000000000000000000000000000000000000bEEF";
+
+let upstream: TestServer;
+let proxy: TestServer;
+/** Whether the upstream answers 500. */
+let failing = false;
+
+before(async () => {
+  config.circuitFailureThreshold = 3;
+  config.circuitOpenMs = 300;
+  config.healthCheckIntervalMs = 60_000;
+
+  upstream = await listen((req, res) => {
+    res.statusCode = req.url === "/status/down" ? 503 : failing ? 500 : 200;
+    res.end();
+  });
+  proxy = await listen(app);
+
+  // Free routes: the breaker guards them as it guards paid ones
+  const pricing = { pricePerCall: "1000", currency: "USDC" as const, rules: [{ path: "/*", pricePerCall: "0" }] };
+  const common = { type: "API", creatorAddress: PAYEE, pricing } as const;
+  registerResource({ ...common, id: "flaky", name: "Flaky", originalUrl: `${upstream.url}/` });
+  registerResource({ ...common, id: "probed", name: "Probed", originalUrl: `${upstream.url}/`, healthCheckUrl: `${upstream.url}/status/down` });
+  registerResource({ ...common, id: "gone", name: "Gone", originalUrl: "http://127.0.0.1:9/" });
+});
+
+after(async () => {
+  stopHealthChecks();
+  await proxy.close();
+  await upstream.close();
+});
+
+async function healthOf(resourceId: string): Promise<ResourceHealth & { resourceStatus: string }> {
+  const services = (await (await fetch(`${proxy.url}/services`)).json()) as { id: string; status: string; health: ResourceHealth }[];
+  const service = services.find((s) => s.id === resourceId)!;
+  return { ...service.health, resourceStatus: service.status };
+}
+
+const call = (resourceId: string): Promise<Response> => fetch(`${proxy.url}/proxy/${resourceId}/call`);
+
+test("probes mark resources healthy or unhealthy, using healthCheckUrl when set", async () => {
+  assert.equal((await healthOf("flaky")).status, "unknown");
+  startHealthChecks();
+  await waitFor(() => ["flaky", "probed", "gone"].every((id) => getResourceHealth(id).lastCheckedAt !== undefined));
+  stopHealthChecks();
+
+  assert.equal((await healthOf("flaky")).resourceStatus, "healthy");
+  const probed = await healthOf("probed");
+  assert.deepEqual([probed.consecutiveFailures, probed.lastError], [1, "Health probe HTTP 503"]);
+  assert.match((await healthOf("gone")).lastError ?? "", /^Health probe failed: /);
+});
+
+test("consecutive upstream failures open the circuit and the gate answers 503", async () => {
+  failing = true;
+  for (let i = 0; i < 3; i++) assert.equal((await call("flaky")).status, 500);
+
+  const health = await healthOf("flaky");
+  assert.deepEqual([health.resourceStatus, health.circuit, health.consecutiveFailures], ["unhealthy", "open", 3]);
+  assert.ok(health.retryAt);
+
+  const refused = await call("flaky");
+  assert.equal(refused.status, 503);
+  assert.equal(refused.headers.get("retry-after"), "1");
+  assert.deepEqual(await refused.json(), { error: "Resource 'flaky' is temporarily unavailable", retryAfter: 1 });
+});
+
+test("after the cool-down a failed trial re-opens the circuit and a successful one closes it", async () => {
+  await new Promise((resolve) => setTimeout(resolve, config.circuitOpenMs));
+  assert.equal((await call("flaky")).status, 500);
+  assert.equal((await healthOf("flaky")).circuit, "open");
+  assert.equal((await call("flaky")).status, 503);
+
+  await new Promise((resolve) => setTimeout(resolve, config.circuitOpenMs));
+  failing = false;
+  assert.equal((await call("flaky")).status, 200);
+  const health = await healthOf("flaky");
+  assert.deepEqual([health.resourceStatus, health.circuit, health.consecutiveFailures], ["healthy", "closed", 0]);
+});
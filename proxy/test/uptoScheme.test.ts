@@ -0,0 +1,186 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import http from "node:http";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { meterCharge } from "../src/services/uptoScheme.js";
+import type { MeteredPricing, PaymentPayload, PaymentRequirementsAccept, SettlementResponseV1, X402ErrorResponse } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { decodeHeader, encodeHeader, mockUsdc } from "./support/payments.js";
+
+const PAYEE = "0x000000000000000000000000000000000000bEEF";
+const metered: MeteredPricing = { unit: "tokens", pricePerUnit: "10", basePrice: "100", maxPerCall: "100000" };
+
+const permitIface = new ethers.Interface([
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function transferFrom(address from, address to, uint256 value) returns (bool)",
+]);
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  mockUsdc(chain);
+  chain.mockCall(config.networks["base-sepolia"].usdcAddress, permitIface, "allowance", () => [0n]);
+
+  upstream = await listen((req, res) => {
+    switch (req.url) {
+      case "/fail":
+        res.statusCode = 500;
+        res.end("{}");
+        return;
+      case "/stream":
+        res.setHeader("content-type", "text/event-stream");
+        res.write('data: {"choices":[]}\n\n');
+        res.end('data: {"usage":{"total_tokens":7}}\n\ndata: [DONE]\n\n');
+        return;
+      default:
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ usage: { prompt_tokens: 12, completion_tokens: 30 } }));
+    }
+  });
+  proxy = await listen(app);
+  registerResource({
+    id: "llm",
+    name: "LLM",
+    type: "API",
+    creatorAddress: PAYEE,
+    originalUrl: `${upstream.url}/`,
+    pricing: { pricePerCall: "1000", currency: "USDC", metered },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+/** An `upto` payload: an EIP-2612 permit for the requirement's cap, signed for chain 84532. */
+async function signPermit(payer: ethers.BaseWallet, requirement: PaymentRequirementsAccept): Promise<PaymentPayload> {
+  const permit = {
+    owner: payer.address,
+    spender: requirement.extra.spender!,
+    value: requirement.maxAmountRequired,
+    nonce: "0",
+    deadline: String(Math.floor(Date.now() / 1000) + 600),
+  };
+  const signature = await payer.signTypedData(
+    { name: requirement.extra.name, version: requirement.extra.version, chainId: 84532, verifyingContract: requirement.asset },
+    {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    permit
+  );
+  return { x402Version: 1, scheme: "upto", network: requirement.network, payload: { permit, signature } };
+}
+
+async function paidHeaders(payer = ethers.Wallet.createRandom()): Promise<Record<string, string>> {
+  const res = await fetch(`${proxy.url}/proxy/llm/chat`);
+  const { accepts } = (await res.json()) as X402ErrorResponse;
+  return { "x-payment": encodeHeader(await signPermit(payer, accepts[0])) };
+}
+
+function chargedAmount(tx: ethers.Transaction): bigint {
+  const [, to, value] = permitIface.decodeFunctionData("transferFrom", tx.data);
+  assert.equal(to, PAYEE);
+  return value as bigint;
+}
+
+test("charges count tokens from JSON, NDJSON and event-stream bodies, capped at the maximum", () => {
+  const charge = (body: string, max = "100000") =>
+    meterCharge(metered, max, { body: Buffer.from(body), durationMs: 0 });
+
+  assert.deepEqual(charge('{"usage":{"total_tokens":50}}'), { units: 50, amount: 600n });
+  assert.deepEqual(charge('{"usage":{"input_tokens":3,"output_tokens":4}}'), { units: 7, amount: 170n });
+  assert.deepEqual(charge('{"response":"a"}\n{"done":true,"prompt_eval_count":5,"eval_count":15}\n'), { units: 20, amount: 300n });
+  assert.deepEqual(charge('data: {"usage":null}\n\n: ping\n\ndata: {"usage":{"total_tokens":9}}\n\ndata: [DONE]\n\n'), { units: 9, amount: 190n });
+  assert.deepEqual(charge("not json"), { units: 0, amount: 100n });
+  assert.deepEqual(charge('{"usage":{"total_tokens":50}}', "500"), { units: 50, amount: 500n });
+
+  const perMs: MeteredPricing = { unit: "ms", pricePerUnit: "2", maxPerCall: "1000" };
+  assert.deepEqual(meterCharge(perMs, "1000", { body: Buffer.alloc(0), durationMs: 12.3 }), { units: 13, amount: 26n });
+});
+
+test("a 402 for a metered resource asks for an upto permit to the proxy signer", async () => {
+  const res = await fetch(`${proxy.url}/proxy/llm/chat`);
+  const [accept] = ((await res.json()) as X402ErrorResponse).accepts;
+  assert.equal(accept.scheme, "upto");
+  assert.equal(accept.maxAmountRequired, "100000");
+  assert.equal(accept.extra.spender, new ethers.Wallet(config.proxySignerKey).address);
+});
+
+test("a metered call submits the permit and pulls only the measured charge", async () => {
+  const sentBefore = chain.sent.length;
+  const res = await fetch(`${proxy.url}/proxy/llm/chat`, { headers: await paidHeaders() });
+  assert.equal(res.status, 200);
+
+  const [permitTx, transferTx] = chain.sent.slice(sentBefore);
+  assert.equal(permitIface.parseTransaction(permitTx)?.name, "permit");
+  assert.equal(chargedAmount(transferTx), 100n + 42n * 10n);
+
+  const settlement = decodeHeader<SettlementResponseV1>(res.headers.get("x-payment-response"));
+  assert.equal(settlement.transaction, transferTx.hash);
+  assert.equal(settlement.amount, "520");
+});
+
+test("a permit pays for one call only", async () => {
+  const headers = await paidHeaders();
+  assert.equal((await fetch(`${proxy.url}/proxy/llm/chat`, { headers })).status, 200);
+
+  const replay = await fetch(`${proxy.url}/proxy/llm/chat`, { headers });
+  assert.equal(replay.status, 402);
+  assert.equal(((await replay.json()) as { reason: string }).reason, "invalid_upto_evm_payload_permit_nonce");
+});
+
+test("a failed upstream call is not charged and leaves the permit usable", async () => {
+  const headers = await paidHeaders();
+  const sentBefore = chain.sent.length;
+  const failed = await fetch(`${proxy.url}/proxy/llm/fail`, { headers });
+  assert.equal(failed.status, 500);
+  assert.equal(failed.headers.get("x-payment-response"), null);
+  assert.equal(chain.sent.length, sentBefore);
+
+  assert.equal((await fetch(`${proxy.url}/proxy/llm/chat`, { headers })).status, 200);
+});
+
+test("a metered event stream is relayed and its settlement sent as a trailer", async () => {
+  const headers = await paidHeaders();
+  const sentBefore = chain.sent.length;
+  const { res, body } = await new Promise<{ res: http.IncomingMessage; body: string }>((resolve, reject) => {
+    http
+      .get(`${proxy.url}/proxy/llm/stream`, { headers }, (res) => {
+        let body = "";
+        res.setEncoding("utf-8");
+        res.on("data", (chunk: string) => (body += chunk));
+        res.on("end", () => resolve({ res, body }));
+      })
+      .on("error", reject);
+  });
+
+  assert.equal(res.statusCode, 200);
+  assert.match(body, /"total_tokens":7/);
+  assert.match(String(res.headers.trailer), /X-PAYMENT-RESPONSE/i);
+  assert.equal(res.headers["x-payment-response"], undefined);
+
+  const transferTx = chain.sent[chain.sent.length - 1];
+  assert.equal(chain.sent.length - sentBefore, 2);
+  assert.equal(chargedAmount(transferTx), 170n);
+  const settlement = decodeHeader<SettlementResponseV1>(res.trailers["x-payment-response"] ?? null);
+  assert.equal(settlement.transaction, transferTx.hash);
+  assert.equal(settlement.amount, "170");
+});
@@ -0,0 +1,177 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { buffer } from "node:stream/consumers";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import {
+  RECEIPT_HEADER,
+  decodeReceiptHeader,
+  hashReceiptRequest,
+  recoverUsageReceiptSigner,
+  usageReceiptDigest,
+  usageReceiptDomain,
+  USAGE_RECEIPT_TYPES,
+  type SignedUsageReceipt,
+} from "../src/sdk/usageReceipt.js";
+import type { X402ErrorResponse } from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { encodeHeader, mockUsdc, signExactPayment } from "./support/payments.js";
+import { requireModule, runFresh } from "./support/restart.js";
+
+const payer = ethers.Wallet.createRandom();
+const PROXY_SIGNER = new ethers.Wallet(config.proxySignerKey).address;
+const SERVICE_ID = ethers.id("weather-service");
+
+const gatewayIface = new ethers.Interface([
+  "function getPayment(bytes32 paymentId) view returns (tuple(address payer, bytes32 serviceId, uint256 calls, uint256 amount, bool valid))",
+]);
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+let nextPayment = 1;
+
+/** POST /receipts/verify answer. */
+interface Verification {
+  valid: boolean;
+  signer: string;
+  issued: boolean;
+}
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.facilitatorMode = "local";
+  mockUsdc(chain);
+  chain.mockCall(config.gatewayAddress, gatewayIface, "getPayment", () => [
+    { payer: payer.address, serviceId: SERVICE_ID, calls: 1n, amount: 1000n, valid: true },
+  ]);
+
+  upstream = await listen(async (req, res) => {
+    await buffer(req);
+    res.statusCode = req.url === "/fail" ? 500 : 201;
+    res.end("{}");
+  });
+  proxy = await listen(app);
+  const common = { type: "API", creatorAddress: payer.address, originalUrl: `${upstream.url}/` } as const;
+  registerResource({ ...common, id: "weather", name: "Weather", serviceId: SERVICE_ID, pricing: { pricePerCall: "1000", currency: "USDC" } });
+  registerResource({ ...common, id: "maps", name: "Maps", pricing: { pricePerCall: "1000", currency: "USDC" } });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+/** A paid gateway call to the weather resource; returns the paymentId and response. */
+async function gatewayCall(route = "/forecast", init: RequestInit = {}): Promise<{ paymentId: string; res: Response }> {
+  const paymentId = ethers.zeroPadValue(ethers.toBeHex(nextPayment++), 32);
+  const res = await fetch(`${proxy.url}/proxy/weather${route}`, {
+    ...init,
+    headers: { ...(init.headers as Record<string, string>), "x-payment-id": paymentId },
+  });
+  return { paymentId, res };
+}
+
+function receiptOf(res: Response): SignedUsageReceipt {
+  const header = res.headers.get(RECEIPT_HEADER);
+  assert.ok(header, "response carries a receipt");
+  return decodeReceiptHeader(header);
+}
+
+async function verify(signed: unknown): Promise<Response> {
+  return fetch(`${proxy.url}/receipts/verify`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(signed),
+  });
+}
+
+test("a gateway call's receipt is signed by the proxy and binds the request", async () => {
+  const body = JSON.stringify({ city: "Lisbon" });
+  const { paymentId, res } = await gatewayCall("/forecast", { method: "POST", headers: { "content-type": "application/json" }, body });
+  assert.equal(res.status, 201);
+
+  const signed = receiptOf(res);
+  assert.equal(recoverUsageReceiptSigner(signed, 84532), PROXY_SIGNER);
+  const { receipt } = signed;
+  assert.deepEqual(
+    [receipt.resourceId, receipt.payer, receipt.amount, receipt.method, receipt.paymentRef, receipt.txHash, receipt.upstreamStatus],
+    ["weather", payer.address, "1000", "gateway", paymentId, ethers.ZeroHash, 201]
+  );
+  assert.equal(receipt.requestHash, hashReceiptRequest("POST", "/proxy/weather/forecast", Buffer.from(body)));
+});
+
+test("an x402 receipt names the authorization nonce and settlement transaction", async () => {
+  const res402 = await fetch(`${proxy.url}/proxy/maps`);
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const nonce = ethers.hexlify(ethers.randomBytes(32));
+  const res = await fetch(`${proxy.url}/proxy/maps`, {
+    headers: { "x-payment": encodeHeader(await signExactPayment(payer, accepts[0], { nonce })) },
+  });
+  assert.equal(res.status, 201);
+
+  const { receipt } = receiptOf(res);
+  assert.deepEqual(
+    [receipt.method, receipt.paymentRef, receipt.txHash, receipt.network],
+    ["x402", nonce, chain.sent[chain.sent.length - 1].hash, "base-sepolia"]
+  );
+});
+
+test("a failed upstream answer is recorded in the receipt", async () => {
+  const { res } = await gatewayCall("/fail");
+  assert.equal(res.status, 500);
+  assert.equal(receiptOf(res).receipt.upstreamStatus, 500);
+});
+
+test("issued receipts are looked up and verified by the proxy", async () => {
+  const domain = await (await fetch(`${proxy.url}/receipts/domain`)).json();
+  assert.deepEqual(domain, { domain: { name: "PragmaMoney Receipt", version: "1", chainId: 84532 }, signer: PROXY_SIGNER });
+
+  const signed = receiptOf((await gatewayCall()).res);
+  const digest = usageReceiptDigest(signed.receipt, 84532);
+  assert.deepEqual(await (await fetch(`${proxy.url}/receipts/${signed.receipt.receiptId}`)).json(), { ...signed, digest });
+  assert.equal((await fetch(`${proxy.url}/receipts/${ethers.ZeroHash}`)).status, 404);
+  assert.equal((await fetch(`${proxy.url}/receipts/not-an-id`)).status, 400);
+
+  assert.deepEqual(await (await verify(signed)).json(), { valid: true, signer: PROXY_SIGNER, expectedSigner: PROXY_SIGNER, issued: true, digest });
+
+  // An edited receipt no longer recovers to the proxy signer
+  const edited = (await (await verify({ ...signed, receipt: { ...signed.receipt, amount: "1" } })).json()) as Verification;
+  assert.deepEqual([edited.valid, edited.issued], [false, false]);
+
+  // A receipt signed by someone else is well-formed but not the proxy's
+  const forger = ethers.Wallet.createRandom();
+  const forged = { receipt: signed.receipt, signature: await forger.signTypedData(usageReceiptDomain(84532), USAGE_RECEIPT_TYPES, signed.receipt) };
+  const result = (await (await verify(forged)).json()) as Verification;
+  assert.deepEqual([result.valid, result.signer, result.issued], [false, forger.address, true]);
+
+  assert.equal((await verify({ receipt: signed.receipt })).status, 400);
+  assert.equal((await verify({ receipt: { ...signed.receipt, payer: "nobody" }, signature: signed.signature })).status, 400);
+});
+
+test("receipts survive a restart", async () => {
+  const { receipt } = receiptOf((await gatewayCall()).res);
+  const script = `process.stdout.write(JSON.stringify(${requireModule("src/services/usageReceipts.ts")}.getUsageReceipt(${JSON.stringify(receipt.receiptId)})))`;
+  assert.deepEqual(JSON.parse(await runFresh(script, {})).receipt, receipt);
+});
+
+test("no receipt is issued when receipts are disabled", async () => {
+  config.usageReceipts = false;
+  try {
+    const { res } = await gatewayCall();
+    assert.equal(res.status, 201);
+    assert.equal(res.headers.get(RECEIPT_HEADER), null);
+    assert.deepEqual(await (await fetch(`${proxy.url}/receipts/domain`)).json(), {
+      domain: { name: "PragmaMoney Receipt", version: "1", chainId: 84532 },
+      signer: null,
+    });
+  } finally {
+    config.usageReceipts = true;
+  }
+});
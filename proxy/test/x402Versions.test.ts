@@ -0,0 +1,134 @@
+import "./support/env.js";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { ethers } from "ethers";
+import { app } from "../src/app.js";
+import { config } from "../src/config.js";
+import { registerResource } from "../src/services/resourceStore.js";
+import { fromCaip2, toCaip2 } from "../src/services/x402Protocol.js";
+import type {
+  PaymentRequiredV2,
+  SettlementResponseV1,
+  SettlementResponseV2,
+  X402ErrorResponse,
+} from "../src/types/x402.js";
+import { startFakeChain, type FakeChain } from "./support/fakeChain.js";
+import { listen, type TestServer } from "./support/http.js";
+import { decodeHeader, encodeHeader, mockUsdc, signExactPayment } from "./support/payments.js";
+
+const PAYEE = "0x000000000000000000000000000000000000bEEF";
+const payer = ethers.Wallet.createRandom();
+
+let chain: FakeChain;
+let upstream: TestServer;
+let proxy: TestServer;
+
+before(async () => {
+  chain = await startFakeChain(84532);
+  config.networks["base-sepolia"].rpcUrl = chain.url;
+  config.facilitatorMode = "local";
+  mockUsdc(chain);
+
+  upstream = await listen((_req, res) => {
+    res.setHeader("content-type", "application/json");
+    res.end(JSON.stringify({ forecast: "sunny" }));
+  });
+  proxy = await listen(app);
+  registerResource({
+    id: "weather",
+    name: "Weather",
+    type: "API",
+    creatorAddress: PAYEE,
+    originalUrl: upstream.url,
+    pricing: { pricePerCall: "1000", currency: "USDC" },
+  });
+});
+
+after(async () => {
+  await proxy.close();
+  await upstream.close();
+  await chain.close();
+});
+
+function call(headers: Record<string, string> = {}): Promise<Response> {
+  return fetch(`${proxy.url}/proxy/weather`, { headers });
+}
+
+test("network names map to CAIP-2 ids and back", () => {
+  assert.equal(toCaip2("base-sepolia"), "eip155:84532");
+  assert.equal(toCaip2("eip155:1"), "eip155:1");
+  assert.equal(fromCaip2("eip155:84532"), "base-sepolia");
+  assert.equal(fromCaip2("base-sepolia"), "base-sepolia");
+  assert.throws(() => toCaip2("atlantis"));
+});
+
+test("a 402 carries v1 requirements in the body and v2 in PAYMENT-REQUIRED", async () => {
+  const res = await call();
+  assert.equal(res.status, 402);
+
+  const v1 = (await res.json()) as X402ErrorResponse;
+  assert.equal(v1.x402Version, 1);
+  assert.equal(v1.accepts[0].network, "base-sepolia");
+  assert.equal(v1.accepts[0].maxAmountRequired, "1000");
+
+  const v2 = decodeHeader<PaymentRequiredV2>(res.headers.get("payment-required"));
+  assert.equal(v2.x402Version, 2);
+  assert.equal(v2.accepts[0].network, "eip155:84532");
+  assert.equal(v2.accepts[0].amount, "1000");
+  assert.equal(v2.accepts[0].payTo, v1.accepts[0].payTo);
+});
+
+test("a v1 payment in X-PAYMENT is answered in X-PAYMENT-RESPONSE", async () => {
+  const { accepts } = (await (await call()).json()) as X402ErrorResponse;
+  const payment = await signExactPayment(payer, accepts[0]);
+
+  const res = await call({ "x-payment": encodeHeader(payment) });
+  assert.equal(res.status, 200);
+  assert.deepEqual(await res.json(), { forecast: "sunny" });
+  assert.equal(res.headers.get("payment-response"), null);
+
+  const settlement = decodeHeader<SettlementResponseV1>(res.headers.get("x-payment-response"));
+  assert.equal(settlement.success, true);
+  assert.equal(settlement.network, "base-sepolia");
+  assert.equal(settlement.payer, payer.address);
+  assert.equal(settlement.transaction, chain.sent[chain.sent.length - 1].hash);
+});
+
+test("a v2 payment in PAYMENT-SIGNATURE is answered in PAYMENT-RESPONSE", async () => {
+  const res402 = await call();
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const { accepts: acceptsV2 } = decodeHeader<PaymentRequiredV2>(res402.headers.get("payment-required"));
+  const { payload } = await signExactPayment(payer, accepts[0]);
+
+  const res = await call({ "payment-signature": encodeHeader({ x402Version: 2, accepted: acceptsV2[0], payload }) });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get("x-payment-response"), null);
+
+  const settlement = decodeHeader<SettlementResponseV2>(res.headers.get("payment-response"));
+  assert.equal(settlement.success, true);
+  assert.equal(settlement.network, "eip155:84532");
+});
+
+test("a v2 payload sent in X-PAYMENT is still treated as v2", async () => {
+  const res402 = await call();
+  const { accepts } = (await res402.json()) as X402ErrorResponse;
+  const { accepts: acceptsV2 } = decodeHeader<PaymentRequiredV2>(res402.headers.get("payment-required"));
+  const { payload } = await signExactPayment(payer, accepts[0]);
+
+  const res = await call({ "x-payment": encodeHeader({ x402Version: 2, accepted: acceptsV2[0], payload }) });
+  assert.equal(res.status, 200);
+  assert.ok(res.headers.get("payment-response"));
+});
+
+test("a payment for an unoffered network or asset is refused", async () => {
+  const { accepts } = (await (await call()).json()) as X402ErrorResponse;
+  const payment = await signExactPayment(payer, { ...accepts[0], network: "arc-testnet" });
+
+  const res = await call({ "x-payment": encodeHeader(payment) });
+  assert.equal(res.status, 402);
+  assert.match(((await res.json()) as { error: string }).error, /No payment requirement matches/);
+});
+
+test("a payment header that is not base64 JSON is a 400", async () => {
+  assert.equal((await call({ "payment-signature": "not json" })).status, 400);
+});